@@ -11,10 +11,15 @@ import ResetPassword from "./pages/ResetPassword";
 import Patients from "./pages/Patients";
 import Doctors from "./pages/Doctors";
 import Appointments from "./pages/Appointments";
+import AppointmentResponse from "./pages/AppointmentResponse";
+import ConsultRoom from "./pages/ConsultRoom";
+import CheckIn from "./pages/CheckIn";
 
 import DoctorDashboard from "./pages/DoctorDashboard";
 import PatientProfile from "./pages/PatientProfile";
 import Pharmacy from "./pages/Pharmacy";
+import LobbyDisplay from "./pages/LobbyDisplay";
+import QueueAnalytics from "./pages/QueueAnalytics";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -34,10 +39,16 @@ const App = () => (
               <Route path="/patients" element={<Patients />} />
               <Route path="/doctors" element={<Doctors />} />
               <Route path="/appointments" element={<Appointments />} />
+              <Route path="/appointments/respond" element={<AppointmentResponse />} />
+              <Route path="/consult/:appointmentId" element={<ConsultRoom />} />
+              <Route path="/check-in" element={<CheckIn />} />
               <Route path="/pharmacy" element={<Pharmacy />} />
               
               <Route path="/doctor-dashboard" element={<DoctorDashboard />} />
               <Route path="/my-profile" element={<PatientProfile />} />
+              <Route path="/analytics" element={<QueueAnalytics />} />
+              <Route path="/display" element={<LobbyDisplay />} />
+              <Route path="/display/:department" element={<LobbyDisplay />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
@@ -22,8 +22,12 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { Calendar, Stethoscope } from "lucide-react";
+import { Calendar, Stethoscope, Timer } from "lucide-react";
 import { DoctorAvailabilityCalendar } from "./DoctorAvailabilityCalendar";
+import { JoinWaitlistDialog } from "./JoinWaitlistDialog";
+import { bookAppointment, SLOT_TAKEN_ERROR } from "@/lib/appointments";
+import { sendAppointmentNotification } from "@/lib/appointmentNotifications";
+import { AppointmentTypeRow, fetchAppointmentTypes } from "@/lib/doctorSchedule";
 
 interface Doctor {
   id: string;
@@ -59,10 +63,15 @@ export function BookAppointmentDialog({
   const [patientId, setPatientId] = useState<string | null>(null);
 
   const [selectedDoctor, setSelectedDoctor] = useState(preselectedDoctorId || "");
+  const [appointmentTypes, setAppointmentTypes] = useState<AppointmentTypeRow[]>([]);
+  const [selectedType, setSelectedType] = useState("");
   const [selectedDate, setSelectedDate] = useState("");
   const [selectedTime, setSelectedTime] = useState("");
   const [symptoms, setSymptoms] = useState("");
   const [notes, setNotes] = useState("");
+  // Bumped to reload the calendar's slots after a booking conflict
+  const [slotsVersion, setSlotsVersion] = useState(0);
+  const [waitlistDate, setWaitlistDate] = useState<string | null>(null);
 
   // Update selected doctor when preselectedDoctorId changes
   useEffect(() => {
@@ -71,6 +80,26 @@ export function BookAppointmentDialog({
     }
   }, [preselectedDoctorId]);
 
+  // Slots depend on the type's duration, so a new doctor or type clears the
+  // chosen time
+  useEffect(() => {
+    setAppointmentTypes([]);
+    setSelectedType("");
+    if (!selectedDoctor) return;
+
+    fetchAppointmentTypes(selectedDoctor, true)
+      .then((types) => {
+        setAppointmentTypes(types);
+        setSelectedType(types[0]?.id ?? "");
+      })
+      .catch((error) => console.error("Error fetching appointment types:", error));
+  }, [selectedDoctor]);
+
+  useEffect(() => {
+    setSelectedDate("");
+    setSelectedTime("");
+  }, [selectedDoctor, selectedType]);
+
   useEffect(() => {
     if (open) {
       fetchDoctors();
@@ -125,59 +154,53 @@ export function BookAppointmentDialog({
 
     setLoading(true);
 
-    const { error } = await supabase.from("appointments").insert({
-      patient_id: patientId,
-      doctor_id: selectedDoctor,
-      scheduled_date: selectedDate,
-      scheduled_time: selectedTime,
-      symptoms: symptoms.trim() || null,
-      notes: notes.trim() || null,
-      status: "pending",
-    });
-
-    if (error) {
-      toast({
-        title: "Error",
-        description: "Failed to book appointment. Please try again.",
-        variant: "destructive",
+    let appointment: Awaited<ReturnType<typeof bookAppointment>>;
+    try {
+      appointment = await bookAppointment({
+        doctorId: selectedDoctor,
+        date: selectedDate,
+        time: selectedTime,
+        appointmentTypeId: selectedType || undefined,
+        symptoms: symptoms.trim() || undefined,
+        notes: notes.trim() || undefined,
       });
-    } else {
+    } catch (error) {
+      const { code, message } = error as { code?: string; message?: string };
       toast({
-        title: "Appointment Booked!",
-        description: "Your appointment has been scheduled successfully.",
+        title: code === SLOT_TAKEN_ERROR ? "Slot No Longer Available" : "Error",
+        description: message || "Failed to book appointment. Please try again.",
+        variant: "destructive",
       });
 
-      // Send confirmation notification
-      try {
-        await supabase.functions.invoke("send-appointment-notification", {
-          body: {
-            patientId,
-            doctorId: selectedDoctor,
-            date: selectedDate,
-            time: selectedTime,
-            type: "confirmation",
-          },
-        });
-      } catch (e) {
-        console.log("Notification service not available");
+      if (code === SLOT_TAKEN_ERROR) {
+        setSelectedTime("");
+        setSlotsVersion((version) => version + 1);
       }
 
-      // Reset form
-      setSelectedDoctor("");
-      setSelectedDate("");
-      setSelectedTime("");
-      setSymptoms("");
-      setNotes("");
-      onOpenChange(false);
-      onSuccess?.();
+      setLoading(false);
+      return;
     }
 
+    toast({
+      title: "Appointment Booked!",
+      description: "Your appointment has been scheduled successfully.",
+    });
+
+    // Send confirmation notification
+    await sendAppointmentNotification(appointment, "confirmation");
+
+    // Reset form
+    setSelectedDoctor("");
+    setSelectedDate("");
+    setSelectedTime("");
+    setSymptoms("");
+    setNotes("");
+    onOpenChange(false);
+    onSuccess?.();
+
     setLoading(false);
   };
 
-  // Get minimum date (today)
-  const today = new Date().toISOString().split("T")[0];
-
   const defaultTrigger = (
     <Button variant="hero" className="gap-2">
       <Calendar className="w-4 h-4" />
@@ -227,10 +250,34 @@ export function BookAppointmentDialog({
             </Select>
           </div>
 
+          {/* Appointment Type */}
+          {appointmentTypes.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Timer className="w-4 h-4" />
+                Appointment Type
+              </Label>
+              <Select value={selectedType} onValueChange={setSelectedType}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {appointmentTypes.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>
+                      {type.name} ({type.duration_minutes} min)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Availability Calendar */}
           {selectedDoctor && (
             <DoctorAvailabilityCalendar
+              key={slotsVersion}
               doctorId={selectedDoctor}
+              appointmentTypeId={selectedType || undefined}
               doctorName={doctors.find((d) => d.id === selectedDoctor)?.name}
               selectedDate={selectedDate}
               selectedTime={selectedTime}
@@ -238,6 +285,7 @@ export function BookAppointmentDialog({
                 setSelectedDate(date);
                 setSelectedTime(time);
               }}
+              onJoinWaitlist={patientId ? setWaitlistDate : undefined}
             />
           )}
 
@@ -275,6 +323,17 @@ export function BookAppointmentDialog({
             {loading ? "Booking..." : "Book Appointment"}
           </Button>
         </DialogFooter>
+
+        {selectedDoctor && waitlistDate && (
+          <JoinWaitlistDialog
+            open={!!waitlistDate}
+            onOpenChange={(open) => !open && setWaitlistDate(null)}
+            doctorId={selectedDoctor}
+            doctorName={doctors.find((d) => d.id === selectedDoctor)?.name}
+            date={waitlistDate}
+            notes={symptoms}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+import { fetchCalendarFeedUrl } from "@/lib/calendar";
+
+interface CalendarFeedDialogProps {
+  // What the feed lists, shown in the description
+  description: string;
+}
+
+export function CalendarFeedDialog({ description }: CalendarFeedDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadFeedUrl = useCallback(async (regenerate = false) => {
+    setLoading(true);
+    try {
+      setFeedUrl(await fetchCalendarFeedUrl(regenerate));
+      if (regenerate) {
+        toast({
+          title: "Link Reset",
+          description: "Calendars using the old link will no longer update.",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to load your calendar link",
+        variant: "destructive",
+      });
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    if (open && !feedUrl) {
+      loadFeedUrl();
+    }
+  }, [open, feedUrl, loadFeedUrl]);
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: "Link Copied", description: "Add it to your calendar app as a subscription." });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <CalendarPlus className="w-4 h-4" />
+          Subscribe in Calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarPlus className="w-5 h-5 text-primary" />
+            Calendar Subscription
+          </DialogTitle>
+          <DialogDescription>
+            {description} Changes show up in your calendar app automatically. Keep this link private.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2 py-2">
+          <Input readOnly value={feedUrl ?? ""} placeholder="Loading..." onFocus={(e) => e.target.select()} />
+          <Button variant="outline" size="icon" onClick={handleCopy} disabled={!feedUrl}>
+            <Copy className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <DialogFooter className="sm:justify-between gap-2">
+          <Button
+            variant="ghost"
+            className="gap-2 text-muted-foreground"
+            onClick={() => loadFeedUrl(true)}
+            disabled={loading}
+          >
+            <RefreshCw className="w-4 h-4" />
+            Reset Link
+          </Button>
+          <Button variant="hero" asChild disabled={!feedUrl}>
+            <a href={feedUrl ? feedUrl.replace(/^https?:/, "webcal:") : undefined}>Open in Calendar App</a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
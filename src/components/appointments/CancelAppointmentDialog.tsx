@@ -0,0 +1,168 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { XCircle } from "lucide-react";
+import { cancelAppointment, fetchCancellationCutoffHours } from "@/lib/appointments";
+import { sendAppointmentNotification } from "@/lib/appointmentNotifications";
+import { formatHospitalDate } from "@/lib/hospitalSettings";
+import {
+  CancellationReason,
+  CANCELLATION_REASONS,
+  CANCELLATION_REASON_LABELS,
+} from "@shared/cancellationReasons";
+
+export interface CancellableAppointment {
+  id: string;
+  scheduled_date: string;
+  scheduled_time: string;
+  doctorName?: string;
+  patientName?: string;
+}
+
+type CancelledAppointment = Awaited<ReturnType<typeof cancelAppointment>>;
+
+interface CancelAppointmentDialogProps {
+  appointment: CancellableAppointment | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: (appointment: CancelledAppointment) => void;
+}
+
+export function CancelAppointmentDialog({
+  appointment,
+  open,
+  onOpenChange,
+  onSuccess,
+}: CancelAppointmentDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<CancellationReason | "">("");
+  const [note, setNote] = useState("");
+  const [cutoffHours, setCutoffHours] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setReason("");
+    setNote("");
+    fetchCancellationCutoffHours()
+      .then(setCutoffHours)
+      .catch((error) => {
+        console.error("Error fetching cancellation cutoff:", error);
+        setCutoffHours(null);
+      });
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!appointment || !reason) return;
+
+    setLoading(true);
+
+    let cancelled: CancelledAppointment;
+    try {
+      cancelled = await cancelAppointment(appointment.id, reason, note.trim() || undefined);
+    } catch (error) {
+      toast({
+        title: "Could Not Cancel",
+        description: (error as { message?: string }).message || "Failed to cancel appointment. Please try again.",
+        variant: "destructive",
+      });
+      setLoading(false);
+      return;
+    }
+
+    toast({
+      title: "Appointment Cancelled",
+      description: `${formatHospitalDate(cancelled.scheduled_date)} at ${cancelled.scheduled_time}`,
+    });
+
+    sendAppointmentNotification(cancelled, "cancelled");
+
+    setLoading(false);
+    onOpenChange(false);
+    onSuccess?.(cancelled);
+  };
+
+  const who = [appointment?.patientName, appointment?.doctorName].filter(Boolean).join(" with ");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <XCircle className="w-5 h-5 text-destructive" />
+            Cancel Appointment
+          </DialogTitle>
+          <DialogDescription>
+            {appointment
+              ? `${formatHospitalDate(appointment.scheduled_date, "EEE, MMM d, yyyy")} at ${appointment.scheduled_time}${
+                  who ? ` — ${who}` : ""
+                }`
+              : "Tell us why the appointment is being cancelled"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as CancellationReason)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {CANCELLATION_REASONS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {CANCELLATION_REASON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Details (Optional)</Label>
+            <Textarea
+              placeholder="Anything the patient or the clinic should know"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          {cutoffHours !== null && (
+            <p className="text-xs text-muted-foreground">
+              Patients can cancel online up to {cutoffHours} hours before the appointment. The patient is
+              emailed once it is cancelled.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep Appointment
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={loading || !reason}>
+            {loading ? "Cancelling..." : "Cancel Appointment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,27 @@
+import { QRCodeSVG } from "qrcode.react";
+import { CHECK_IN_CODE_PARAM, CHECK_IN_PATH } from "@/lib/checkIn";
+
+interface CheckInQrCodeProps {
+  code: string;
+  size?: number;
+  className?: string;
+}
+
+// Opens the self-service check-in page on the patient's phone with the
+// lobby's current check-in code
+export function CheckInQrCode({ code, size = 160, className }: CheckInQrCodeProps) {
+  const url = new URL(CHECK_IN_PATH, window.location.origin);
+  url.searchParams.set(CHECK_IN_CODE_PARAM, code);
+
+  return (
+    <div className={className}>
+      <QRCodeSVG
+        value={url.toString()}
+        size={size}
+        marginSize={2}
+        bgColor="#ffffff"
+        fgColor="#000000"
+      />
+    </div>
+  );
+}
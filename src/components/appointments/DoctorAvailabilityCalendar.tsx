@@ -1,100 +1,91 @@
 import { useState, useEffect } from "react";
-import { format, addDays, startOfWeek, isSameDay, isToday, isPast } from "date-fns";
+import { format, addDays, isSameDay, isBefore, isAfter } from "date-fns";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
-import { ChevronLeft, ChevronRight, Clock, Calendar } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { ChevronLeft, ChevronRight, Clock, Calendar, ListPlus } from "lucide-react";
+import {
+  DoctorSlot,
+  fetchDoctorSlots,
+  formatScheduleTime,
+  scheduleTimeToMinutes,
+  scheduleWeekDays,
+  startOfScheduleWeek,
+} from "@/lib/doctorSchedule";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { parseHospitalDate, todayAtHospital } from "@/lib/hospitalSettings";
 
 interface DoctorAvailabilityCalendarProps {
   doctorId: string;
   doctorName?: string;
+  // Slots are laid out by this type's duration; the doctor's default otherwise
+  appointmentTypeId?: string;
+  // An appointment being rescheduled, which shouldn't block its own time
+  ignoreAppointmentId?: string;
   onSlotSelect?: (date: string, time: string) => void;
   selectedDate?: string;
   selectedTime?: string;
-}
-
-const timeSlots = [
-  "09:00 AM",
-  "09:30 AM",
-  "10:00 AM",
-  "10:30 AM",
-  "11:00 AM",
-  "11:30 AM",
-  "12:00 PM",
-  "02:00 PM",
-  "02:30 PM",
-  "03:00 PM",
-  "03:30 PM",
-  "04:00 PM",
-  "04:30 PM",
-  "05:00 PM",
-];
-
-interface BookedSlot {
-  scheduled_date: string;
-  scheduled_time: string;
+  // Offered when the selected day has slots but all of them are taken
+  onJoinWaitlist?: (date: string) => void;
 }
 
 export function DoctorAvailabilityCalendar({
   doctorId,
   doctorName,
+  appointmentTypeId,
+  ignoreAppointmentId,
   onSlotSelect,
   selectedDate,
   selectedTime,
+  onJoinWaitlist,
 }: DoctorAvailabilityCalendarProps) {
-  const [currentWeekStart, setCurrentWeekStart] = useState(() => {
-    const today = new Date();
-    return startOfWeek(today, { weekStartsOn: 1 }); // Monday
-  });
-  const [bookedSlots, setBookedSlots] = useState<BookedSlot[]>([]);
+  useHospitalSettings();
+  // Days are the hospital's, whatever the viewer's device is set to
+  const today = parseHospitalDate(todayAtHospital());
+  const [currentWeekStart, setCurrentWeekStart] = useState(() => startOfScheduleWeek());
+  const [slots, setSlots] = useState<DoctorSlot[]>([]);
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (doctorId) {
-      fetchBookedSlots();
+      fetchSlots();
     }
-  }, [doctorId, currentWeekStart]);
+  }, [doctorId, currentWeekStart, appointmentTypeId, ignoreAppointmentId]);
 
-  const fetchBookedSlots = async () => {
+  const fetchSlots = async () => {
     setLoading(true);
     const startDate = format(currentWeekStart, "yyyy-MM-dd");
-    const endDate = format(addDays(currentWeekStart, 13), "yyyy-MM-dd");
-
-    const { data } = await supabase
-      .from("appointments")
-      .select("scheduled_date, scheduled_time")
-      .eq("doctor_id", doctorId)
-      .gte("scheduled_date", startDate)
-      .lte("scheduled_date", endDate)
-      .in("status", ["pending", "confirmed"]);
-
-    if (data) {
-      setBookedSlots(data);
+    const endDate = format(addDays(currentWeekStart, 6), "yyyy-MM-dd");
+
+    try {
+      setSlots(
+        await fetchDoctorSlots(doctorId, startDate, endDate, { appointmentTypeId, ignoreAppointmentId })
+      );
+    } catch (error) {
+      console.error("Error fetching slots:", error);
+      setSlots([]);
     }
     setLoading(false);
   };
 
-  const isSlotBooked = (date: Date, time: string) => {
+  const getDaySlots = (date: Date) => {
     const dateStr = format(date, "yyyy-MM-dd");
-    return bookedSlots.some(
-      (slot) => slot.scheduled_date === dateStr && slot.scheduled_time === time
-    );
+    return slots.filter((slot) => slot.slot_date === dateStr);
   };
 
-  const getAvailableSlotsCount = (date: Date) => {
-    const dateStr = format(date, "yyyy-MM-dd");
-    const bookedCount = bookedSlots.filter(
-      (slot) => slot.scheduled_date === dateStr
-    ).length;
-    return timeSlots.length - bookedCount;
+  // Slots of a day all last as long as the appointment type being booked
+  const getSlotMinutes = (daySlots: DoctorSlot[]) => {
+    if (daySlots.length === 0) return null;
+    const { starts_at, ends_at } = daySlots[0];
+    return (scheduleTimeToMinutes(ends_at) - scheduleTimeToMinutes(starts_at) + 1440) % 1440;
   };
 
-  const weekDays = Array.from({ length: 7 }, (_, i) =>
-    addDays(currentWeekStart, i)
-  );
+  const getAvailableSlotsCount = (date: Date) =>
+    getDaySlots(date).filter((slot) => slot.available).length;
+
+  const weekDays = scheduleWeekDays(currentWeekStart);
 
   const handlePrevWeek = () => {
     setCurrentWeekStart((prev) => addDays(prev, -7));
@@ -105,7 +96,7 @@ export function DoctorAvailabilityCalendar({
   };
 
   const handleDaySelect = (day: Date) => {
-    if (isPast(day) && !isToday(day)) return;
+    if (isBefore(day, today)) return;
     setSelectedDay(day);
   };
 
@@ -115,7 +106,12 @@ export function DoctorAvailabilityCalendar({
     onSlotSelect?.(dateStr, time);
   };
 
-  const canGoPrev = !isPast(currentWeekStart);
+  const canGoPrev = isAfter(currentWeekStart, today);
+  const selectedDayFull =
+    !!selectedDay &&
+    getDaySlots(selectedDay).length > 0 &&
+    getAvailableSlotsCount(selectedDay) === 0;
+  const slotMinutes = selectedDay ? getSlotMinutes(getDaySlots(selectedDay)) : null;
 
   return (
     <Card className="p-4 bg-gradient-card border-border/50">
@@ -149,7 +145,8 @@ export function DoctorAvailabilityCalendar({
       <div className="grid grid-cols-7 gap-2 mb-4">
         {weekDays.map((day) => {
           const availableSlots = getAvailableSlotsCount(day);
-          const isPastDay = isPast(day) && !isToday(day);
+          const isPastDay = isBefore(day, today);
+          const isToday = isSameDay(day, today);
           const isSelected = selectedDay && isSameDay(day, selectedDay);
           const isSelectedDate = selectedDate === format(day, "yyyy-MM-dd");
 
@@ -163,7 +160,7 @@ export function DoctorAvailabilityCalendar({
                 isPastDay && "opacity-40 cursor-not-allowed",
                 !isPastDay && "hover:border-primary/50 hover:bg-primary/5 cursor-pointer",
                 (isSelected || isSelectedDate) && "border-primary bg-primary/10",
-                isToday(day) && "ring-2 ring-primary/30"
+                isToday && "ring-2 ring-primary/30"
               )}
             >
               <span className="text-xs text-muted-foreground">
@@ -171,7 +168,7 @@ export function DoctorAvailabilityCalendar({
               </span>
               <span className={cn(
                 "text-lg font-semibold",
-                isToday(day) && "text-primary"
+                isToday && "text-primary"
               )}>
                 {format(day, "d")}
               </span>
@@ -195,12 +192,18 @@ export function DoctorAvailabilityCalendar({
           <div className="flex items-center gap-2 mb-3">
             <Clock className="w-4 h-4 text-muted-foreground" />
             <span className="text-sm font-medium">
-              Available slots for {format(selectedDay, "EEEE, MMMM d")}
+              Available {slotMinutes ? `${slotMinutes}-minute ` : ""}slots for{" "}
+              {format(selectedDay, "EEEE, MMMM d")}
             </span>
           </div>
+          {getDaySlots(selectedDay).length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-2">
+              {loading ? "Loading slots..." : "Not available on this day"}
+            </p>
+          )}
           <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
-            {timeSlots.map((time) => {
-              const isBooked = isSlotBooked(selectedDay, time);
+            {getDaySlots(selectedDay).map(({ slot_time: time, starts_at, ends_at, available }) => {
+              const isBooked = !available;
               const isSelectedSlot =
                 selectedDate === format(selectedDay, "yyyy-MM-dd") &&
                 selectedTime === time;
@@ -211,6 +214,7 @@ export function DoctorAvailabilityCalendar({
                   variant={isSelectedSlot ? "default" : "outline"}
                   size="sm"
                   disabled={isBooked}
+                  title={`${formatScheduleTime(starts_at)} - ${formatScheduleTime(ends_at)}`}
                   onClick={() => handleSlotSelect(time)}
                   className={cn(
                     "text-xs",
@@ -223,6 +227,22 @@ export function DoctorAvailabilityCalendar({
               );
             })}
           </div>
+          {selectedDayFull && onJoinWaitlist && (
+            <div className="flex items-center justify-between gap-2 mt-3 p-3 rounded-lg bg-muted/50">
+              <span className="text-sm text-muted-foreground">
+                Fully booked. Join the waitlist to be offered a slot if one frees up.
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1 shrink-0"
+                onClick={() => onJoinWaitlist(format(selectedDay, "yyyy-MM-dd"))}
+              >
+                <ListPlus className="w-4 h-4" />
+                Join Waitlist
+              </Button>
+            </div>
+          )}
           <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
             <div className="flex items-center gap-1">
               <div className="w-3 h-3 rounded border bg-background" />
@@ -234,7 +254,7 @@ export function DoctorAvailabilityCalendar({
             </div>
             <div className="flex items-center gap-1">
               <div className="w-3 h-3 rounded border bg-muted opacity-40" />
-              <span>Booked</span>
+              <span>Unavailable</span>
             </div>
           </div>
         </div>
@@ -0,0 +1,135 @@
+import { useState, useEffect } from "react";
+import { addDays, format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ListPlus } from "lucide-react";
+import { joinWaitlist } from "@/lib/waitlist";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { parseHospitalDate, todayAtHospital } from "@/lib/hospitalSettings";
+
+interface JoinWaitlistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  doctorId: string;
+  doctorName?: string;
+  // First day the patient is waiting for, "yyyy-MM-dd"
+  date: string;
+  notes?: string;
+  onSuccess?: () => void;
+}
+
+export function JoinWaitlistDialog({
+  open,
+  onOpenChange,
+  doctorId,
+  doctorName,
+  date,
+  notes: initialNotes,
+  onSuccess,
+}: JoinWaitlistDialogProps) {
+  const { toast } = useToast();
+  useHospitalSettings();
+  const [from, setFrom] = useState(date);
+  const [to, setTo] = useState(date);
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFrom(date);
+      setTo(format(addDays(parseHospitalDate(date), 6), "yyyy-MM-dd"));
+      setNotes(initialNotes || "");
+    }
+  }, [open, date, initialNotes]);
+
+  const handleSubmit = async () => {
+    setLoading(true);
+
+    try {
+      await joinWaitlist(doctorId, from, to, notes.trim() || undefined);
+      toast({
+        title: "Added to Waitlist",
+        description: "We'll email you if a slot opens up. It will be held for you for a short time.",
+      });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to join the waitlist",
+        variant: "destructive",
+      });
+    }
+
+    setLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListPlus className="w-5 h-5 text-primary" />
+            Join Waitlist
+          </DialogTitle>
+          <DialogDescription>
+            Get offered the first slot that frees up{doctorName ? ` with ${doctorName}` : ""} between these dates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input
+                type="date"
+                value={from}
+                min={todayAtHospital()}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Input
+                type="date"
+                value={to}
+                min={from}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Symptoms (Optional)</Label>
+            <Textarea
+              placeholder="Describe your symptoms..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="hero" onClick={handleSubmit} disabled={loading || !from || !to || to < from}>
+            {loading ? "Joining..." : "Join Waitlist"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
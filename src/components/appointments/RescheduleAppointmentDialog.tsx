@@ -0,0 +1,199 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, History } from "lucide-react";
+import { DoctorAvailabilityCalendar } from "./DoctorAvailabilityCalendar";
+import {
+  AppointmentReschedule,
+  fetchAppointmentReschedules,
+  rescheduleAppointment,
+  SLOT_TAKEN_ERROR,
+} from "@/lib/appointments";
+import { sendAppointmentNotification } from "@/lib/appointmentNotifications";
+import { formatHospitalDate } from "@/lib/hospitalSettings";
+
+export interface ReschedulableAppointment {
+  id: string;
+  scheduled_date: string;
+  scheduled_time: string;
+  doctor_id?: string | null;
+  // Slots are laid out by the duration of the appointment's type
+  appointment_type_id?: string | null;
+  doctorName?: string;
+}
+
+type RescheduledAppointment = Awaited<ReturnType<typeof rescheduleAppointment>>;
+
+interface RescheduleAppointmentDialogProps {
+  appointment: ReschedulableAppointment | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: (appointment: RescheduledAppointment) => void;
+}
+
+const formatSlot = (date: string, time: string) =>
+  `${formatHospitalDate(date, "EEE, MMM d, yyyy")} at ${time}`;
+
+export function RescheduleAppointmentDialog({
+  appointment,
+  open,
+  onOpenChange,
+  onSuccess,
+}: RescheduleAppointmentDialogProps) {
+  const { toast } = useToast();
+  const [selectedDate, setSelectedDate] = useState("");
+  const [selectedTime, setSelectedTime] = useState("");
+  const [reason, setReason] = useState("");
+  const [history, setHistory] = useState<AppointmentReschedule[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Bumped to reload the calendar's slots after a booking conflict
+  const [slotsVersion, setSlotsVersion] = useState(0);
+
+  const appointmentId = appointment?.id;
+
+  useEffect(() => {
+    if (!open || !appointmentId) return;
+
+    setSelectedDate("");
+    setSelectedTime("");
+    setReason("");
+    fetchAppointmentReschedules(appointmentId)
+      .then(setHistory)
+      .catch((error) => {
+        console.error("Error fetching reschedule history:", error);
+        setHistory([]);
+      });
+  }, [open, appointmentId]);
+
+  const handleSubmit = async () => {
+    if (!appointment || !selectedDate || !selectedTime) return;
+
+    setLoading(true);
+
+    let updated: RescheduledAppointment;
+    try {
+      updated = await rescheduleAppointment(
+        appointment.id,
+        selectedDate,
+        selectedTime,
+        reason.trim() || undefined
+      );
+    } catch (error) {
+      const { code, message } = error as { code?: string; message?: string };
+      toast({
+        title: code === SLOT_TAKEN_ERROR ? "Slot No Longer Available" : "Error",
+        description: message || "Failed to reschedule appointment. Please try again.",
+        variant: "destructive",
+      });
+
+      if (code === SLOT_TAKEN_ERROR) {
+        setSelectedTime("");
+        setSlotsVersion((version) => version + 1);
+      }
+
+      setLoading(false);
+      return;
+    }
+
+    toast({
+      title: "Appointment Rescheduled",
+      description: `Moved to ${formatSlot(updated.scheduled_date, updated.scheduled_time)}`,
+    });
+
+    sendAppointmentNotification(updated, "rescheduled", {
+      date: appointment.scheduled_date,
+      time: appointment.scheduled_time,
+    });
+
+    setLoading(false);
+    onOpenChange(false);
+    onSuccess?.(updated);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            Reschedule Appointment
+          </DialogTitle>
+          <DialogDescription>
+            {appointment
+              ? `Currently ${formatSlot(appointment.scheduled_date, appointment.scheduled_time)}${
+                  appointment.doctorName ? ` with ${appointment.doctorName}` : ""
+                }`
+              : "Choose a new time"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {appointment && (
+          <div className="space-y-4 py-2">
+            {history.length > 0 && (
+              <div className="rounded-lg bg-muted/50 p-3 space-y-1">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <History className="w-4 h-4" />
+                  Earlier times
+                </p>
+                {history.map((entry) => (
+                  <p key={entry.id} className="text-sm text-muted-foreground">
+                    <span className="line-through">{formatSlot(entry.from_date, entry.from_time)}</span>
+                    {entry.reason && ` — ${entry.reason}`}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {appointment.doctor_id && (
+              <DoctorAvailabilityCalendar
+                key={slotsVersion}
+                doctorId={appointment.doctor_id}
+                doctorName={appointment.doctorName}
+                appointmentTypeId={appointment.appointment_type_id ?? undefined}
+                ignoreAppointmentId={appointment.id}
+                selectedDate={selectedDate}
+                selectedTime={selectedTime}
+                onSlotSelect={(date, time) => {
+                  setSelectedDate(date);
+                  setSelectedTime(time);
+                }}
+              />
+            )}
+
+            <div className="space-y-2">
+              <Label>Reason (Optional)</Label>
+              <Input
+                placeholder="Why is the appointment moving?"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="hero"
+            onClick={handleSubmit}
+            disabled={loading || !selectedDate || !selectedTime}
+          >
+            {loading ? "Rescheduling..." : "Reschedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,358 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarPlus, CheckCircle2, Repeat, Timer, XCircle } from "lucide-react";
+import { DoctorAvailabilityCalendar } from "./DoctorAvailabilityCalendar";
+import {
+  scheduleAppointmentSeries,
+  seriesDates,
+  SLOT_TAKEN_ERROR,
+} from "@/lib/appointments";
+import { sendAppointmentNotification } from "@/lib/appointmentNotifications";
+import { AppointmentTypeRow, fetchAppointmentTypes, fetchDoctorSlots } from "@/lib/doctorSchedule";
+import { formatHospitalDate } from "@/lib/hospitalSettings";
+
+export interface FollowUpSourceAppointment {
+  id: string;
+  doctor_id?: string | null;
+  patientName?: string;
+}
+
+type ScheduledAppointment = Awaited<ReturnType<typeof scheduleAppointmentSeries>>[number];
+
+interface ScheduleFollowUpDialogProps {
+  appointment: FollowUpSourceAppointment | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: (appointments: ScheduledAppointment[]) => void;
+}
+
+type FollowUpMode = "single" | "series";
+
+interface VisitCheck {
+  date: string;
+  available: boolean;
+}
+
+const INTERVAL_WEEKS = [1, 2, 3, 4, 6, 8, 12];
+const MAX_OCCURRENCES = 26;
+
+const formatSlot = (date: string, time: string) =>
+  `${formatHospitalDate(date, "EEE, MMM d, yyyy")} at ${time}`;
+
+export function ScheduleFollowUpDialog({
+  appointment,
+  open,
+  onOpenChange,
+  onSuccess,
+}: ScheduleFollowUpDialogProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<FollowUpMode>("single");
+  const [appointmentTypes, setAppointmentTypes] = useState<AppointmentTypeRow[]>([]);
+  const [selectedType, setSelectedType] = useState("");
+  const [selectedDate, setSelectedDate] = useState("");
+  const [selectedTime, setSelectedTime] = useState("");
+  const [intervalWeeks, setIntervalWeeks] = useState("4");
+  const [occurrences, setOccurrences] = useState("3");
+  const [notes, setNotes] = useState("");
+  const [checks, setChecks] = useState<VisitCheck[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [loading, setLoading] = useState(false);
+  // Bumped to reload the calendar's slots after a booking conflict
+  const [slotsVersion, setSlotsVersion] = useState(0);
+
+  const appointmentId = appointment?.id;
+  const doctorId = appointment?.doctor_id;
+  const interval = parseInt(intervalWeeks);
+  const count = mode === "series" ? parseInt(occurrences) || 0 : 1;
+  const validCount = mode === "single" || (count >= 2 && count <= MAX_OCCURRENCES);
+
+  // Follow-ups default to the doctor's follow-up type
+  useEffect(() => {
+    if (!open || !appointmentId || !doctorId) return;
+
+    setMode("single");
+    setNotes("");
+    setAppointmentTypes([]);
+    setSelectedType("");
+    fetchAppointmentTypes(doctorId, true)
+      .then((types) => {
+        setAppointmentTypes(types);
+        setSelectedType((types.find((type) => type.kind === "follow-up") ?? types[0])?.id ?? "");
+      })
+      .catch((error) => console.error("Error fetching appointment types:", error));
+  }, [open, appointmentId, doctorId]);
+
+  // Slots depend on the type's duration
+  useEffect(() => {
+    setSelectedDate("");
+    setSelectedTime("");
+  }, [selectedType]);
+
+  // Later visits of a series fall on the same weekday and time; each is looked
+  // up so conflicts show before anything is booked
+  useEffect(() => {
+    setChecks([]);
+    setChecking(false);
+    if (!doctorId || !selectedDate || !selectedTime || count < 2 || count > MAX_OCCURRENCES) {
+      return;
+    }
+
+    let cancelled = false;
+    const dates = seriesDates(selectedDate, interval, count);
+    setChecking(true);
+
+    Promise.all(
+      dates.map(async (date) => {
+        const slots = await fetchDoctorSlots(doctorId, date, date, {
+          appointmentTypeId: selectedType || undefined,
+        });
+        return {
+          date,
+          available: slots.some((slot) => slot.slot_time === selectedTime && slot.available),
+        };
+      })
+    )
+      .then((results) => {
+        if (!cancelled) setChecks(results);
+      })
+      .catch((error) => console.error("Error checking series availability:", error))
+      .finally(() => {
+        if (!cancelled) setChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [doctorId, selectedType, selectedDate, selectedTime, interval, count]);
+
+  const conflicts = checks.filter((check) => !check.available).length;
+
+  const handleSubmit = async () => {
+    if (!appointment || !selectedDate || !selectedTime) return;
+
+    setLoading(true);
+
+    let scheduled: ScheduledAppointment[];
+    try {
+      scheduled = await scheduleAppointmentSeries({
+        appointmentId: appointment.id,
+        firstDate: selectedDate,
+        time: selectedTime,
+        intervalWeeks: mode === "series" ? interval : undefined,
+        occurrences: count,
+        appointmentTypeId: selectedType || undefined,
+        notes: notes.trim() || undefined,
+      });
+    } catch (error) {
+      const { code, message } = error as { code?: string; message?: string };
+      toast({
+        title: code === SLOT_TAKEN_ERROR ? "Slot No Longer Available" : "Error",
+        description: message || "Failed to schedule the follow-up. Please try again.",
+        variant: "destructive",
+      });
+
+      if (code === SLOT_TAKEN_ERROR) {
+        setSelectedTime("");
+        setSlotsVersion((version) => version + 1);
+      }
+
+      setLoading(false);
+      return;
+    }
+
+    toast({
+      title: mode === "series" ? "Series Scheduled" : "Follow-up Scheduled",
+      description:
+        mode === "series"
+          ? `${scheduled.length} visits every ${interval} week${interval === 1 ? "" : "s"} from ${formatSlot(selectedDate, selectedTime)}`
+          : `Booked for ${formatSlot(selectedDate, selectedTime)}`,
+    });
+
+    // The patient hears about the first visit now; reminders cover the rest
+    if (scheduled[0]) {
+      sendAppointmentNotification(scheduled[0], "confirmation");
+    }
+
+    setLoading(false);
+    onOpenChange(false);
+    onSuccess?.(scheduled);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarPlus className="w-5 h-5 text-primary" />
+            Schedule Follow-up
+          </DialogTitle>
+          <DialogDescription>
+            {appointment?.patientName
+              ? `Book the next visits for ${appointment.patientName}`
+              : "Book the patient's next visits"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {appointment && (
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Repeat className="w-4 h-4" />
+                  Schedule
+                </Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as FollowUpMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="single">Single follow-up</SelectItem>
+                    <SelectItem value="series">Recurring series</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {appointmentTypes.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Timer className="w-4 h-4" />
+                    Appointment Type
+                  </Label>
+                  <Select value={selectedType} onValueChange={setSelectedType}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {appointmentTypes.map((type) => (
+                        <SelectItem key={type.id} value={type.id}>
+                          {type.name} ({type.duration_minutes} min)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {mode === "series" && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Every</Label>
+                  <Select value={intervalWeeks} onValueChange={setIntervalWeeks}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INTERVAL_WEEKS.map((weeks) => (
+                        <SelectItem key={weeks} value={String(weeks)}>
+                          {weeks} week{weeks === 1 ? "" : "s"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Number of visits</Label>
+                  <Input
+                    type="number"
+                    min={2}
+                    max={MAX_OCCURRENCES}
+                    value={occurrences}
+                    onChange={(e) => setOccurrences(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            {doctorId && (
+              <DoctorAvailabilityCalendar
+                key={slotsVersion}
+                doctorId={doctorId}
+                appointmentTypeId={selectedType || undefined}
+                selectedDate={selectedDate}
+                selectedTime={selectedTime}
+                onSlotSelect={(date, time) => {
+                  setSelectedDate(date);
+                  setSelectedTime(time);
+                }}
+              />
+            )}
+
+            {mode === "series" && selectedDate && selectedTime && (
+              <div className="rounded-lg bg-muted/50 p-3 space-y-1">
+                <p className="text-sm font-medium">
+                  {checking ? "Checking availability..." : `${count} visits at ${selectedTime}`}
+                </p>
+                {!checking &&
+                  checks.map((check, index) => (
+                    <p
+                      key={check.date}
+                      className={`text-sm flex items-center gap-2 ${
+                        check.available ? "text-muted-foreground" : "text-destructive"
+                      }`}
+                    >
+                      {check.available ? (
+                        <CheckCircle2 className="w-4 h-4" />
+                      ) : (
+                        <XCircle className="w-4 h-4" />
+                      )}
+                      Visit {index + 1}: {formatHospitalDate(check.date, "EEE, MMM d, yyyy")}
+                      {!check.available && " — not available"}
+                    </p>
+                  ))}
+              </div>
+            )}
+
+            {!validCount && (
+              <p className="text-sm text-destructive">
+                A series has between 2 and {MAX_OCCURRENCES} visits
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label>Notes (Optional)</Label>
+              <Input
+                placeholder="e.g. Review blood pressure log"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="hero"
+            onClick={handleSubmit}
+            disabled={
+              loading || !selectedDate || !selectedTime || !validCount || checking || conflicts > 0
+            }
+          >
+            {loading ? "Scheduling..." : mode === "series" ? `Book ${count} Visits` : "Book Follow-up"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
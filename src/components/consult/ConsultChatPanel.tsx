@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, Loader2, MessageSquare, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { fetchConsultMessages, fetchSharedRecordUrl, sendConsultMessage } from "@/lib/consult";
+import { formatHospitalTime } from "@/lib/hospitalSettings";
+
+interface ConsultChatPanelProps {
+  appointmentId: string;
+  userId: string;
+  // Display names by user id
+  names: Record<string, string>;
+  // Posting is only allowed while the room is open
+  canPost: boolean;
+}
+
+export function ConsultChatPanel({ appointmentId, userId, names, canPost }: ConsultChatPanelProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Kept fresh by the room's Realtime channel
+  const { data: messages = [], isLoading } = useQuery({
+    queryKey: ["consult-messages", appointmentId],
+    queryFn: () => fetchConsultMessages(appointmentId),
+  });
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length]);
+
+  const sendMutation = useMutation({
+    mutationFn: (body: string) => sendConsultMessage(appointmentId, body),
+    onSuccess: () => setDraft(""),
+    onError: (error) => {
+      toast({
+        title: "Message Not Sent",
+        description: (error as { message?: string }).message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const send = () => {
+    const body = draft.trim();
+    if (body && !sendMutation.isPending) {
+      sendMutation.mutate(body);
+    }
+  };
+
+  const openRecord = async (fileUrl: string) => {
+    try {
+      window.open(await fetchSharedRecordUrl(fileUrl), "_blank");
+    } catch (error) {
+      console.error("Error opening shared record:", error);
+      toast({
+        title: "Error",
+        description: "Could not open the file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <MessageSquare className="w-5 h-5 text-primary" />
+          Chat
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 flex-1">
+        <ScrollArea className="h-80 pr-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No messages yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {messages.map((message) => {
+                const mine = message.sender_id === userId;
+                return (
+                  <div key={message.id} className={cn("flex flex-col", mine ? "items-end" : "items-start")}>
+                    <span className="text-xs text-muted-foreground mb-1">
+                      {mine ? "You" : names[message.sender_id ?? ""] || "Unknown"} ·{" "}
+                      {formatHospitalTime(message.created_at)}
+                    </span>
+                    <div
+                      className={cn(
+                        "rounded-2xl px-4 py-2 max-w-[85%] text-sm",
+                        mine
+                          ? "bg-primary text-primary-foreground rounded-br-sm"
+                          : "bg-muted text-foreground rounded-bl-sm"
+                      )}
+                    >
+                      {message.medical_records && (
+                        <button
+                          type="button"
+                          onClick={() => openRecord(message.medical_records.file_url)}
+                          className="flex items-center gap-2 underline underline-offset-2"
+                        >
+                          <FileText className="w-4 h-4 shrink-0" />
+                          {message.medical_records.title}
+                        </button>
+                      )}
+                      {message.body && <p className="whitespace-pre-wrap">{message.body}</p>}
+                    </div>
+                  </div>
+                );
+              })}
+              <div ref={bottomRef} />
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="flex gap-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                send();
+              }
+            }}
+            placeholder={canPost ? "Type a message" : "The consult room is closed"}
+            disabled={!canPost}
+            maxLength={4000}
+            className="min-h-[44px] resize-none"
+            rows={1}
+          />
+          <Button
+            size="icon"
+            onClick={send}
+            disabled={!canPost || !draft.trim() || sendMutation.isPending}
+            title="Send"
+          >
+            {sendMutation.isPending ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
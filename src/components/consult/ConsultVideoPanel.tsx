@@ -0,0 +1,117 @@
+import { useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Mic, MicOff, PhoneOff, Video, VideoOff } from "lucide-react";
+import { useConsultCall } from "@/hooks/useConsultCall";
+import type { ConsultSignal } from "@/hooks/useConsultRoom";
+
+interface ConsultVideoPanelProps {
+  isCaller: boolean;
+  peerName: string;
+  peerPresent: boolean;
+  // Joining is only offered while the room is open
+  canJoin: boolean;
+  sendSignal: (signal: ConsultSignal) => void;
+  onSignal: (listener: (signal: ConsultSignal) => void) => () => void;
+}
+
+function StreamVideo({ stream, muted, className }: { stream: MediaStream; muted?: boolean; className?: string }) {
+  const ref = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (ref.current) {
+      ref.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return <video ref={ref} autoPlay playsInline muted={muted} className={className} />;
+}
+
+const STATUS_LABELS = {
+  idle: "Not joined",
+  waiting: "Waiting",
+  connecting: "Connecting",
+  connected: "Live",
+};
+
+export function ConsultVideoPanel({
+  isCaller,
+  peerName,
+  peerPresent,
+  canJoin,
+  sendSignal,
+  onSignal,
+}: ConsultVideoPanelProps) {
+  const call = useConsultCall({ isCaller, peerPresent, sendSignal, onSignal });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Video className="w-5 h-5 text-primary" />
+          Video
+        </CardTitle>
+        <Badge variant={call.status === "connected" ? "default" : "outline"}>
+          {STATUS_LABELS[call.status]}
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative aspect-video rounded-lg bg-muted overflow-hidden">
+          {call.remoteStream ? (
+            <StreamVideo stream={call.remoteStream} className="w-full h-full object-cover" />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground text-center px-4">
+              {call.status === "idle"
+                ? peerPresent
+                  ? `${peerName} is in the room`
+                  : `Waiting for ${peerName} to join the room`
+                : call.status === "connecting"
+                ? "Connecting..."
+                : `Waiting for ${peerName} to turn on their camera`}
+            </div>
+          )}
+          {call.localStream && (
+            <StreamVideo
+              stream={call.localStream}
+              muted
+              className="absolute bottom-3 right-3 w-1/4 rounded-md border border-border object-cover bg-background"
+            />
+          )}
+        </div>
+
+        {call.error && <p className="text-sm text-destructive">{call.error}</p>}
+
+        {call.localStream ? (
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={call.toggleMic}
+              title={call.micOn ? "Mute" : "Unmute"}
+            >
+              {call.micOn ? <Mic className="w-4 h-4" /> : <MicOff className="w-4 h-4" />}
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={call.toggleCamera}
+              title={call.cameraOn ? "Turn Camera Off" : "Turn Camera On"}
+            >
+              {call.cameraOn ? <Video className="w-4 h-4" /> : <VideoOff className="w-4 h-4" />}
+            </Button>
+            <Button variant="destructive" onClick={call.leave}>
+              <PhoneOff className="w-4 h-4 mr-2" />
+              Leave Video
+            </Button>
+          </div>
+        ) : (
+          <Button className="w-full" onClick={call.join} disabled={!canJoin}>
+            <Video className="w-4 h-4 mr-2" />
+            Join Video
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
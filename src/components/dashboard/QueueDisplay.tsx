@@ -1,8 +1,9 @@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Clock, User, Wifi, WifiOff } from "lucide-react";
+import { Clock, DoorOpen, User, Wifi, WifiOff } from "lucide-react";
 import { useRealtimeQueue } from "@/hooks/useRealtimeQueue";
 import { Skeleton } from "@/components/ui/skeleton";
+import { getQueuePriority } from "@/lib/queuePriority";
 
 const statusStyles: Record<string, string> = {
   waiting: "bg-muted text-muted-foreground",
@@ -81,11 +82,26 @@ export function QueueDisplay() {
               </div>
 
               <div className="flex items-center gap-3">
+                {item.priority !== "routine" && (
+                  <Badge
+                    variant="outline"
+                    className={getQueuePriority(item.priority).className}
+                  >
+                    {getQueuePriority(item.priority).label}
+                  </Badge>
+                )}
                 <div className="text-right">
-                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                    <Clock className="w-3.5 h-3.5" />
-                    ~{item.estimated_wait_minutes} min
-                  </div>
+                  {item.status === "in-progress" && item.rooms ? (
+                    <div className="flex items-center gap-1 text-sm font-medium text-success">
+                      <DoorOpen className="w-3.5 h-3.5" />
+                      {item.rooms.name}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <Clock className="w-3.5 h-3.5" />
+                      ~{item.estimated_wait_minutes} min
+                    </div>
+                  )}
                 </div>
                 <Badge
                   variant="outline"
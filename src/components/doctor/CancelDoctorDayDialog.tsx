@@ -0,0 +1,231 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarX, Loader2 } from "lucide-react";
+import { cancelDoctorDay } from "@/lib/appointments";
+import { formatHospitalDate, todayAtHospital } from "@/lib/hospitalSettings";
+import {
+  CancellationReason,
+  CANCELLATION_REASONS,
+  CANCELLATION_REASON_LABELS,
+} from "@shared/cancellationReasons";
+import { ACTIVE_APPOINTMENT_STATUSES } from "@shared/appointmentStatus";
+
+interface CancelDoctorDayDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  doctorId: string;
+  onCancelled?: () => void;
+}
+
+export function CancelDoctorDayDialog({
+  open,
+  onOpenChange,
+  doctorId,
+  onCancelled,
+}: CancelDoctorDayDialogProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState(todayAtHospital());
+  const [reason, setReason] = useState<CancellationReason>("doctor_unavailable");
+  const [note, setNote] = useState("");
+  // Appointments whose patients are not to be offered a new time
+  const [noRebook, setNoRebook] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (open) {
+      setDate(todayAtHospital());
+      setReason("doctor_unavailable");
+      setNote("");
+      setNoRebook(new Set());
+    }
+  }, [open]);
+
+  const { data: appointments = [], isLoading } = useQuery({
+    queryKey: ["doctor-day-appointments", doctorId, date],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("appointments")
+        .select("id, scheduled_time, patients (first_name, last_name)")
+        .eq("doctor_id", doctorId)
+        .eq("scheduled_date", date)
+        .in("status", [...ACTIVE_APPOINTMENT_STATUSES])
+        .order("starts_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!date,
+  });
+
+  const toggleRebook = (appointmentId: string, rebook: boolean) => {
+    setNoRebook((current) => {
+      const next = new Set(current);
+      if (rebook) {
+        next.delete(appointmentId);
+      } else {
+        next.add(appointmentId);
+      }
+      return next;
+    });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: () =>
+      cancelDoctorDay(
+        doctorId,
+        date,
+        reason,
+        note.trim() || undefined,
+        appointments.filter((apt) => !noRebook.has(apt.id)).map((apt) => apt.id)
+      ),
+    onSuccess: (cancelled) => {
+      const rebooked = cancelled.filter((apt) => !noRebook.has(apt.id)).length;
+      toast({
+        title: "Day Cancelled",
+        description:
+          cancelled.length === 0
+            ? `${formatHospitalDate(date)} is marked as leave`
+            : `${cancelled.length} appointment(s) cancelled and patients notified` +
+              (rebooked > 0 ? `; ${rebooked} will be offered a new time` : ""),
+      });
+      onOpenChange(false);
+      onCancelled?.();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Cancel the Day",
+        description: (error as { message?: string }).message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarX className="w-5 h-5 text-destructive" />
+            Cancel My Day
+          </DialogTitle>
+          <DialogDescription>
+            The day is marked as leave so nothing new can be booked, and every patient booked on it is
+            emailed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cancel-day-date">Date</Label>
+            <Input
+              id="cancel-day-date"
+              type="date"
+              min={todayAtHospital()}
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as CancellationReason)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CANCELLATION_REASONS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {CANCELLATION_REASON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cancel-day-note">Message to patients (Optional)</Label>
+            <Textarea
+              id="cancel-day-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g., Called away for an emergency surgery"
+              className="min-h-[70px]"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Appointments</Label>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : appointments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No active appointments on this day.</p>
+            ) : (
+              <div className="rounded-lg border border-border divide-y divide-border max-h-48 overflow-y-auto">
+                {appointments.map((apt) => (
+                  <label
+                    key={apt.id}
+                    className="flex items-center justify-between gap-3 p-2 text-sm cursor-pointer"
+                  >
+                    <span>
+                      <span className="font-medium">{apt.scheduled_time}</span>{" "}
+                      {apt.patients?.first_name} {apt.patients?.last_name}
+                    </span>
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      Offer a new time
+                      <Checkbox
+                        checked={!noRebook.has(apt.id)}
+                        onCheckedChange={(checked) => toggleRebook(apt.id, checked === true)}
+                      />
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep My Day
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => cancelMutation.mutate()}
+            disabled={cancelMutation.isPending || isLoading || !date}
+          >
+            {cancelMutation.isPending ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Cancelling...
+              </>
+            ) : appointments.length > 0 ? (
+              `Cancel ${appointments.length} Appointment${appointments.length === 1 ? "" : "s"}`
+            ) : (
+              "Take the Day Off"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,6 +15,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -73,6 +74,9 @@ interface CreatePrescriptionDialogProps {
   doctorId: string;
   appointment?: Appointment | null;
   patientId?: string;
+  // Offered for prescriptions written at a visit; called once the
+  // prescription is saved
+  onScheduleFollowUp?: (appointment: Appointment) => void;
 }
 
 const frequencyOptions = [
@@ -108,6 +112,7 @@ export function CreatePrescriptionDialog({
   doctorId,
   appointment,
   patientId,
+  onScheduleFollowUp,
 }: CreatePrescriptionDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -116,6 +121,7 @@ export function CreatePrescriptionDialog({
   const [searchQuery, setSearchQuery] = useState("");
   const [items, setItems] = useState<PrescriptionItem[]>([]);
   const [selectedPatientId, setSelectedPatientId] = useState(patientId || "");
+  const [followUp, setFollowUp] = useState(false);
 
   // Fetch medicines
   const { data: medicines = [] } = useQuery({
@@ -271,6 +277,9 @@ export function CreatePrescriptionDialog({
       });
       queryClient.invalidateQueries({ queryKey: ["prescriptions"] });
       onOpenChange(false);
+      if (followUp && appointment) {
+        onScheduleFollowUp?.(appointment);
+      }
       resetForm();
     },
     onError: (error) => {
@@ -288,6 +297,7 @@ export function CreatePrescriptionDialog({
     setItems([]);
     setSearchQuery("");
     setSelectedPatientId("");
+    setFollowUp(false);
   };
 
   const effectivePatient = appointment?.patients || patients.find((p) => p.id === selectedPatientId);
@@ -517,6 +527,19 @@ export function CreatePrescriptionDialog({
                 className="min-h-[80px]"
               />
             </div>
+
+            {/* Follow-up */}
+            {appointment && onScheduleFollowUp && (
+              <div className="flex items-center justify-between p-3 rounded-lg border">
+                <div>
+                  <Label htmlFor="follow-up">Schedule a follow-up</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Book the next visit or a recurring series once this is saved
+                  </p>
+                </div>
+                <Switch id="follow-up" checked={followUp} onCheckedChange={setFollowUp} />
+              </div>
+            )}
           </div>
         </ScrollArea>
 
@@ -0,0 +1,433 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, addDays, isSameDay, getDay } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { cn } from "@/lib/utils";
+import { CalendarDays, ChevronLeft, ChevronRight, Video } from "lucide-react";
+import {
+  DoctorCalendarAppointment,
+  DoctorSlot,
+  fetchDoctorCalendar,
+  fetchDoctorSlots,
+  formatScheduleTime,
+  scheduleTimeToMinutes,
+  scheduleWeekDays,
+  startOfScheduleWeek,
+} from "@/lib/doctorSchedule";
+import { rescheduleAppointment, SLOT_TAKEN_ERROR } from "@/lib/appointments";
+import { sendAppointmentNotification } from "@/lib/appointmentNotifications";
+import { formatHospitalDate, parseHospitalDate, todayAtHospital } from "@/lib/hospitalSettings";
+import { TELECONSULT_KIND } from "@/lib/consult";
+import { appointmentStatusLabel, isActiveAppointmentStatus } from "@shared/appointmentStatus";
+
+type CalendarView = "week" | "day";
+
+interface PendingMove {
+  appointment: DoctorCalendarAppointment;
+  slot: DoctorSlot;
+}
+
+interface TimeBlock {
+  start: number;
+  end: number;
+}
+
+interface DoctorCalendarProps {
+  doctorId: string;
+  // Called after an appointment is moved, so today's list can catch up
+  onRescheduled?: () => void;
+}
+
+const HOUR_HEIGHT = 48;
+// Shown when the doctor has no hours in the visible days
+const DEFAULT_DAY: TimeBlock = { start: 8 * 60, end: 18 * 60 };
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-warning/15 border-warning/40",
+  confirmed: "bg-primary/15 border-primary/40",
+  completed: "bg-success/15 border-success/40",
+  "no-show": "bg-destructive/10 border-destructive/30",
+};
+
+const dateKey = (day: Date) => format(day, "yyyy-MM-dd");
+
+const formatSlot = (date: string, time: string) =>
+  `${formatHospitalDate(date, "EEE, MMM d")} at ${time}`;
+
+// Where an appointment sits on the hospital's clock, in minutes since midnight
+const appointmentBlock = (apt: DoctorCalendarAppointment): TimeBlock => {
+  const start = scheduleTimeToMinutes(formatHospitalDate(apt.starts_at, "HH:mm"));
+  const minutes = (new Date(apt.ends_at).getTime() - new Date(apt.starts_at).getTime()) / 60000;
+  return { start, end: start + Math.max(minutes, 15) };
+};
+
+const timeBlock = ({ start_time, end_time }: { start_time: string; end_time: string }): TimeBlock => ({
+  start: scheduleTimeToMinutes(start_time),
+  end: scheduleTimeToMinutes(end_time),
+});
+
+// A doctor's week or day: appointments laid over their working hours, with
+// breaks and leave blocked out. Upcoming appointments can be dragged onto a
+// free slot to reschedule them.
+export function DoctorCalendar({ doctorId, onRescheduled }: DoctorCalendarProps) {
+  useHospitalSettings();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const today = parseHospitalDate(todayAtHospital());
+
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(today);
+  const [dragging, setDragging] = useState<DoctorCalendarAppointment | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+
+  const days = view === "week" ? scheduleWeekDays(startOfScheduleWeek(anchor)) : [anchor];
+  const from = dateKey(days[0]);
+  const to = dateKey(days[days.length - 1]);
+
+  const { data: calendar, isLoading } = useQuery({
+    // Under the schedule's key, so editing hours, breaks or leave refreshes it
+    queryKey: ["doctor-schedule", doctorId, "calendar", from, to],
+    queryFn: () => fetchDoctorCalendar(doctorId, from, to),
+  });
+
+  // Free slots for the appointment being dragged, laid out by its duration
+  const { data: slots = [] } = useQuery({
+    queryKey: ["doctor-slots", doctorId, from, to, dragging?.id],
+    queryFn: () =>
+      fetchDoctorSlots(doctorId, from, to, {
+        appointmentTypeId: dragging?.appointment_type_id ?? undefined,
+        ignoreAppointmentId: dragging?.id,
+      }),
+    enabled: !!dragging,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["doctor-schedule", doctorId, "calendar"] });
+    queryClient.invalidateQueries({ queryKey: ["doctor-slots", doctorId] });
+  };
+
+  const moveMutation = useMutation({
+    mutationFn: ({ appointment, slot }: PendingMove) =>
+      rescheduleAppointment(appointment.id, slot.slot_date, slot.slot_time),
+    onSuccess: (updated, { appointment }) => {
+      toast({
+        title: "Appointment Rescheduled",
+        description: `Moved to ${formatSlot(updated.scheduled_date, updated.scheduled_time)}`,
+      });
+      sendAppointmentNotification(updated, "rescheduled", {
+        date: appointment.scheduled_date,
+        time: appointment.scheduled_time,
+      });
+      setPendingMove(null);
+      refresh();
+      onRescheduled?.();
+    },
+    onError: (error) => {
+      const { code, message } = error as { code?: string; message?: string };
+      toast({
+        title: code === SLOT_TAKEN_ERROR ? "Slot No Longer Available" : "Error",
+        description: message || "Failed to reschedule appointment. Please try again.",
+        variant: "destructive",
+      });
+      setPendingMove(null);
+      refresh();
+    },
+  });
+
+  const workingHours = (day: Date): TimeBlock[] => {
+    if (!calendar) return [];
+    const overrides = calendar.overrides.filter((o) => o.override_date === dateKey(day));
+    const hours = overrides.length
+      ? overrides
+      : calendar.hours.filter((h) => h.weekday === getDay(day));
+    return hours.map(timeBlock);
+  };
+
+  const dayLeave = (day: Date) =>
+    calendar?.leave.find((l) => l.start_date <= dateKey(day) && l.end_date >= dateKey(day));
+
+  const dayBreaks = (day: Date) =>
+    (calendar?.breaks ?? []).filter((b) => b.weekday === null || b.weekday === getDay(day));
+
+  const dayAppointments = (day: Date) =>
+    (calendar?.appointments ?? []).filter((apt) => apt.scheduled_date === dateKey(day));
+
+  const daySlots = (day: Date) =>
+    slots.filter((slot) => slot.available && slot.slot_date === dateKey(day));
+
+  // The grid spans the working hours of the visible days, widened to whole
+  // hours and to any appointment booked outside them
+  const visibleBlocks = days.flatMap((day) => [
+    ...workingHours(day),
+    ...dayAppointments(day).map(appointmentBlock),
+  ]);
+  const gridStart = visibleBlocks.length
+    ? Math.floor(Math.min(...visibleBlocks.map((b) => b.start)) / 60) * 60
+    : DEFAULT_DAY.start;
+  const gridEnd = visibleBlocks.length
+    ? Math.ceil(Math.max(...visibleBlocks.map((b) => b.end)) / 60) * 60
+    : DEFAULT_DAY.end;
+  const hours = Array.from({ length: (gridEnd - gridStart) / 60 }, (_, i) => gridStart + i * 60);
+
+  const position = ({ start, end }: TimeBlock) => ({
+    top: ((Math.max(start, gridStart) - gridStart) / 60) * HOUR_HEIGHT,
+    height: Math.max(((Math.min(end, gridEnd) - Math.max(start, gridStart)) / 60) * HOUR_HEIGHT, 0),
+  });
+
+  const canMove = (apt: DoctorCalendarAppointment) =>
+    isActiveAppointmentStatus(apt.status) && new Date(apt.starts_at) > new Date();
+
+  const step = view === "week" ? 7 : 1;
+
+  const showDay = (day: Date) => {
+    setAnchor(day);
+    setView("day");
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-card border-border/50">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold">My Calendar</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="day">Day</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button variant="outline" size="sm" onClick={() => setAnchor(today)}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setAnchor((prev) => addDays(prev, -step))}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm font-medium min-w-[160px] text-center">
+            {view === "week"
+              ? `${format(days[0], "MMM d")} - ${format(days[6], "MMM d, yyyy")}`
+              : format(anchor, "EEEE, MMM d, yyyy")}
+          </span>
+          <Button variant="outline" size="icon" onClick={() => setAnchor((prev) => addDays(prev, step))}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !calendar ? (
+        <p className="text-sm text-muted-foreground text-center py-8">Loading calendar...</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className={cn(view === "week" && "min-w-[760px]")}>
+            {/* Day headers */}
+            <div className="flex border-b border-border/50">
+              <div className="w-14 shrink-0" />
+              {days.map((day) => (
+                <button
+                  key={dateKey(day)}
+                  onClick={() => showDay(day)}
+                  disabled={view === "day"}
+                  className={cn(
+                    "flex-1 py-2 text-center rounded-t-lg",
+                    view === "week" && "hover:bg-primary/5",
+                    isSameDay(day, today) && "text-primary"
+                  )}
+                >
+                  <span className="block text-xs text-muted-foreground">{format(day, "EEE")}</span>
+                  <span className="block text-lg font-semibold">{format(day, "d")}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex max-h-[640px] overflow-y-auto">
+              {/* Hour gutter */}
+              <div className="w-14 shrink-0 relative" style={{ height: hours.length * HOUR_HEIGHT }}>
+                {hours.map((minutes, i) => (
+                  <span
+                    key={minutes}
+                    className="absolute right-2 -translate-y-1/2 text-xs text-muted-foreground"
+                    style={{ top: i * HOUR_HEIGHT }}
+                  >
+                    {i > 0 && `${String(minutes / 60).padStart(2, "0")}:00`}
+                  </span>
+                ))}
+              </div>
+
+              {days.map((day) => {
+                const leave = dayLeave(day);
+
+                return (
+                  <div
+                    key={dateKey(day)}
+                    className="flex-1 relative border-l border-border/50 bg-muted/40"
+                    style={{ height: hours.length * HOUR_HEIGHT }}
+                  >
+                    {/* Working hours, the rest of the day stays shaded */}
+                    {!leave &&
+                      workingHours(day).map((block) => (
+                        <div
+                          key={`${block.start}-${block.end}`}
+                          className="absolute inset-x-0 bg-background"
+                          style={position(block)}
+                        />
+                      ))}
+
+                    {hours.map((minutes, i) => (
+                      <div
+                        key={minutes}
+                        className="absolute inset-x-0 border-t border-border/40"
+                        style={{ top: i * HOUR_HEIGHT }}
+                      />
+                    ))}
+
+                    {!leave &&
+                      dayBreaks(day).map((b) => (
+                        <div
+                          key={b.id}
+                          className="absolute inset-x-0 bg-muted border-y border-border/50 px-1 overflow-hidden"
+                          style={position(timeBlock(b))}
+                        >
+                          <span className="text-[10px] text-muted-foreground">{b.label || "Break"}</span>
+                        </div>
+                      ))}
+
+                    {leave && (
+                      <div className="absolute inset-0 flex items-start justify-center pt-4 bg-destructive/5">
+                        <span className="text-xs font-medium text-destructive text-center px-1">
+                          On leave
+                          {leave.reason && <span className="block font-normal">{leave.reason}</span>}
+                        </span>
+                      </div>
+                    )}
+
+                    {dayAppointments(day).map((apt) => {
+                      const movable = canMove(apt);
+
+                      return (
+                        <div
+                          key={apt.id}
+                          draggable={movable}
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = "move";
+                            e.dataTransfer.setData("text/plain", apt.id);
+                            setDragging(apt);
+                          }}
+                          onDragEnd={() => setDragging(null)}
+                          title={`${apt.scheduled_time} • ${appointmentStatusLabel(apt.status)}${
+                            movable ? " • Drag to reschedule" : ""
+                          }`}
+                          className={cn(
+                            "absolute inset-x-1 rounded-md border px-1.5 py-0.5 overflow-hidden text-xs",
+                            STATUS_STYLES[apt.status] ?? "bg-muted border-border",
+                            movable ? "cursor-grab active:cursor-grabbing" : "opacity-70",
+                            dragging?.id === apt.id && "opacity-40"
+                          )}
+                          style={position(appointmentBlock(apt))}
+                        >
+                          <p className="font-medium truncate flex items-center gap-1">
+                            {apt.appointment_types?.kind === TELECONSULT_KIND && (
+                              <Video className="w-3 h-3 shrink-0" />
+                            )}
+                            {apt.patients?.first_name} {apt.patients?.last_name}
+                          </p>
+                          <p className="truncate text-muted-foreground">
+                            {apt.scheduled_time}
+                            {apt.appointment_types?.name && ` • ${apt.appointment_types.name}`}
+                          </p>
+                        </div>
+                      );
+                    })}
+
+                    {/* Drop targets, shown while an appointment is dragged */}
+                    {dragging &&
+                      daySlots(day).map((slot) => (
+                        <div
+                          key={slot.slot_time}
+                          onDragOver={(e) => {
+                            e.preventDefault();
+                            e.dataTransfer.dropEffect = "move";
+                          }}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            setPendingMove({ appointment: dragging, slot });
+                            setDragging(null);
+                          }}
+                          className="absolute inset-x-1 z-10 rounded-md border border-dashed border-primary/60 bg-primary/5 hover:bg-primary/20 text-[10px] text-primary px-1"
+                          style={position(timeBlock({ start_time: slot.starts_at, end_time: slot.ends_at }))}
+                        >
+                          {formatScheduleTime(slot.starts_at)}
+                        </div>
+                      ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-muted-foreground">
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded border bg-background" />
+          <span>Working hours</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded border bg-muted" />
+          <span>Break or off hours</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded border bg-destructive/10" />
+          <span>Leave</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded border border-dashed border-primary/60 bg-primary/5" />
+          <span>Free slot</span>
+        </div>
+        <span className="ml-auto">Drag an upcoming appointment onto a free slot to reschedule it</span>
+      </div>
+
+      <AlertDialog open={!!pendingMove} onOpenChange={(open) => !open && setPendingMove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reschedule Appointment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingMove &&
+                `Move ${pendingMove.appointment.patients?.first_name ?? "the patient"}'s appointment from ${formatSlot(
+                  pendingMove.appointment.scheduled_date,
+                  pendingMove.appointment.scheduled_time
+                )} to ${formatSlot(pendingMove.slot.slot_date, pendingMove.slot.slot_time)}? The patient will be notified.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={moveMutation.isPending}>Keep Current Time</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={moveMutation.isPending}
+              onClick={(e) => {
+                // Stays open until the move has been saved
+                e.preventDefault();
+                if (pendingMove) moveMutation.mutate(pendingMove);
+              }}
+            >
+              {moveMutation.isPending ? "Moving..." : "Move Appointment"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
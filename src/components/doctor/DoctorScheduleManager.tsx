@@ -0,0 +1,512 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import {
+  WEEKDAYS,
+  fetchDoctorSchedule,
+  formatScheduleTime,
+} from "@/lib/doctorSchedule";
+
+type ScheduleTable =
+  | "doctor_schedules"
+  | "doctor_schedule_breaks"
+  | "doctor_schedule_overrides"
+  | "doctor_leave";
+
+interface DoctorScheduleManagerProps {
+  doctorId: string;
+}
+
+const EVERY_DAY = "all";
+
+export function DoctorScheduleManager({ doctorId }: DoctorScheduleManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [hoursForm, setHoursForm] = useState({ weekday: "1", start: "09:00", end: "17:00", slot: "30" });
+  const [breakForm, setBreakForm] = useState({ weekday: EVERY_DAY, start: "13:00", end: "14:00", label: "" });
+  const [overrideForm, setOverrideForm] = useState({ date: "", start: "09:00", end: "13:00", slot: "30", reason: "" });
+  const [leaveForm, setLeaveForm] = useState({ start: "", end: "", reason: "" });
+
+  const { data: schedule, isLoading } = useQuery({
+    queryKey: ["doctor-schedule", doctorId],
+    queryFn: () => fetchDoctorSchedule(doctorId),
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to update schedule",
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (insert: () => PromiseLike<{ error: Error | null }>) => {
+      const { error } = await insert();
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["doctor-schedule", doctorId] });
+      toast({ title: "Schedule Updated", description: "Your availability has been saved" });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async ({ table, id }: { table: ScheduleTable; id: string }) => {
+      const { error } = await supabase.from(table).delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["doctor-schedule", doctorId] });
+    },
+    onError,
+  });
+
+  const removeButton = (table: ScheduleTable, id: string) => (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={() => removeMutation.mutate({ table, id })}
+      disabled={removeMutation.isPending}
+    >
+      <Trash2 className="w-4 h-4 text-destructive" />
+    </Button>
+  );
+
+  const emptyRow = (text: string) => (
+    <p className="text-sm text-muted-foreground text-center py-4">{text}</p>
+  );
+
+  return (
+    <Card className="p-6 bg-gradient-card border-border/50">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarClock className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-semibold">My Schedule</h2>
+      </div>
+
+      {isLoading || !schedule ? (
+        emptyRow("Loading schedule...")
+      ) : (
+        <Tabs defaultValue="hours">
+          <TabsList className="grid grid-cols-5 w-full">
+            <TabsTrigger value="hours">Weekly Hours</TabsTrigger>
+            <TabsTrigger value="breaks">Breaks</TabsTrigger>
+            <TabsTrigger value="overrides">Date Overrides</TabsTrigger>
+            <TabsTrigger value="leave">Leave</TabsTrigger>
+            <TabsTrigger value="types">Visit Types</TabsTrigger>
+          </TabsList>
+
+          {/* Weekly hours */}
+          <TabsContent value="hours" className="space-y-4">
+            <div className="space-y-2">
+              {schedule.hours.length === 0
+                ? emptyRow("No working hours set, so patients can't book you")
+                : schedule.hours.map((row) => (
+                    <div
+                      key={row.id}
+                      className="flex items-center justify-between p-3 rounded-lg bg-background/50 border border-border/50"
+                    >
+                      <div>
+                        <p className="font-medium">{WEEKDAYS[row.weekday]}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatScheduleTime(row.start_time)} - {formatScheduleTime(row.end_time)} •{" "}
+                          {row.slot_minutes} min slots
+                        </p>
+                      </div>
+                      {removeButton("doctor_schedules", row.id)}
+                    </div>
+                  ))}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end">
+              <div className="space-y-1">
+                <Label>Day</Label>
+                <Select
+                  value={hoursForm.weekday}
+                  onValueChange={(weekday) => setHoursForm({ ...hoursForm, weekday })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>
+                        {day}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>From</Label>
+                <Input
+                  type="time"
+                  value={hoursForm.start}
+                  onChange={(e) => setHoursForm({ ...hoursForm, start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>To</Label>
+                <Input
+                  type="time"
+                  value={hoursForm.end}
+                  onChange={(e) => setHoursForm({ ...hoursForm, end: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Slot (min)</Label>
+                <Input
+                  type="number"
+                  min={5}
+                  step={5}
+                  value={hoursForm.slot}
+                  onChange={(e) => setHoursForm({ ...hoursForm, slot: e.target.value })}
+                />
+              </div>
+              <Button
+                variant="outline"
+                disabled={addMutation.isPending}
+                onClick={() =>
+                  addMutation.mutate(() =>
+                    supabase.from("doctor_schedules").insert({
+                      doctor_id: doctorId,
+                      weekday: parseInt(hoursForm.weekday),
+                      start_time: hoursForm.start,
+                      end_time: hoursForm.end,
+                      slot_minutes: parseInt(hoursForm.slot) || 30,
+                    })
+                  )
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </TabsContent>
+
+          {/* Breaks */}
+          <TabsContent value="breaks" className="space-y-4">
+            <div className="space-y-2">
+              {schedule.breaks.length === 0
+                ? emptyRow("No breaks")
+                : schedule.breaks.map((row) => (
+                    <div
+                      key={row.id}
+                      className="flex items-center justify-between p-3 rounded-lg bg-background/50 border border-border/50"
+                    >
+                      <div>
+                        <p className="font-medium">
+                          {row.label || "Break"} •{" "}
+                          {row.weekday === null ? "Every day" : WEEKDAYS[row.weekday]}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatScheduleTime(row.start_time)} - {formatScheduleTime(row.end_time)}
+                        </p>
+                      </div>
+                      {removeButton("doctor_schedule_breaks", row.id)}
+                    </div>
+                  ))}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end">
+              <div className="space-y-1">
+                <Label>Day</Label>
+                <Select
+                  value={breakForm.weekday}
+                  onValueChange={(weekday) => setBreakForm({ ...breakForm, weekday })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={EVERY_DAY}>Every day</SelectItem>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>
+                        {day}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>From</Label>
+                <Input
+                  type="time"
+                  value={breakForm.start}
+                  onChange={(e) => setBreakForm({ ...breakForm, start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>To</Label>
+                <Input
+                  type="time"
+                  value={breakForm.end}
+                  onChange={(e) => setBreakForm({ ...breakForm, end: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Label</Label>
+                <Input
+                  placeholder="e.g., Lunch"
+                  value={breakForm.label}
+                  onChange={(e) => setBreakForm({ ...breakForm, label: e.target.value })}
+                />
+              </div>
+              <Button
+                variant="outline"
+                disabled={addMutation.isPending}
+                onClick={() =>
+                  addMutation.mutate(() =>
+                    supabase.from("doctor_schedule_breaks").insert({
+                      doctor_id: doctorId,
+                      weekday: breakForm.weekday === EVERY_DAY ? null : parseInt(breakForm.weekday),
+                      start_time: breakForm.start,
+                      end_time: breakForm.end,
+                      label: breakForm.label.trim() || null,
+                    })
+                  )
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </TabsContent>
+
+          {/* Date overrides */}
+          <TabsContent value="overrides" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Hours set for a date replace your weekly hours on that day.
+            </p>
+            <div className="space-y-2">
+              {schedule.overrides.length === 0
+                ? emptyRow("No upcoming overrides")
+                : schedule.overrides.map((row) => (
+                    <div
+                      key={row.id}
+                      className="flex items-center justify-between p-3 rounded-lg bg-background/50 border border-border/50"
+                    >
+                      <div>
+                        <p className="font-medium">
+                          {format(parseISO(row.override_date), "EEE, MMM d, yyyy")}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatScheduleTime(row.start_time)} - {formatScheduleTime(row.end_time)} •{" "}
+                          {row.slot_minutes} min slots
+                          {row.reason && ` • ${row.reason}`}
+                        </p>
+                      </div>
+                      {removeButton("doctor_schedule_overrides", row.id)}
+                    </div>
+                  ))}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-6 gap-2 items-end">
+              <div className="space-y-1">
+                <Label>Date</Label>
+                <Input
+                  type="date"
+                  value={overrideForm.date}
+                  onChange={(e) => setOverrideForm({ ...overrideForm, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>From</Label>
+                <Input
+                  type="time"
+                  value={overrideForm.start}
+                  onChange={(e) => setOverrideForm({ ...overrideForm, start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>To</Label>
+                <Input
+                  type="time"
+                  value={overrideForm.end}
+                  onChange={(e) => setOverrideForm({ ...overrideForm, end: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Slot (min)</Label>
+                <Input
+                  type="number"
+                  min={5}
+                  step={5}
+                  value={overrideForm.slot}
+                  onChange={(e) => setOverrideForm({ ...overrideForm, slot: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Reason</Label>
+                <Input
+                  placeholder="Optional"
+                  value={overrideForm.reason}
+                  onChange={(e) => setOverrideForm({ ...overrideForm, reason: e.target.value })}
+                />
+              </div>
+              <Button
+                variant="outline"
+                disabled={addMutation.isPending || !overrideForm.date}
+                onClick={() =>
+                  addMutation.mutate(() =>
+                    supabase.from("doctor_schedule_overrides").insert({
+                      doctor_id: doctorId,
+                      override_date: overrideForm.date,
+                      start_time: overrideForm.start,
+                      end_time: overrideForm.end,
+                      slot_minutes: parseInt(overrideForm.slot) || 30,
+                      reason: overrideForm.reason.trim() || null,
+                    })
+                  )
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </TabsContent>
+
+          {/* Leave */}
+          <TabsContent value="leave" className="space-y-4">
+            <div className="space-y-2">
+              {schedule.leave.length === 0
+                ? emptyRow("No upcoming leave")
+                : schedule.leave.map((row) => (
+                    <div
+                      key={row.id}
+                      className="flex items-center justify-between p-3 rounded-lg bg-background/50 border border-border/50"
+                    >
+                      <div>
+                        <p className="font-medium">
+                          {format(parseISO(row.start_date), "MMM d")}
+                          {row.end_date !== row.start_date &&
+                            ` - ${format(parseISO(row.end_date), "MMM d")}`}
+                          {`, ${format(parseISO(row.end_date), "yyyy")}`}
+                        </p>
+                        {row.reason && (
+                          <p className="text-sm text-muted-foreground">{row.reason}</p>
+                        )}
+                      </div>
+                      {removeButton("doctor_leave", row.id)}
+                    </div>
+                  ))}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 items-end">
+              <div className="space-y-1">
+                <Label>From</Label>
+                <Input
+                  type="date"
+                  value={leaveForm.start}
+                  onChange={(e) => setLeaveForm({ ...leaveForm, start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>To</Label>
+                <Input
+                  type="date"
+                  value={leaveForm.end}
+                  min={leaveForm.start}
+                  onChange={(e) => setLeaveForm({ ...leaveForm, end: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Reason</Label>
+                <Input
+                  placeholder="Optional"
+                  value={leaveForm.reason}
+                  onChange={(e) => setLeaveForm({ ...leaveForm, reason: e.target.value })}
+                />
+              </div>
+              <Button
+                variant="outline"
+                disabled={addMutation.isPending || !leaveForm.start}
+                onClick={() =>
+                  addMutation.mutate(() =>
+                    supabase.from("doctor_leave").insert({
+                      doctor_id: doctorId,
+                      start_date: leaveForm.start,
+                      end_date: leaveForm.end || leaveForm.start,
+                      reason: leaveForm.reason.trim() || null,
+                    })
+                  )
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </TabsContent>
+
+          {/* Appointment types */}
+          <TabsContent value="types" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Patients choose a visit type when booking, and its slots are laid out by its length.
+              Switched-off types can't be booked.
+            </p>
+            <div className="space-y-2">
+              {schedule.types.length === 0
+                ? emptyRow("No visit types")
+                : schedule.types.map((row) => (
+                    <div
+                      key={row.id}
+                      className="flex items-center justify-between gap-4 p-3 rounded-lg bg-background/50 border border-border/50"
+                    >
+                      <p className="font-medium">{row.name}</p>
+                      <div className="flex items-center gap-3">
+                        <div className="flex items-center gap-2">
+                          <Input
+                            key={row.duration_minutes}
+                            type="number"
+                            min={5}
+                            max={240}
+                            step={5}
+                            className="w-20"
+                            defaultValue={row.duration_minutes}
+                            onBlur={(e) => {
+                              const minutes = parseInt(e.target.value);
+                              if (minutes && minutes !== row.duration_minutes) {
+                                addMutation.mutate(() =>
+                                  supabase
+                                    .from("appointment_types")
+                                    .update({ duration_minutes: minutes })
+                                    .eq("id", row.id)
+                                );
+                              }
+                            }}
+                          />
+                          <span className="text-sm text-muted-foreground">min</span>
+                        </div>
+                        <Switch
+                          checked={row.is_active}
+                          disabled={addMutation.isPending}
+                          onCheckedChange={(is_active) =>
+                            addMutation.mutate(() =>
+                              supabase.from("appointment_types").update({ is_active }).eq("id", row.id)
+                            )
+                          }
+                        />
+                      </div>
+                    </div>
+                  ))}
+            </div>
+          </TabsContent>
+        </Tabs>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowRightLeft, Loader2 } from "lucide-react";
+import { transferQueueToken } from "@/lib/queueTokens";
+import { sendQueueNotification } from "@/lib/queueNotifications";
+
+interface Doctor {
+  id: string;
+  name: string;
+  specialty: string;
+}
+
+interface TransferToken {
+  id: string;
+  token_number: string;
+  department: string;
+  patients?: { first_name: string; last_name: string } | null;
+}
+
+interface TransferTokenDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  token: TransferToken | null;
+  currentDoctorId: string;
+  onTransferred?: () => void;
+}
+
+const ANY_DOCTOR = "any";
+
+export function TransferTokenDialog({
+  open,
+  onOpenChange,
+  token,
+  currentDoctorId,
+  onTransferred,
+}: TransferTokenDialogProps) {
+  const { toast } = useToast();
+  const [department, setDepartment] = useState("");
+  const [doctorId, setDoctorId] = useState(ANY_DOCTOR);
+  const [position, setPosition] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setDepartment("");
+      setDoctorId(ANY_DOCTOR);
+      setPosition("");
+      setReason("");
+    }
+  }, [open]);
+
+  const { data: doctors = [] } = useQuery({
+    queryKey: ["transfer-doctors"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("doctors")
+        .select("id, name, specialty")
+        .order("specialty");
+      if (error) throw error;
+      return data as Doctor[];
+    },
+    enabled: open,
+  });
+
+  const departments = Array.from(new Set(doctors.map((d) => d.specialty)));
+  const departmentDoctors = doctors.filter(
+    (d) => d.specialty === department && d.id !== currentDoctorId
+  );
+
+  const transferMutation = useMutation({
+    mutationFn: async () => {
+      if (!token) throw new Error("No token selected");
+      if (!department) throw new Error("Please choose a department");
+      if (!reason.trim()) throw new Error("Please give a reason for the transfer");
+
+      const transferred = await transferQueueToken({
+        tokenId: token.id,
+        reason: reason.trim(),
+        toDepartment: department,
+        toDoctorId: doctorId === ANY_DOCTOR ? null : doctorId,
+        position: position ? parseInt(position) : null,
+      });
+
+      await sendQueueNotification(
+        { ...transferred, patients: token.patients },
+        "transferred"
+      );
+
+      return transferred;
+    },
+    onSuccess: (transferred) => {
+      toast({
+        title: "Patient Transferred",
+        description: `Now token ${transferred.token_number} in ${transferred.department}`,
+      });
+      onOpenChange(false);
+      onTransferred?.();
+    },
+    onError: (error) => {
+      toast({
+        title: "Transfer Failed",
+        description: error instanceof Error ? error.message : "Could not transfer the token",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="w-5 h-5 text-primary" />
+            Transfer Patient
+          </DialogTitle>
+          <DialogDescription>
+            {token
+              ? `Move token ${token.token_number} (${token.patients?.first_name} ${token.patients?.last_name}) to another queue`
+              : "Move a token to another queue"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Department *</Label>
+            <Select
+              value={department}
+              onValueChange={(value) => {
+                setDepartment(value);
+                setDoctorId(ANY_DOCTOR);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select department" />
+              </SelectTrigger>
+              <SelectContent>
+                {departments.map((dept) => (
+                  <SelectItem key={dept} value={dept}>
+                    {dept}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Doctor</Label>
+            <Select value={doctorId} onValueChange={setDoctorId} disabled={!department}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_DOCTOR}>First available in department</SelectItem>
+                {departmentDoctors.map((doctor) => (
+                  <SelectItem key={doctor.id} value={doctor.id}>
+                    {doctor.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-position">Place in line</Label>
+            <Input
+              id="transfer-position"
+              type="number"
+              min={1}
+              value={position}
+              onChange={(e) => setPosition(e.target.value)}
+              placeholder="Leave empty for the back of the line"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-reason">Reason *</Label>
+            <Textarea
+              id="transfer-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Needs cardiology review for irregular ECG"
+              className="min-h-[80px]"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => transferMutation.mutate()}
+            disabled={transferMutation.isPending || !department || !reason.trim()}
+          >
+            {transferMutation.isPending ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Transferring...
+              </>
+            ) : (
+              <>
+                <ArrowRightLeft className="w-4 h-4 mr-2" />
+                Transfer
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,6 +17,7 @@ import {
   
   LayoutDashboard,
   Pill,
+  BarChart3,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -137,6 +138,14 @@ export function Navbar() {
                       </Link>
                     </DropdownMenuItem>
                   )}
+                  {isDoctor && (
+                    <DropdownMenuItem className="gap-2" asChild>
+                      <Link to="/analytics">
+                        <BarChart3 className="w-4 h-4" />
+                        Queue Analytics
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem
                     className="gap-2 text-destructive"
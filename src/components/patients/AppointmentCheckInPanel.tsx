@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCheckInCode } from "@/hooks/useCheckInCode";
+import { CalendarCheck, Loader2, LogIn, QrCode, Search } from "lucide-react";
+import { CheckInQrCode } from "@/components/appointments/CheckInQrCode";
+import { checkInAppointment, fetchCheckInAppointments } from "@/lib/checkIn";
+import { appointmentStatusLabel } from "@shared/appointmentStatus";
+
+// Reception's list of today's booked patients. Checking one in issues their
+// queue token, so booked patients skip the walk-in registration.
+export function AppointmentCheckInPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const checkInCode = useCheckInCode();
+
+  const { data: appointments = [], isLoading } = useQuery({
+    queryKey: ["check-in-appointments"],
+    queryFn: () => fetchCheckInAppointments(),
+    // Patients also check themselves in from the lobby QR code
+    refetchInterval: 60000,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: (appointmentId: string) => checkInAppointment(appointmentId),
+    onSuccess: (token) => {
+      toast({
+        title: "Checked In",
+        description: `Token ${token.token_number} issued. Estimated wait: ${token.estimated_wait_minutes ?? 0} minutes.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["check-in-appointments"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Check-in Failed",
+        description: (error as { message?: string }).message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const term = search.trim().toLowerCase();
+  const visible = term
+    ? appointments.filter((apt) =>
+        `${apt.patients?.first_name} ${apt.patients?.last_name} ${apt.doctors?.name}`
+          .toLowerCase()
+          .includes(term)
+      )
+    : appointments;
+  const waitingCount = appointments.filter((apt) => !apt.queue_tokens).length;
+
+  return (
+    <Card className="p-6 bg-gradient-card border-border/50">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <CalendarCheck className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold">Today's Appointments</h3>
+          <Badge variant="secondary">{waitingCount} to check in</Badge>
+        </div>
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2">
+              <QrCode className="w-4 h-4" />
+              Check-in QR
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[360px]">
+            <DialogHeader>
+              <DialogTitle>Self-service Check-in</DialogTitle>
+              <DialogDescription>
+                Patients with a booking scan this code to check themselves in and get their token.
+              </DialogDescription>
+            </DialogHeader>
+            {checkInCode ? (
+              <CheckInQrCode code={checkInCode} size={240} className="flex justify-center py-2" />
+            ) : (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="relative mb-4">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by patient or doctor..."
+          className="pl-9"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {term ? "No appointments match your search." : "No appointments booked for today."}
+        </p>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {visible.map((apt) => (
+            <div
+              key={apt.id}
+              className="flex items-center gap-4 p-4 rounded-xl bg-background/50 border border-border/50"
+            >
+              <div className="flex items-center justify-center w-14 h-10 rounded-lg bg-accent font-semibold text-sm text-accent-foreground">
+                {apt.scheduled_time}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">
+                  {apt.patients?.first_name} {apt.patients?.last_name}
+                </p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {apt.doctors?.name} • {apt.doctors?.specialty}
+                </p>
+              </div>
+
+              {apt.queue_tokens ? (
+                <div className="text-right">
+                  <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                    {apt.queue_tokens.token_number}
+                  </Badge>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {apt.queue_tokens.status === "waiting"
+                      ? `~${apt.queue_tokens.estimated_wait_minutes ?? 0} min`
+                      : apt.queue_tokens.status}
+                  </p>
+                </div>
+              ) : apt.status === "confirmed" ? (
+                <Button
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => checkInMutation.mutate(apt.id)}
+                  disabled={checkInMutation.isPending}
+                >
+                  {checkInMutation.isPending && checkInMutation.variables === apt.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <LogIn className="w-4 h-4" />
+                  )}
+                  Check In
+                </Button>
+              ) : (
+                <Badge variant="outline" title="Confirm the appointment before checking in">
+                  {appointmentStatusLabel(apt.status)}
+                </Badge>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Separator } from "@/components/ui/separator";
 import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
 import { 
   Calendar, 
   Clock, 
@@ -17,10 +18,17 @@ import {
   AlertCircle,
   Timer,
   ClipboardList,
-  Printer
+  Printer,
+  UserX,
+  CalendarPlus,
+  Repeat
 } from "lucide-react";
-import { format } from "date-fns";
 import { PrintablePrescription } from "./PrintablePrescription";
+import { appointmentStatusLabel, isActiveAppointmentStatus } from "@shared/appointmentStatus";
+import { cancellationReasonLabel } from "@shared/cancellationReasons";
+import { downloadAppointmentIcs } from "@/lib/calendar";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { formatHospitalDate } from "@/lib/hospitalSettings";
 
 interface PrescriptionItem {
   id: string;
@@ -50,10 +58,18 @@ interface AppointmentWithDetails {
   symptoms: string | null;
   notes: string | null;
   created_at: string | null;
+  cancellation_reason: string | null;
+  cancellation_note: string | null;
   doctor: {
     name: string;
     specialty: string;
   } | null;
+  series_id: string | null;
+  series_position: number | null;
+  series: {
+    interval_weeks: number;
+    occurrences: number;
+  } | null;
   prescriptions: Prescription[];
 }
 
@@ -62,9 +78,11 @@ interface AppointmentHistoryProps {
 }
 
 export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
+  useHospitalSettings();
   const [appointments, setAppointments] = useState<AppointmentWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedAppointment, setExpandedAppointment] = useState<string | null>(null);
+  const { toast } = useToast();
 
   useEffect(() => {
     const fetchAppointmentHistory = async () => {
@@ -75,7 +93,8 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
         .from("appointments")
         .select(`
           *,
-          doctor:doctors(name, specialty)
+          doctor:doctors(name, specialty),
+          series:appointment_series(interval_weeks, occurrences)
         `)
         .eq("patient_id", patientId)
         .order("scheduled_date", { ascending: false });
@@ -132,13 +151,29 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
     }
   }, [patientId]);
 
+  const handleAddToCalendar = async (e: React.MouseEvent, appointmentId: string) => {
+    // The button sits on the card's expand trigger
+    e.stopPropagation();
+
+    try {
+      await downloadAppointmentIcs(appointmentId);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to export the appointment",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const statusStyles: Record<string, { variant: "default" | "secondary" | "destructive" | "outline"; icon: typeof CheckCircle2; className?: string }> = {
-      scheduled: { variant: "default", icon: Calendar },
+      pending: { variant: "default", icon: Timer },
       confirmed: { variant: "secondary", icon: CheckCircle2 },
       completed: { variant: "outline", icon: CheckCircle2, className: "border-success text-success" },
       cancelled: { variant: "destructive", icon: AlertCircle },
-      pending: { variant: "default", icon: Timer },
+      "no-show": { variant: "destructive", icon: UserX },
+      rescheduled: { variant: "outline", icon: Calendar },
     };
 
     const style = statusStyles[status] || { variant: "outline" as const, icon: AlertCircle };
@@ -147,14 +182,15 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
     return (
       <Badge variant={style.variant} className={`gap-1 ${style.className || ""}`}>
         <Icon className="w-3 h-3" />
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {appointmentStatusLabel(status)}
       </Badge>
     );
   };
 
   const completedAppointments = appointments.filter(a => a.status === "completed");
-  const upcomingAppointments = appointments.filter(a => a.status !== "completed" && a.status !== "cancelled");
-  const cancelledAppointments = appointments.filter(a => a.status === "cancelled");
+  const upcomingAppointments = appointments.filter(a => isActiveAppointmentStatus(a.status));
+  // Cancelled, no-show and rescheduled
+  const cancelledAppointments = appointments.filter(a => a.status !== "completed" && !isActiveAppointmentStatus(a.status));
 
   if (loading) {
     return (
@@ -193,6 +229,11 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
                     <div className="flex items-center gap-2 flex-wrap">
                       <h3 className="font-semibold text-lg">{appointment.doctor?.name || "Doctor"}</h3>
                       {getStatusBadge(appointment.status || "pending")}
+                      {appointment.series && appointment.series.occurrences > 1 && (
+                        <Badge variant="outline" className="text-xs">
+                          Visit {appointment.series_position} of {appointment.series.occurrences}
+                        </Badge>
+                      )}
                     </div>
                     <p className="text-sm text-muted-foreground">{appointment.doctor?.specialty}</p>
                     {appointment.symptoms && (
@@ -200,6 +241,13 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
                         <span className="text-muted-foreground">Chief complaint:</span> {appointment.symptoms}
                       </p>
                     )}
+                    {appointment.status === "cancelled" && appointment.cancellation_reason && (
+                      <p className="text-sm">
+                        <span className="text-muted-foreground">Cancelled:</span>{" "}
+                        {cancellationReasonLabel(appointment.cancellation_reason)}
+                        {appointment.cancellation_note && ` — ${appointment.cancellation_note}`}
+                      </p>
+                    )}
                   </div>
                 </div>
                 
@@ -207,7 +255,7 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
                   <div className="flex flex-col items-end gap-1">
                     <div className="flex items-center gap-2 text-sm">
                       <Calendar className="w-4 h-4 text-muted-foreground" />
-                      <span className="font-medium">{format(new Date(appointment.scheduled_date), "MMM d, yyyy")}</span>
+                      <span className="font-medium">{formatHospitalDate(appointment.scheduled_date)}</span>
                     </div>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                       <Clock className="w-4 h-4" />
@@ -220,6 +268,17 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
                       </div>
                     )}
                   </div>
+                  {isActiveAppointmentStatus(appointment.status) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1 shrink-0"
+                      onClick={(e) => handleAddToCalendar(e, appointment.id)}
+                    >
+                      <CalendarPlus className="w-4 h-4" />
+                      Add to Calendar
+                    </Button>
+                  )}
                   <Button variant="ghost" size="icon" className="shrink-0">
                     {isExpanded ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
                   </Button>
@@ -279,7 +338,7 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
                         </div>
                         {prescription.valid_until && (
                           <CardDescription>
-                            Valid until: {format(new Date(prescription.valid_until), "MMM d, yyyy")}
+                            Valid until: {formatHospitalDate(prescription.valid_until)}
                           </CardDescription>
                         )}
                       </CardHeader>
@@ -340,6 +399,41 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
     );
   };
 
+  // Visits of a follow-up series are shown together, in the order they happen
+  const renderAppointmentList = (list: AppointmentWithDetails[]) => {
+    const renderedSeries = new Set<string>();
+
+    return list.map((appointment) => {
+      if (!appointment.series_id || !appointment.series) {
+        return renderAppointmentCard(appointment);
+      }
+      if (renderedSeries.has(appointment.series_id)) {
+        return null;
+      }
+      renderedSeries.add(appointment.series_id);
+
+      const { interval_weeks: weeks, occurrences } = appointment.series;
+      const visits = list
+        .filter((a) => a.series_id === appointment.series_id)
+        .sort((a, b) => (a.series_position ?? 0) - (b.series_position ?? 0));
+
+      return (
+        <div
+          key={appointment.series_id}
+          className="space-y-3 rounded-xl border border-dashed border-primary/30 p-3"
+        >
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Repeat className="w-4 h-4 text-primary" />
+            {occurrences > 1
+              ? `Recurring visits every ${weeks} week${weeks === 1 ? "" : "s"}`
+              : "Follow-up visit"}
+          </div>
+          {visits.map(renderAppointmentCard)}
+        </div>
+      );
+    });
+  };
+
   if (appointments.length === 0) {
     return (
       <Card>
@@ -406,7 +500,7 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
             <Calendar className="w-5 h-5 text-primary" />
             Upcoming Appointments
           </h3>
-          {upcomingAppointments.map(renderAppointmentCard)}
+          {renderAppointmentList(upcomingAppointments)}
         </div>
       )}
 
@@ -417,7 +511,7 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
             <CheckCircle2 className="w-5 h-5 text-success" />
             Past Visits
           </h3>
-          {completedAppointments.map(renderAppointmentCard)}
+          {renderAppointmentList(completedAppointments)}
         </div>
       )}
 
@@ -426,9 +520,9 @@ export function AppointmentHistory({ patientId }: AppointmentHistoryProps) {
         <div className="space-y-4">
           <h3 className="text-lg font-semibold flex items-center gap-2 text-muted-foreground">
             <AlertCircle className="w-5 h-5" />
-            Cancelled
+            Cancelled &amp; Missed
           </h3>
-          {cancelledAppointments.map(renderAppointmentCard)}
+          {renderAppointmentList(cancelledAppointments)}
         </div>
       )}
     </div>
@@ -25,9 +25,11 @@ import {
   FlaskConical,
   Scan,
   Heart,
-  Brain
+  Brain,
+  Share2
 } from "lucide-react";
-import { format } from "date-fns";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { formatHospitalDate } from "@/lib/hospitalSettings";
 
 interface MedicalRecord {
   id: string;
@@ -44,6 +46,8 @@ interface MedicalRecord {
 
 interface MedicalRecordsProps {
   patientId: string;
+  // Offers a Share button on each record, e.g. to share it into a consult room
+  onShare?: (record: MedicalRecord) => void;
 }
 
 const recordTypes = [
@@ -55,7 +59,8 @@ const recordTypes = [
   { value: "other", label: "Other", icon: File },
 ];
 
-export function MedicalRecords({ patientId }: MedicalRecordsProps) {
+export function MedicalRecords({ patientId, onShare }: MedicalRecordsProps) {
+  useHospitalSettings();
   const { user } = useAuth();
   const [records, setRecords] = useState<MedicalRecord[]>([]);
   const [loading, setLoading] = useState(true);
@@ -412,6 +417,16 @@ export function MedicalRecords({ patientId }: MedicalRecordsProps) {
                           )}
                         </div>
                         <div className="flex items-center gap-2 shrink-0">
+                          {onShare && (
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              onClick={() => onShare(record)}
+                              title="Share"
+                            >
+                              <Share2 className="w-4 h-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="outline"
                             size="icon"
@@ -449,12 +464,12 @@ export function MedicalRecords({ patientId }: MedicalRecordsProps) {
                         {record.record_date && (
                           <span className="flex items-center gap-1">
                             <Calendar className="w-3 h-3" />
-                            Record: {format(new Date(record.record_date), "MMM d, yyyy")}
+                            Record: {formatHospitalDate(record.record_date)}
                           </span>
                         )}
                         <span className="flex items-center gap-1">
                           <Upload className="w-3 h-3" />
-                          Uploaded: {format(new Date(record.uploaded_at), "MMM d, yyyy")}
+                          Uploaded: {formatHospitalDate(record.uploaded_at)}
                         </span>
                       </div>
                     </div>
@@ -16,6 +16,9 @@ import { toast } from "@/hooks/use-toast";
 import { UserPlus, CheckCircle, LogIn } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useIsStaff } from "@/hooks/useIsStaff";
+import { issueQueueToken } from "@/lib/queueTokens";
+import { QUEUE_PRIORITIES, QueuePriority } from "@/lib/queuePriority";
 
 interface Doctor {
   id: string;
@@ -27,6 +30,8 @@ export function PatientRegistrationForm() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [doctors, setDoctors] = useState<Doctor[]>([]);
   const { user } = useAuth();
+  // Triage is set by staff; patients registering themselves join as routine
+  const isStaff = useIsStaff();
   const navigate = useNavigate();
 
   const [formData, setFormData] = useState({
@@ -40,6 +45,7 @@ export function PatientRegistrationForm() {
     emergencyContact: "",
     symptoms: "",
     doctorId: "",
+    priority: "routine",
   });
 
   useEffect(() => {
@@ -92,32 +98,21 @@ export function PatientRegistrationForm() {
 
       if (patientError) throw patientError;
 
-      // Get next token number
-      const { count } = await supabase
-        .from("queue_tokens")
-        .select("*", { count: "exact", head: true });
-
-      const tokenNumber = `A${String((count || 0) + 1).padStart(3, "0")}`;
-
       // Get doctor info for department
       const selectedDoctor = doctors.find((d) => d.id === formData.doctorId);
 
-      // Create queue token
-      const { error: tokenError } = await supabase.from("queue_tokens").insert({
-        token_number: tokenNumber,
-        patient_id: patient.id,
-        doctor_id: formData.doctorId || null,
+      // Issue queue token
+      const token = await issueQueueToken({
+        patientId: patient.id,
+        doctorId: formData.doctorId || null,
         department: selectedDoctor?.specialty || "General",
-        status: "waiting",
-        estimated_wait_minutes: 30,
-        position: (count || 0) + 1,
+        priority: (isStaff ? formData.priority : "routine") as QueuePriority,
+        priorityReason: isStaff && formData.priority !== "routine" ? formData.symptoms : null,
       });
 
-      if (tokenError) throw tokenError;
-
       toast({
         title: "Registration Successful!",
-        description: `Token ${tokenNumber} has been assigned. Estimated wait time: 30 minutes.`,
+        description: `Token ${token.token_number} has been assigned. Estimated wait time: ${token.estimated_wait_minutes} minutes.`,
       });
 
       // Reset form
@@ -132,6 +127,7 @@ export function PatientRegistrationForm() {
         emergencyContact: "",
         symptoms: "",
         doctorId: "",
+        priority: "routine",
       });
     } catch (error: any) {
       console.error("Registration error:", error);
@@ -273,6 +269,27 @@ export function PatientRegistrationForm() {
           </Select>
         </div>
 
+        {isStaff && (
+          <div className="space-y-2">
+            <Label htmlFor="priority">Triage Level</Label>
+            <Select
+              value={formData.priority}
+              onValueChange={(value) => handleChange("priority", value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select triage level" />
+              </SelectTrigger>
+              <SelectContent>
+                {QUEUE_PRIORITIES.map((level) => (
+                  <SelectItem key={level.value} value={level.value}>
+                    {level.label} - {level.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         <div className="space-y-2">
           <Label htmlFor="symptoms">Symptoms / Reason for Visit</Label>
           <Textarea
@@ -3,7 +3,8 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
 import { Printer, Download, Pill, Calendar, User, Stethoscope } from "lucide-react";
-import { format } from "date-fns";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { formatHospitalDate } from "@/lib/hospitalSettings";
 
 interface PrescriptionItem {
   id: string;
@@ -39,6 +40,7 @@ interface PrintablePrescriptionProps {
 }
 
 export function PrintablePrescription({ prescription, trigger }: PrintablePrescriptionProps) {
+  useHospitalSettings();
   const printRef = useRef<HTMLDivElement>(null);
 
   const handlePrint = () => {
@@ -321,7 +323,7 @@ export function PrintablePrescription({ prescription, trigger }: PrintablePrescr
               <p className="font-semibold flex items-center gap-2">
                 <Calendar className="w-4 h-4" />
                 {prescription.created_at 
-                  ? format(new Date(prescription.created_at), "MMM d, yyyy")
+                  ? formatHospitalDate(prescription.created_at)
                   : "N/A"}
               </p>
             </div>
@@ -380,7 +382,7 @@ export function PrintablePrescription({ prescription, trigger }: PrintablePrescr
             <div className="text-xs text-muted-foreground">
               <p>Prescription ID: {prescription.id.slice(0, 8).toUpperCase()}</p>
               {prescription.valid_until && (
-                <p>Valid Until: {format(new Date(prescription.valid_until), "MMM d, yyyy")}</p>
+                <p>Valid Until: {formatHospitalDate(prescription.valid_until)}</p>
               )}
             </div>
             <div className="text-right">
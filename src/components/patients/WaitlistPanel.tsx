@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback } from "react";
+import { formatDistanceToNowStrict } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarCheck, ListOrdered, Stethoscope, X } from "lucide-react";
+import {
+  WaitlistEntry,
+  acceptSlotOffer,
+  declineSlotOffer,
+  fetchPatientWaitlist,
+  leaveWaitlist,
+} from "@/lib/waitlist";
+import { sendAppointmentNotification } from "@/lib/appointmentNotifications";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { formatHospitalDate } from "@/lib/hospitalSettings";
+
+type BookedAppointment = Awaited<ReturnType<typeof acceptSlotOffer>>;
+
+interface WaitlistPanelProps {
+  patientId: string;
+  onBooked?: (appointment: BookedAppointment, doctor: WaitlistEntry["doctors"]) => void;
+}
+
+export function WaitlistPanel({ patientId, onBooked }: WaitlistPanelProps) {
+  useHospitalSettings();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadWaitlist = useCallback(async () => {
+    try {
+      setEntries(await fetchPatientWaitlist(patientId));
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    loadWaitlist();
+  }, [loadWaitlist]);
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Something went wrong",
+        variant: "destructive",
+      });
+    }
+    setBusyId(null);
+    loadWaitlist();
+  };
+
+  const handleAccept = (entry: WaitlistEntry, offerId: string) =>
+    run(offerId, async () => {
+      const appointment = await acceptSlotOffer(offerId);
+      toast({
+        title: "Appointment Booked!",
+        description: `${formatHospitalDate(appointment.scheduled_date)} at ${appointment.scheduled_time}`,
+      });
+      sendAppointmentNotification(appointment, "confirmation");
+      onBooked?.(appointment, entry.doctors);
+    });
+
+  const handleDecline = (offerId: string) =>
+    run(offerId, async () => {
+      await declineSlotOffer(offerId);
+      toast({ title: "Offer Declined", description: "You're still on the waitlist." });
+    });
+
+  const handleLeave = (entryId: string) =>
+    run(entryId, async () => {
+      await leaveWaitlist(entryId);
+      toast({ title: "Left Waitlist" });
+    });
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold flex items-center gap-2">
+        <ListOrdered className="w-5 h-5 text-primary" />
+        Waitlist
+      </h3>
+      {entries.map((entry) => {
+        const offer = entry.appointment_slot_offers.find(
+          (o) => new Date(o.expires_at) > new Date()
+        );
+
+        return (
+          <Card key={entry.id} className={offer ? "border-success" : ""}>
+            <CardContent className="pt-6">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-start gap-4">
+                  <div className="p-3 rounded-lg bg-primary/10">
+                    <Stethoscope className="w-5 h-5 text-primary" />
+                  </div>
+                  <div>
+                    <h4 className="font-semibold">{entry.doctors?.name || "Doctor"}</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Waiting for {formatHospitalDate(entry.from_date)}
+                      {entry.to_date !== entry.from_date && ` – ${formatHospitalDate(entry.to_date)}`}
+                    </p>
+                    {offer && (
+                      <p className="text-sm mt-1">
+                        <Badge className="bg-success/10 text-success border-success/20 mr-2">
+                          Slot held for you
+                        </Badge>
+                        {formatHospitalDate(offer.slot_date)} at {offer.slot_time}
+                        <span className="text-muted-foreground">
+                          {" "}· expires in {formatDistanceToNowStrict(new Date(offer.expires_at))}
+                        </span>
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {offer && (
+                    <>
+                      <Button
+                        variant="hero"
+                        size="sm"
+                        className="gap-1"
+                        disabled={busyId === offer.id}
+                        onClick={() => handleAccept(entry, offer.id)}
+                      >
+                        <CalendarCheck className="w-4 h-4" />
+                        Accept
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busyId === offer.id}
+                        onClick={() => handleDecline(offer.id)}
+                      >
+                        Decline
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1 text-muted-foreground"
+                    disabled={busyId === entry.id}
+                    onClick={() => handleLeave(entry.id)}
+                  >
+                    <X className="w-4 h-4" />
+                    Leave
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
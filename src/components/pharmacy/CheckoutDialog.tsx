@@ -28,6 +28,8 @@ import {
   CheckCircle2
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { formatPrice } from "@/lib/hospitalSettings";
 
 interface Medicine {
   id: string;
@@ -76,6 +78,7 @@ export function CheckoutDialog({
 }: CheckoutDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  useHospitalSettings();
   const [step, setStep] = useState<"details" | "pharmacy" | "confirm">("details");
   const [deliveryAddress, setDeliveryAddress] = useState(patient?.address || "");
   const [deliveryPhone, setDeliveryPhone] = useState(patient?.phone || "");
@@ -330,7 +333,7 @@ export function CheckoutDialog({
                       <Truck className="w-4 h-4" />
                       ~{pharmacy.estimated_delivery_minutes} mins
                     </span>
-                    <span>₹{pharmacy.delivery_fee} delivery</span>
+                    <span>{formatPrice(pharmacy.delivery_fee)} delivery</span>
                     <span>★ {pharmacy.rating}</span>
                   </div>
                 </div>
@@ -350,7 +353,7 @@ export function CheckoutDialog({
                       <span>
                         {item.medicine.name} × {item.quantity}
                       </span>
-                      <span>₹{(item.medicine.price * item.quantity).toFixed(2)}</span>
+                      <span>{formatPrice(item.medicine.price * item.quantity)}</span>
                     </div>
                   ))}
                 </div>
@@ -390,15 +393,15 @@ export function CheckoutDialog({
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Subtotal</span>
-                  <span>₹{subtotal.toFixed(2)}</span>
+                  <span>{formatPrice(subtotal)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Delivery Fee</span>
-                  <span>₹{deliveryFee.toFixed(2)}</span>
+                  <span>{formatPrice(deliveryFee)}</span>
                 </div>
                 <div className="flex justify-between font-semibold text-lg">
                   <span>Total</span>
-                  <span className="text-primary">₹{total.toFixed(2)}</span>
+                  <span className="text-primary">{formatPrice(total)}</span>
                 </div>
               </div>
 
@@ -435,7 +438,7 @@ export function CheckoutDialog({
                   Placing Order...
                 </>
               ) : (
-                `Place Order • ₹${total.toFixed(2)}`
+                `Place Order • ${formatPrice(total)}`
               )}
             </Button>
           )}
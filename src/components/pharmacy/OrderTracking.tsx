@@ -19,6 +19,13 @@ import {
   Calendar
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import {
+  formatHospitalDate,
+  formatHospitalDateTime,
+  formatHospitalTime,
+  formatPrice,
+} from "@/lib/hospitalSettings";
 
 interface OrderItem {
   id: string;
@@ -63,6 +70,7 @@ const statusSteps = ["pending", "confirmed", "preparing", "out_for_delivery", "d
 
 export function OrderTracking({ patientId }: OrderTrackingProps) {
   const queryClient = useQueryClient();
+  useHospitalSettings();
 
   // Fetch orders
   const { data: orders = [], isLoading } = useQuery({
@@ -171,8 +179,8 @@ export function OrderTracking({ patientId }: OrderTrackingProps) {
                   </CardTitle>
                   <CardDescription className="flex items-center gap-2 mt-1">
                     <Calendar className="w-3 h-3" />
-                    {new Date(order.created_at).toLocaleDateString()} at{" "}
-                    {new Date(order.created_at).toLocaleTimeString()}
+                    {formatHospitalDate(order.created_at)} at{" "}
+                    {formatHospitalTime(order.created_at)}
                   </CardDescription>
                 </div>
                 <Badge
@@ -243,7 +251,7 @@ export function OrderTracking({ patientId }: OrderTrackingProps) {
                   <div>
                     <p className="font-medium text-sm">Estimated Delivery</p>
                     <p className="text-xs text-muted-foreground">
-                      {new Date(order.estimated_delivery).toLocaleString()}
+                      {formatHospitalDateTime(order.estimated_delivery)}
                     </p>
                   </div>
                 </div>
@@ -256,7 +264,7 @@ export function OrderTracking({ patientId }: OrderTrackingProps) {
                   <div>
                     <p className="font-medium text-sm">Delivered</p>
                     <p className="text-xs text-muted-foreground">
-                      {new Date(order.delivered_at).toLocaleString()}
+                      {formatHospitalDateTime(order.delivered_at)}
                     </p>
                   </div>
                 </div>
@@ -307,7 +315,7 @@ export function OrderTracking({ patientId }: OrderTrackingProps) {
                           {item.medicine_name} × {item.quantity}
                         </span>
                         <span className="text-muted-foreground">
-                          ₹{item.total_price.toFixed(2)}
+                          {formatPrice(item.total_price)}
                         </span>
                       </div>
                     ))}
@@ -321,15 +329,15 @@ export function OrderTracking({ patientId }: OrderTrackingProps) {
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Subtotal</span>
-                  <span>₹{order.subtotal.toFixed(2)}</span>
+                  <span>{formatPrice(order.subtotal)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Delivery Fee</span>
-                  <span>₹{order.delivery_fee.toFixed(2)}</span>
+                  <span>{formatPrice(order.delivery_fee)}</span>
                 </div>
                 <div className="flex justify-between font-semibold">
                   <span>Total</span>
-                  <span className="text-primary">₹{order.total.toFixed(2)}</span>
+                  <span className="text-primary">{formatPrice(order.total)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Payment</span>
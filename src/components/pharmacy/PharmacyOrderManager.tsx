@@ -25,6 +25,8 @@ import {
   Loader2
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { formatHospitalDateTime, formatPrice } from "@/lib/hospitalSettings";
 
 interface Order {
   id: string;
@@ -50,6 +52,7 @@ const statusOptions = [
 export function PharmacyOrderManager() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  useHospitalSettings();
   const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
 
   // Fetch all orders (admin view)
@@ -146,9 +149,9 @@ export function PharmacyOrderManager() {
                         )}
                       </div>
                       <div className="text-right">
-                        <p className="font-semibold text-primary">₹{order.total.toFixed(2)}</p>
+                        <p className="font-semibold text-primary">{formatPrice(order.total)}</p>
                         <p className="text-xs text-muted-foreground">
-                          {new Date(order.created_at).toLocaleString()}
+                          {formatHospitalDateTime(order.created_at)}
                         </p>
                       </div>
                     </div>
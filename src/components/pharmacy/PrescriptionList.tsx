@@ -3,7 +3,10 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { FileText, Calendar, User, Clock, ShoppingCart, Pill, CheckCircle } from "lucide-react";
+import { differenceInCalendarDays } from "date-fns";
 import { cn } from "@/lib/utils";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { formatHospitalDate, parseHospitalDate, todayAtHospital } from "@/lib/hospitalSettings";
 
 interface PrescriptionItem {
   id: string;
@@ -34,6 +37,8 @@ interface PrescriptionListProps {
 }
 
 export function PrescriptionList({ prescriptions, loading, onAddToCart }: PrescriptionListProps) {
+  useHospitalSettings();
+
   if (loading) {
     return (
       <div className="grid md:grid-cols-2 gap-4">
@@ -68,8 +73,10 @@ export function PrescriptionList({ prescriptions, loading, onAddToCart }: Prescr
   return (
     <div className="grid md:grid-cols-2 gap-4">
       {prescriptions.map((prescription) => {
-        const validUntil = new Date(prescription.valid_until);
-        const daysLeft = Math.ceil((validUntil.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+        const daysLeft = differenceInCalendarDays(
+          parseHospitalDate(prescription.valid_until),
+          parseHospitalDate(todayAtHospital())
+        );
         const isExpiringSoon = daysLeft <= 7;
 
         return (
@@ -103,11 +110,11 @@ export function PrescriptionList({ prescriptions, loading, onAddToCart }: Prescr
               <div className="flex items-center gap-4 text-sm text-muted-foreground">
                 <span className="flex items-center gap-1">
                   <Calendar className="w-4 h-4" />
-                  {new Date(prescription.created_at).toLocaleDateString()}
+                  {formatHospitalDate(prescription.created_at)}
                 </span>
                 <span className="flex items-center gap-1">
                   <Clock className="w-4 h-4" />
-                  Valid until {validUntil.toLocaleDateString()}
+                  Valid until {formatHospitalDate(prescription.valid_until)}
                 </span>
               </div>
 
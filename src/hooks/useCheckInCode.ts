@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { useIsStaff } from "@/hooks/useIsStaff";
+import { fetchCheckInCode } from "@/lib/checkIn";
+
+// The lobby's current check-in code, fetched again as it changes. Null until
+// it loads and for anyone other than staff.
+export function useCheckInCode() {
+  const isStaff = useIsStaff();
+
+  const { data } = useQuery({
+    queryKey: ["check-in-code"],
+    queryFn: fetchCheckInCode,
+    enabled: isStaff,
+    refetchInterval: (query) => {
+      const expiresAt = query.state.data?.expires_at;
+      return expiresAt ? Math.max(new Date(expiresAt).getTime() - Date.now(), 1000) : 60000;
+    },
+  });
+
+  return data?.code ?? null;
+}
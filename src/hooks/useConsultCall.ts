@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CONSULT_ICE_SERVERS } from "@/lib/consult";
+import type { ConsultSignal } from "@/hooks/useConsultRoom";
+
+export type ConsultCallStatus = "idle" | "waiting" | "connecting" | "connected";
+
+interface UseConsultCallOptions {
+  // The doctor's side makes the offer once both sides have joined
+  isCaller: boolean;
+  peerPresent: boolean;
+  sendSignal: (signal: ConsultSignal) => void;
+  onSignal: (listener: (signal: ConsultSignal) => void) => () => void;
+}
+
+// A peer-to-peer video call between the two sides of a consult room. Each
+// side announces it is ready once its camera is on; the caller answers a
+// ready with an offer, so the call starts whichever side joins first.
+export function useConsultCall({ isCaller, peerPresent, sendSignal, onSignal }: UseConsultCallOptions) {
+  const [status, setStatus] = useState<ConsultCallStatus>("idle");
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [micOn, setMicOn] = useState(true);
+  const [cameraOn, setCameraOn] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const peerRef = useRef<RTCPeerConnection | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  // ICE candidates that arrive before the remote description is set
+  const pendingCandidatesRef = useRef<RTCIceCandidateInit[]>([]);
+
+  // A fresh connection carrying the local tracks, replacing any earlier one
+  const createPeer = useCallback(() => {
+    peerRef.current?.close();
+    pendingCandidatesRef.current = [];
+
+    const peer = new RTCPeerConnection({ iceServers: CONSULT_ICE_SERVERS });
+    localStreamRef.current?.getTracks().forEach((track) => {
+      peer.addTrack(track, localStreamRef.current as MediaStream);
+    });
+
+    peer.onicecandidate = (event) => {
+      if (event.candidate) {
+        sendSignal({ kind: "candidate", candidate: event.candidate.toJSON() });
+      }
+    };
+    peer.ontrack = (event) => {
+      setRemoteStream(event.streams[0] ?? null);
+    };
+    peer.onconnectionstatechange = () => {
+      if (peerRef.current !== peer) return;
+
+      if (peer.connectionState === "connected") {
+        setStatus("connected");
+      } else if (peer.connectionState === "failed" || peer.connectionState === "closed") {
+        setRemoteStream(null);
+        setStatus("waiting");
+      }
+    };
+
+    peerRef.current = peer;
+    return peer;
+  }, [sendSignal]);
+
+  const flushCandidates = async (peer: RTCPeerConnection) => {
+    const candidates = pendingCandidatesRef.current;
+    pendingCandidatesRef.current = [];
+    for (const candidate of candidates) {
+      await peer.addIceCandidate(candidate);
+    }
+  };
+
+  // Back to waiting for the other side, camera still on
+  const resetPeer = useCallback(() => {
+    setRemoteStream(null);
+    createPeer();
+    setStatus("waiting");
+  }, [createPeer]);
+
+  useEffect(
+    () =>
+      onSignal(async (signal) => {
+        if (!localStreamRef.current) return;
+
+        try {
+          switch (signal.kind) {
+            case "ready":
+              if (isCaller) {
+                const peer = createPeer();
+                setStatus("connecting");
+                await peer.setLocalDescription(await peer.createOffer());
+                sendSignal({ kind: "offer", description: peer.localDescription.toJSON() });
+              } else {
+                sendSignal({ kind: "ready" });
+              }
+              break;
+            case "offer": {
+              const peer = createPeer();
+              setStatus("connecting");
+              await peer.setRemoteDescription(signal.description);
+              await flushCandidates(peer);
+              await peer.setLocalDescription(await peer.createAnswer());
+              sendSignal({ kind: "answer", description: peer.localDescription.toJSON() });
+              break;
+            }
+            case "answer":
+              if (peerRef.current) {
+                await peerRef.current.setRemoteDescription(signal.description);
+                await flushCandidates(peerRef.current);
+              }
+              break;
+            case "candidate":
+              if (peerRef.current?.remoteDescription) {
+                await peerRef.current.addIceCandidate(signal.candidate);
+              } else {
+                pendingCandidatesRef.current.push(signal.candidate);
+              }
+              break;
+            case "hangup":
+              resetPeer();
+              break;
+          }
+        } catch (err) {
+          console.error("Video call signalling error:", err);
+        }
+      }),
+    [onSignal, isCaller, createPeer, resetPeer, sendSignal]
+  );
+
+  // The other side closed the page without hanging up
+  useEffect(() => {
+    if (!peerPresent && localStreamRef.current && peerRef.current?.remoteDescription) {
+      resetPeer();
+    }
+  }, [peerPresent, resetPeer]);
+
+  const join = async () => {
+    setError(null);
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+    } catch (err) {
+      console.error("Camera error:", err);
+      setError("Allow access to your camera and microphone to join the video call.");
+      return;
+    }
+
+    localStreamRef.current = stream;
+    setLocalStream(stream);
+    setMicOn(true);
+    setCameraOn(true);
+    createPeer();
+    setStatus("waiting");
+    sendSignal({ kind: "ready" });
+  };
+
+  const leave = useCallback(() => {
+    if (!localStreamRef.current) return;
+
+    sendSignal({ kind: "hangup" });
+    peerRef.current?.close();
+    peerRef.current = null;
+    localStreamRef.current.getTracks().forEach((track) => track.stop());
+    localStreamRef.current = null;
+    setLocalStream(null);
+    setRemoteStream(null);
+    setStatus("idle");
+  }, [sendSignal]);
+
+  // Hang up when the room is left
+  useEffect(() => leave, [leave]);
+
+  const toggleMic = () => {
+    const enabled = !micOn;
+    localStreamRef.current?.getAudioTracks().forEach((track) => (track.enabled = enabled));
+    setMicOn(enabled);
+  };
+
+  const toggleCamera = () => {
+    const enabled = !cameraOn;
+    localStreamRef.current?.getVideoTracks().forEach((track) => (track.enabled = enabled));
+    setCameraOn(enabled);
+  };
+
+  return {
+    status,
+    localStream,
+    remoteStream,
+    micOn,
+    cameraOn,
+    error,
+    join,
+    leave,
+    toggleMic,
+    toggleCamera,
+  };
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { consultChannelName } from "@/lib/consult";
+
+// WebRTC signalling between the two sides of the video call
+export type ConsultSignal =
+  | { kind: "ready" }
+  | { kind: "hangup" }
+  | { kind: "offer" | "answer"; description: RTCSessionDescriptionInit }
+  | { kind: "candidate"; candidate: RTCIceCandidateInit };
+
+type SignalListener = (signal: ConsultSignal) => void;
+
+// Joins the room's private channel: new chat messages refresh the
+// ["consult-messages", appointmentId] query, presence lists the users in the
+// room and broadcast carries the video call's signals.
+export function useConsultRoom(
+  appointmentId: string | undefined,
+  userId: string | undefined,
+  enabled = true
+) {
+  const queryClient = useQueryClient();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const listenersRef = useRef(new Set<SignalListener>());
+  const [connected, setConnected] = useState(false);
+  const [present, setPresent] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!enabled || !appointmentId || !userId) return;
+
+    const refreshMessages = () =>
+      queryClient.invalidateQueries({ queryKey: ["consult-messages", appointmentId] });
+
+    const channel = supabase
+      .channel(consultChannelName(appointmentId), {
+        config: { private: true, presence: { key: userId } },
+      })
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "consult_messages",
+          filter: `appointment_id=eq.${appointmentId}`,
+        },
+        refreshMessages
+      )
+      .on("broadcast", { event: "signal" }, ({ payload }) => {
+        listenersRef.current.forEach((listener) => listener(payload as ConsultSignal));
+      })
+      .on("presence", { event: "sync" }, () => {
+        setPresent(Object.keys(channel.presenceState()));
+      });
+
+    channel.subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        setConnected(true);
+        channel.track({ joined_at: new Date().toISOString() });
+        // After a reconnect, catch up on messages sent while we were away
+        refreshMessages();
+      } else {
+        setConnected(false);
+      }
+    });
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      setConnected(false);
+      setPresent([]);
+      supabase.removeChannel(channel);
+    };
+  }, [appointmentId, userId, enabled, queryClient]);
+
+  const sendSignal = useCallback((signal: ConsultSignal) => {
+    channelRef.current?.send({ type: "broadcast", event: "signal", payload: signal });
+  }, []);
+
+  // Returns a function that stops listening
+  const onSignal = useCallback((listener: SignalListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return {
+    connected,
+    peerPresent: present.some((key) => key !== userId),
+    sendSignal,
+    onSignal,
+  };
+}
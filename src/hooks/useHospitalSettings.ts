@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { getHospitalSettings, loadHospitalSettings } from "@/lib/hospitalSettings";
+
+// The hospital's time zone, locale and formats. Components that show dates,
+// times or prices call this so they re-render with the hospital's settings
+// once they have loaded.
+export function useHospitalSettings() {
+  const { data } = useQuery({
+    queryKey: ["hospital-settings"],
+    queryFn: loadHospitalSettings,
+    staleTime: Infinity,
+  });
+
+  return data ?? getHospitalSettings();
+}
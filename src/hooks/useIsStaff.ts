@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+// Whether the signed-in user is a doctor or an admin. Only decides what the
+// app offers; the database checks the role again for anything it allows.
+export function useIsStaff() {
+  const { user } = useAuth();
+
+  const { data = false } = useQuery({
+    queryKey: ["is-staff", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user?.id)
+        .in("role", ["doctor", "admin"]);
+
+      if (error) {
+        throw error;
+      }
+
+      return data.length > 0;
+    },
+    enabled: !!user,
+    staleTime: Infinity,
+  });
+
+  return data;
+}
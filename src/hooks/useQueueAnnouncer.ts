@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from "react";
+import { LanguageCode } from "@/hooks/useVoiceInput";
+
+interface Announcement {
+  tokenNumber: string;
+  destination: string;
+}
+
+// Spoken templates for each language in SUPPORTED_LANGUAGES
+const ANNOUNCEMENT_TEMPLATES: Record<
+  LanguageCode,
+  (token: string, destination: string) => string
+> = {
+  "en-IN": (token, destination) =>
+    `Token number ${token}, please proceed to ${destination}.`,
+  "en-US": (token, destination) =>
+    `Token number ${token}, please proceed to ${destination}.`,
+  "ta-IN": (token, destination) =>
+    `டோக்கன் எண் ${token}, தயவுசெய்து ${destination} செல்லவும்.`,
+  "te-IN": (token, destination) =>
+    `టోకెన్ నంబర్ ${token}, దయచేసి ${destination} వద్దకు వెళ్ళండి.`,
+  "kn-IN": (token, destination) =>
+    `ಟೋಕನ್ ಸಂಖ್ಯೆ ${token}, ದಯವಿಟ್ಟು ${destination} ಬಳಿ ಬನ್ನಿ.`,
+  "ml-IN": (token, destination) =>
+    `ടോക്കൺ നമ്പർ ${token}, ദയവായി ${destination} അടുത്തേക്ക് പോകുക.`,
+};
+
+// "CAR-014" is read as "car minus fourteen" otherwise
+const spellToken = (tokenNumber: string) =>
+  tokenNumber.replace(/-/g, " ").split("").join(" ").replace(/\s+/g, " ");
+
+export function useQueueAnnouncer(languages: LanguageCode[]) {
+  const [isSupported, setIsSupported] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    if (!("speechSynthesis" in window)) return;
+    setIsSupported(true);
+
+    const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener("voiceschanged", loadVoices);
+
+    return () => {
+      window.speechSynthesis.removeEventListener("voiceschanged", loadVoices);
+      window.speechSynthesis.cancel();
+    };
+  }, []);
+
+  const announce = useCallback(
+    ({ tokenNumber, destination }: Announcement) => {
+      if (!isSupported) return;
+
+      const spoken = spellToken(tokenNumber);
+
+      // Utterances queue up, so each language plays after the previous one
+      languages.forEach((lang) => {
+        const utterance = new SpeechSynthesisUtterance(
+          ANNOUNCEMENT_TEMPLATES[lang](spoken, destination)
+        );
+        utterance.lang = lang;
+        utterance.rate = 0.9;
+        const voice =
+          voices.find((v) => v.lang === lang) ||
+          voices.find((v) => v.lang.startsWith(lang.split("-")[0]));
+        if (voice) {
+          utterance.voice = voice;
+        }
+        window.speechSynthesis.speak(utterance);
+      });
+    },
+    [isSupported, languages, voices]
+  );
+
+  return { isSupported, announce };
+}
@@ -1,84 +1,39 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useMemo, useSyncExternalStore } from "react";
+import { getQueueStore, QueueSnapshot } from "@/lib/queueStore";
 
-interface QueueToken {
-  id: string;
-  token_number: string;
-  patient_id: string | null;
-  doctor_id: string | null;
-  department: string;
-  status: string;
-  estimated_wait_minutes: number;
-  position: number | null;
-  created_at: string;
-  patients?: { first_name: string; last_name: string } | null;
-  doctors?: { name: string; specialty: string } | null;
-}
-
-export function useRealtimeQueue() {
-  const [queue, setQueue] = useState<QueueToken[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    // Fetch initial queue
-    const fetchQueue = async () => {
-      const { data, error } = await supabase
-        .from("queue_tokens")
-        .select(`
-          *,
-          patients(first_name, last_name),
-          doctors(name, specialty)
-        `)
-        .neq("status", "completed")
-        .order("position", { ascending: true })
-        .order("created_at", { ascending: true });
-
-      if (error) {
-        console.error("Error fetching queue:", error);
-      } else {
-        setQueue(data || []);
-      }
-      setLoading(false);
-    };
+export type { QueueToken } from "@/lib/queueStore";
 
-    fetchQueue();
-
-    // Subscribe to realtime updates
-    const channel = supabase
-      .channel("queue-updates")
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "queue_tokens",
-        },
-        async (payload) => {
-          console.log("Queue update received:", payload);
-          
-          // Refetch the entire queue to ensure consistency
-          const { data } = await supabase
-            .from("queue_tokens")
-            .select(`
-              *,
-              patients(first_name, last_name),
-              doctors(name, specialty)
-            `)
-            .neq("status", "completed")
-            .order("position", { ascending: true })
-            .order("created_at", { ascending: true });
-
-          if (data) {
-            setQueue(data);
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
+interface UseRealtimeQueueOptions {
+  department?: string;
+  doctorId?: string;
+  statuses?: string[];
+  enabled?: boolean;
+}
 
-  return { queue, loading };
+// Stand-in while the caller isn't ready to subscribe yet
+const IDLE_SNAPSHOT: QueueSnapshot = { tokens: [], loading: true };
+const idleStore = {
+  subscribe: () => () => {},
+  getSnapshot: () => IDLE_SNAPSHOT,
+};
+
+export function useRealtimeQueue({
+  department,
+  doctorId,
+  statuses,
+  enabled = true,
+}: UseRealtimeQueueOptions = {}) {
+  const statusKey = statuses?.join(",");
+
+  const store = useMemo(
+    () =>
+      enabled
+        ? getQueueStore({ department, doctorId, statuses: statusKey?.split(",") })
+        : idleStore,
+    [department, doctorId, statusKey, enabled]
+  );
+
+  const { tokens, loading } = useSyncExternalStore(store.subscribe, store.getSnapshot);
+
+  return { queue: tokens, loading };
 }
@@ -14,44 +14,396 @@ export type Database = {
   }
   public: {
     Tables: {
+      appointment_reminders: {
+        Row: {
+          action_token: string
+          appointment_id: string
+          kind: string
+          responded_at: string | null
+          response: string | null
+          sent_at: string
+        }
+        Insert: {
+          action_token?: string
+          appointment_id: string
+          kind: string
+          responded_at?: string | null
+          response?: string | null
+          sent_at?: string
+        }
+        Update: {
+          action_token?: string
+          appointment_id?: string
+          kind?: string
+          responded_at?: string | null
+          response?: string | null
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reminders_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_reschedules: {
+        Row: {
+          appointment_id: string
+          created_at: string | null
+          from_date: string
+          from_time: string
+          id: string
+          reason: string | null
+          rescheduled_by: string | null
+          to_date: string
+          to_time: string
+        }
+        Insert: {
+          appointment_id: string
+          created_at?: string | null
+          from_date: string
+          from_time: string
+          id?: string
+          reason?: string | null
+          rescheduled_by?: string | null
+          to_date: string
+          to_time: string
+        }
+        Update: {
+          appointment_id?: string
+          created_at?: string | null
+          from_date?: string
+          from_time?: string
+          id?: string
+          reason?: string | null
+          rescheduled_by?: string | null
+          to_date?: string
+          to_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reschedules_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_series: {
+        Row: {
+          appointment_type_id: string | null
+          created_at: string | null
+          created_by: string | null
+          doctor_id: string
+          id: string
+          interval_weeks: number
+          notes: string | null
+          occurrences: number
+          patient_id: string
+          source_appointment_id: string | null
+        }
+        Insert: {
+          appointment_type_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          doctor_id: string
+          id?: string
+          interval_weeks?: number
+          notes?: string | null
+          occurrences: number
+          patient_id: string
+          source_appointment_id?: string | null
+        }
+        Update: {
+          appointment_type_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          doctor_id?: string
+          id?: string
+          interval_weeks?: number
+          notes?: string | null
+          occurrences?: number
+          patient_id?: string
+          source_appointment_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_series_appointment_type_id_fkey"
+            columns: ["appointment_type_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_series_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_series_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_series_source_appointment_id_fkey"
+            columns: ["source_appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_settings: {
+        Row: {
+          id: boolean
+          patient_cancellation_cutoff_hours: number
+          updated_at: string | null
+          waitlist_hold_minutes: number
+        }
+        Insert: {
+          id?: boolean
+          patient_cancellation_cutoff_hours?: number
+          updated_at?: string | null
+          waitlist_hold_minutes?: number
+        }
+        Update: {
+          id?: boolean
+          patient_cancellation_cutoff_hours?: number
+          updated_at?: string | null
+          waitlist_hold_minutes?: number
+        }
+        Relationships: []
+      }
+      appointment_slot_offers: {
+        Row: {
+          appointment_id: string | null
+          doctor_id: string
+          expires_at: string
+          id: string
+          offered_at: string
+          responded_at: string | null
+          slot_date: string
+          slot_time: string
+          status: string
+          waitlist_id: string
+        }
+        Insert: {
+          appointment_id?: string | null
+          doctor_id: string
+          expires_at: string
+          id?: string
+          offered_at?: string
+          responded_at?: string | null
+          slot_date: string
+          slot_time: string
+          status?: string
+          waitlist_id: string
+        }
+        Update: {
+          appointment_id?: string | null
+          doctor_id?: string
+          expires_at?: string
+          id?: string
+          offered_at?: string
+          responded_at?: string | null
+          slot_date?: string
+          slot_time?: string
+          status?: string
+          waitlist_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_slot_offers_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_slot_offers_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_slot_offers_waitlist_id_fkey"
+            columns: ["waitlist_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_waitlist"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_types: {
+        Row: {
+          created_at: string | null
+          doctor_id: string
+          duration_minutes: number
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+        }
+        Insert: {
+          created_at?: string | null
+          doctor_id: string
+          duration_minutes: number
+          id?: string
+          is_active?: boolean
+          kind: string
+          name: string
+        }
+        Update: {
+          created_at?: string | null
+          doctor_id?: string
+          duration_minutes?: number
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_types_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_waitlist: {
+        Row: {
+          created_at: string | null
+          doctor_id: string
+          from_date: string
+          id: string
+          notes: string | null
+          patient_id: string
+          status: string
+          to_date: string
+        }
+        Insert: {
+          created_at?: string | null
+          doctor_id: string
+          from_date: string
+          id?: string
+          notes?: string | null
+          patient_id: string
+          status?: string
+          to_date: string
+        }
+        Update: {
+          created_at?: string | null
+          doctor_id?: string
+          from_date?: string
+          id?: string
+          notes?: string | null
+          patient_id?: string
+          status?: string
+          to_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_waitlist_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_waitlist_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appointments: {
         Row: {
+          appointment_type_id: string | null
+          cancellation_note: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          checked_in_at: string | null
           created_at: string | null
           doctor_id: string | null
+          ends_at: string
           id: string
           notes: string | null
           patient_id: string | null
           scheduled_date: string
           scheduled_time: string
-          status: string | null
+          series_id: string | null
+          series_position: number | null
+          starts_at: string
+          status: string
           symptoms: string | null
           updated_at: string | null
         }
         Insert: {
+          appointment_type_id?: string | null
+          cancellation_note?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          checked_in_at?: string | null
           created_at?: string | null
           doctor_id?: string | null
+          ends_at: string
           id?: string
           notes?: string | null
           patient_id?: string | null
           scheduled_date: string
           scheduled_time: string
-          status?: string | null
+          series_id?: string | null
+          series_position?: number | null
+          starts_at: string
+          status?: string
           symptoms?: string | null
           updated_at?: string | null
         }
         Update: {
+          appointment_type_id?: string | null
+          cancellation_note?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          checked_in_at?: string | null
           created_at?: string | null
           doctor_id?: string | null
+          ends_at?: string
           id?: string
           notes?: string | null
           patient_id?: string | null
           scheduled_date?: string
           scheduled_time?: string
-          status?: string | null
+          series_id?: string | null
+          series_position?: number | null
+          starts_at?: string
+          status?: string
           symptoms?: string | null
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "appointments_appointment_type_id_fkey"
+            columns: ["appointment_type_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_types"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "appointments_doctor_id_fkey"
             columns: ["doctor_id"]
@@ -59,6 +411,13 @@ export type Database = {
             referencedRelation: "doctors"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "appointments_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_series"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "appointments_patient_id_fkey"
             columns: ["patient_id"]
@@ -68,6 +427,24 @@ export type Database = {
           },
         ]
       }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       chat_conversations: {
         Row: {
           created_at: string
@@ -135,79 +512,389 @@ export type Database = {
           },
         ]
       }
-      doctors: {
+      check_in_secret: {
         Row: {
-          available_slots: number | null
-          created_at: string | null
-          id: string
-          is_available: boolean | null
-          name: string
-          next_available: string | null
-          rating: number | null
-          specialty: string
-          user_id: string | null
+          id: boolean
+          secret: string
         }
         Insert: {
-          available_slots?: number | null
-          created_at?: string | null
-          id?: string
-          is_available?: boolean | null
-          name: string
-          next_available?: string | null
-          rating?: number | null
-          specialty: string
-          user_id?: string | null
+          id?: boolean
+          secret?: string
         }
         Update: {
-          available_slots?: number | null
-          created_at?: string | null
-          id?: string
-          is_available?: boolean | null
-          name?: string
-          next_available?: string | null
-          rating?: number | null
-          specialty?: string
-          user_id?: string | null
+          id?: boolean
+          secret?: string
         }
         Relationships: []
       }
-      medical_records: {
+      consult_messages: {
         Row: {
+          appointment_id: string
+          body: string | null
           created_at: string
-          description: string | null
-          file_name: string
-          file_size: number | null
-          file_url: string
           id: string
-          patient_id: string
-          record_date: string | null
-          record_type: string
-          title: string
-          uploaded_at: string
+          medical_record_id: string | null
+          sender_id: string | null
         }
         Insert: {
+          appointment_id: string
+          body?: string | null
           created_at?: string
-          description?: string | null
-          file_name: string
-          file_size?: number | null
-          file_url: string
           id?: string
-          patient_id: string
-          record_date?: string | null
-          record_type?: string
-          title: string
-          uploaded_at?: string
+          medical_record_id?: string | null
+          sender_id?: string | null
         }
         Update: {
+          appointment_id?: string
+          body?: string | null
           created_at?: string
-          description?: string | null
-          file_name?: string
-          file_size?: number | null
-          file_url?: string
           id?: string
-          patient_id?: string
-          record_date?: string | null
-          record_type?: string
+          medical_record_id?: string | null
+          sender_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consult_messages_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "consult_messages_medical_record_id_fkey"
+            columns: ["medical_record_id"]
+            isOneToOne: false
+            referencedRelation: "medical_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_consultation_stats: {
+        Row: {
+          avg_consult_minutes: number
+          doctor_id: string
+          sample_count: number
+          updated_at: string | null
+        }
+        Insert: {
+          avg_consult_minutes?: number
+          doctor_id: string
+          sample_count?: number
+          updated_at?: string | null
+        }
+        Update: {
+          avg_consult_minutes?: number
+          doctor_id?: string
+          sample_count?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_consultation_stats_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: true
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_leave: {
+        Row: {
+          created_at: string | null
+          doctor_id: string
+          end_date: string
+          id: string
+          reason: string | null
+          start_date: string
+        }
+        Insert: {
+          created_at?: string | null
+          doctor_id: string
+          end_date: string
+          id?: string
+          reason?: string | null
+          start_date: string
+        }
+        Update: {
+          created_at?: string | null
+          doctor_id?: string
+          end_date?: string
+          id?: string
+          reason?: string | null
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_leave_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_room_sessions: {
+        Row: {
+          doctor_id: string
+          ended_at: string | null
+          id: string
+          room_id: string
+          session_date: string
+          started_at: string
+        }
+        Insert: {
+          doctor_id: string
+          ended_at?: string | null
+          id?: string
+          room_id: string
+          session_date?: string
+          started_at?: string
+        }
+        Update: {
+          doctor_id?: string
+          ended_at?: string | null
+          id?: string
+          room_id?: string
+          session_date?: string
+          started_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_room_sessions_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "doctor_room_sessions_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_schedule_breaks: {
+        Row: {
+          created_at: string | null
+          doctor_id: string
+          end_time: string
+          id: string
+          label: string | null
+          start_time: string
+          weekday: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          doctor_id: string
+          end_time: string
+          id?: string
+          label?: string | null
+          start_time: string
+          weekday?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          doctor_id?: string
+          end_time?: string
+          id?: string
+          label?: string | null
+          start_time?: string
+          weekday?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_schedule_breaks_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_schedule_overrides: {
+        Row: {
+          created_at: string | null
+          doctor_id: string
+          end_time: string
+          id: string
+          override_date: string
+          reason: string | null
+          slot_minutes: number
+          start_time: string
+        }
+        Insert: {
+          created_at?: string | null
+          doctor_id: string
+          end_time: string
+          id?: string
+          override_date: string
+          reason?: string | null
+          slot_minutes?: number
+          start_time: string
+        }
+        Update: {
+          created_at?: string | null
+          doctor_id?: string
+          end_time?: string
+          id?: string
+          override_date?: string
+          reason?: string | null
+          slot_minutes?: number
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_schedule_overrides_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_schedules: {
+        Row: {
+          created_at: string | null
+          doctor_id: string
+          end_time: string
+          id: string
+          slot_minutes: number
+          start_time: string
+          weekday: number
+        }
+        Insert: {
+          created_at?: string | null
+          doctor_id: string
+          end_time: string
+          id?: string
+          slot_minutes?: number
+          start_time: string
+          weekday: number
+        }
+        Update: {
+          created_at?: string | null
+          doctor_id?: string
+          end_time?: string
+          id?: string
+          slot_minutes?: number
+          start_time?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_schedules_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctors: {
+        Row: {
+          available_slots: number | null
+          created_at: string | null
+          id: string
+          is_available: boolean | null
+          name: string
+          next_available: string | null
+          rating: number | null
+          specialty: string
+          user_id: string | null
+        }
+        Insert: {
+          available_slots?: number | null
+          created_at?: string | null
+          id?: string
+          is_available?: boolean | null
+          name: string
+          next_available?: string | null
+          rating?: number | null
+          specialty: string
+          user_id?: string | null
+        }
+        Update: {
+          available_slots?: number | null
+          created_at?: string | null
+          id?: string
+          is_available?: boolean | null
+          name?: string
+          next_available?: string | null
+          rating?: number | null
+          specialty?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      hospital_settings: {
+        Row: {
+          currency: string
+          date_format: string
+          id: boolean
+          locale: string
+          time_format: string
+          timezone: string
+          updated_at: string | null
+        }
+        Insert: {
+          currency?: string
+          date_format?: string
+          id?: boolean
+          locale?: string
+          time_format?: string
+          timezone?: string
+          updated_at?: string | null
+        }
+        Update: {
+          currency?: string
+          date_format?: string
+          id?: boolean
+          locale?: string
+          time_format?: string
+          timezone?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      medical_records: {
+        Row: {
+          created_at: string
+          description: string | null
+          file_name: string
+          file_size: number | null
+          file_url: string
+          id: string
+          patient_id: string
+          record_date: string | null
+          record_type: string
+          title: string
+          uploaded_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          file_name: string
+          file_size?: number | null
+          file_url: string
+          id?: string
+          patient_id: string
+          record_date?: string | null
+          record_type?: string
+          title: string
+          uploaded_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          file_name?: string
+          file_size?: number | null
+          file_url?: string
+          id?: string
+          patient_id?: string
+          record_date?: string | null
+          record_type?: string
           title?: string
           uploaded_at?: string
         }
@@ -619,60 +1306,290 @@ export type Database = {
         }
         Relationships: []
       }
-      queue_tokens: {
+      queue_notifications: {
         Row: {
-          created_at: string | null
-          department: string
-          doctor_id: string | null
-          estimated_wait_minutes: number | null
-          id: string
-          patient_id: string | null
-          position: number | null
-          status: string | null
+          queued_at: string | null
+          sent_at: string | null
+          token_id: string
           token_number: string
-          updated_at: string | null
+          type: string
         }
         Insert: {
-          created_at?: string | null
-          department: string
-          doctor_id?: string | null
-          estimated_wait_minutes?: number | null
-          id?: string
-          patient_id?: string | null
-          position?: number | null
-          status?: string | null
+          queued_at?: string | null
+          sent_at?: string | null
+          token_id: string
           token_number: string
-          updated_at?: string | null
+          type: string
         }
         Update: {
-          created_at?: string | null
-          department?: string
-          doctor_id?: string | null
-          estimated_wait_minutes?: number | null
-          id?: string
-          patient_id?: string | null
-          position?: number | null
-          status?: string | null
+          queued_at?: string | null
+          sent_at?: string | null
+          token_id?: string
           token_number?: string
-          updated_at?: string | null
+          type?: string
         }
         Relationships: [
           {
-            foreignKeyName: "queue_tokens_doctor_id_fkey"
-            columns: ["doctor_id"]
+            foreignKeyName: "queue_notifications_token_id_fkey"
+            columns: ["token_id"]
             isOneToOne: false
-            referencedRelation: "doctors"
+            referencedRelation: "queue_tokens"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "queue_tokens_patient_id_fkey"
-            columns: ["patient_id"]
-            isOneToOne: false
+        ]
+      }
+      queue_settings: {
+        Row: {
+          check_in_code_minutes: number
+          check_in_late_minutes: number
+          check_in_opens_minutes: number
+          check_in_self_opens_minutes: number
+          id: boolean
+          recall_offset: number
+          session_end_time: string
+          skip_grace_minutes: number
+          upcoming_minutes: number
+          upcoming_position: number
+          updated_at: string | null
+        }
+        Insert: {
+          check_in_code_minutes?: number
+          check_in_late_minutes?: number
+          check_in_opens_minutes?: number
+          check_in_self_opens_minutes?: number
+          id?: boolean
+          recall_offset?: number
+          session_end_time?: string
+          skip_grace_minutes?: number
+          upcoming_minutes?: number
+          upcoming_position?: number
+          updated_at?: string | null
+        }
+        Update: {
+          check_in_code_minutes?: number
+          check_in_late_minutes?: number
+          check_in_opens_minutes?: number
+          check_in_self_opens_minutes?: number
+          id?: boolean
+          recall_offset?: number
+          session_end_time?: string
+          skip_grace_minutes?: number
+          upcoming_minutes?: number
+          upcoming_position?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      queue_token_counters: {
+        Row: {
+          department: string
+          last_number: number
+          token_date: string
+        }
+        Insert: {
+          department: string
+          last_number?: number
+          token_date?: string
+        }
+        Update: {
+          department?: string
+          last_number?: number
+          token_date?: string
+        }
+        Relationships: []
+      }
+      queue_token_transfers: {
+        Row: {
+          created_at: string | null
+          from_department: string
+          from_doctor_id: string | null
+          from_token_number: string
+          id: string
+          reason: string
+          to_department: string
+          to_doctor_id: string | null
+          to_token_number: string
+          token_id: string
+          transferred_by: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          from_department: string
+          from_doctor_id?: string | null
+          from_token_number: string
+          id?: string
+          reason: string
+          to_department: string
+          to_doctor_id?: string | null
+          to_token_number: string
+          token_id: string
+          transferred_by?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          from_department?: string
+          from_doctor_id?: string | null
+          from_token_number?: string
+          id?: string
+          reason?: string
+          to_department?: string
+          to_doctor_id?: string | null
+          to_token_number?: string
+          token_id?: string
+          transferred_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "queue_token_transfers_from_doctor_id_fkey"
+            columns: ["from_doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "queue_token_transfers_to_doctor_id_fkey"
+            columns: ["to_doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "queue_token_transfers_token_id_fkey"
+            columns: ["token_id"]
+            isOneToOne: false
+            referencedRelation: "queue_tokens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      queue_tokens: {
+        Row: {
+          appointment_id: string | null
+          called_at: string | null
+          completed_at: string | null
+          created_at: string | null
+          department: string
+          doctor_id: string | null
+          estimated_wait_minutes: number | null
+          id: string
+          patient_id: string | null
+          position: number | null
+          priority: string
+          priority_reason: string | null
+          queue_sort_at: string | null
+          queue_sort_override: string | null
+          room_id: string | null
+          skip_count: number
+          skipped_at: string | null
+          status: string | null
+          token_date: string
+          token_number: string
+          updated_at: string | null
+        }
+        Insert: {
+          appointment_id?: string | null
+          called_at?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          department: string
+          doctor_id?: string | null
+          estimated_wait_minutes?: number | null
+          id?: string
+          patient_id?: string | null
+          position?: number | null
+          priority?: string
+          priority_reason?: string | null
+          queue_sort_at?: string | null
+          queue_sort_override?: string | null
+          room_id?: string | null
+          skip_count?: number
+          skipped_at?: string | null
+          status?: string | null
+          token_date?: string
+          token_number: string
+          updated_at?: string | null
+        }
+        Update: {
+          appointment_id?: string | null
+          called_at?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          department?: string
+          doctor_id?: string | null
+          estimated_wait_minutes?: number | null
+          id?: string
+          patient_id?: string | null
+          position?: number | null
+          priority?: string
+          priority_reason?: string | null
+          queue_sort_at?: string | null
+          queue_sort_override?: string | null
+          room_id?: string | null
+          skip_count?: number
+          skipped_at?: string | null
+          status?: string | null
+          token_date?: string
+          token_number?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "queue_tokens_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "queue_tokens_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "queue_tokens_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
             referencedRelation: "patients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "queue_tokens_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      rooms: {
+        Row: {
+          created_at: string | null
+          department: string | null
+          id: string
+          is_active: boolean
+          location: string | null
+          name: string
+        }
+        Insert: {
+          created_at?: string | null
+          department?: string | null
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          name: string
+        }
+        Update: {
+          created_at?: string | null
+          department?: string | null
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          name?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           id: string
@@ -693,9 +1610,399 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      appointment_list: {
+        Row: {
+          appointment_kind: string | null
+          appointment_type_id: string | null
+          cancellation_note: string | null
+          cancellation_reason: string | null
+          doctor_id: string | null
+          doctor_name: string | null
+          doctor_specialty: string | null
+          ends_at: string | null
+          id: string | null
+          notes: string | null
+          patient_first_name: string | null
+          patient_id: string | null
+          patient_last_name: string | null
+          scheduled_date: string | null
+          scheduled_time: string | null
+          starts_at: string | null
+          status: string | null
+          symptoms: string | null
+        }
+        Relationships: []
+      }
+      appointment_calendar_events: {
+        Row: {
+          appointment_type: string | null
+          doctor_id: string | null
+          doctor_name: string | null
+          doctor_specialty: string | null
+          ends_at: string | null
+          id: string | null
+          patient_id: string | null
+          patient_name: string | null
+          sequence: number | null
+          starts_at: string | null
+          status: string | null
+          symptoms: string | null
+          updated_at: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_slot_offer: {
+        Args: { _offer_id: string }
+        Returns: {
+          appointment_type_id: string | null
+          cancellation_note: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          checked_in_at: string | null
+          created_at: string | null
+          doctor_id: string | null
+          ends_at: string
+          id: string
+          notes: string | null
+          patient_id: string | null
+          scheduled_date: string
+          scheduled_time: string
+          series_id: string | null
+          series_position: number | null
+          starts_at: string
+          status: string
+          symptoms: string | null
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      appointment_slot_minutes: {
+        Args: {
+          _appointment: Database["public"]["Tables"]["appointments"]["Row"]
+        }
+        Returns: number
+      }
+      appointment_starts_at: {
+        Args: {
+          _appointment: Database["public"]["Tables"]["appointments"]["Row"]
+        }
+        Returns: string
+      }
+      assign_doctor_room: {
+        Args: { _doctor_id?: string; _room_id: string }
+        Returns: {
+          doctor_id: string
+          ended_at: string | null
+          id: string
+          room_id: string
+          session_date: string
+          started_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "doctor_room_sessions"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      book_appointment: {
+        Args: {
+          _appointment_type_id?: string
+          _date: string
+          _doctor_id: string
+          _notes?: string
+          _patient_id?: string
+          _symptoms?: string
+          _time: string
+        }
+        Returns: {
+          appointment_type_id: string | null
+          cancellation_note: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          checked_in_at: string | null
+          created_at: string | null
+          doctor_id: string | null
+          ends_at: string
+          id: string
+          notes: string | null
+          patient_id: string | null
+          scheduled_date: string
+          scheduled_time: string
+          series_id: string | null
+          series_position: number | null
+          starts_at: string
+          status: string
+          symptoms: string | null
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      cancel_appointment: {
+        Args: { _appointment_id: string; _note?: string; _reason: string }
+        Returns: {
+          appointment_type_id: string | null
+          cancellation_note: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          checked_in_at: string | null
+          created_at: string | null
+          doctor_id: string | null
+          ends_at: string
+          id: string
+          notes: string | null
+          patient_id: string | null
+          scheduled_date: string
+          scheduled_time: string
+          series_id: string | null
+          series_position: number | null
+          starts_at: string
+          status: string
+          symptoms: string | null
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      cancel_doctor_day: {
+        Args: {
+          _date: string
+          _doctor_id: string
+          _note?: string
+          _reason?: string
+          _rebook_appointment_ids?: string[]
+        }
+        Returns: {
+          appointment_type_id: string | null
+          cancellation_note: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          checked_in_at: string | null
+          created_at: string | null
+          doctor_id: string | null
+          ends_at: string
+          id: string
+          notes: string | null
+          patient_id: string | null
+          scheduled_date: string
+          scheduled_time: string
+          series_id: string | null
+          series_position: number | null
+          starts_at: string
+          status: string
+          symptoms: string | null
+          updated_at: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      check_in_appointment: {
+        Args: { _appointment_id: string; _code?: string }
+        Returns: {
+          appointment_id: string | null
+          called_at: string | null
+          completed_at: string | null
+          created_at: string | null
+          department: string
+          doctor_id: string | null
+          estimated_wait_minutes: number | null
+          id: string
+          patient_id: string | null
+          position: number | null
+          priority: string
+          priority_reason: string | null
+          queue_sort_at: string | null
+          queue_sort_override: string | null
+          room_id: string | null
+          skip_count: number
+          skipped_at: string | null
+          status: string | null
+          token_date: string
+          token_number: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "queue_tokens"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      check_in_code: {
+        Args: { _at: string }
+        Returns: string
+      }
+      claim_queue_notification: {
+        Args: { _token_id: string; _type: string }
+        Returns: boolean
+      }
+      clinic_timestamp: {
+        Args: { _local: string }
+        Returns: string
+      }
+      close_queue_sessions: {
+        Args: never
+        Returns: number
+      }
+      consult_room_open: {
+        Args: { _appointment_id: string }
+        Returns: boolean
+      }
+      count_appointments: {
+        Args: {
+          _doctor_id?: string
+          _from?: string
+          _search?: string
+          _status?: string
+          _to?: string
+        }
+        Returns: {
+          confirmed: number
+          pending: number
+          today: number
+          total: number
+        }[]
+      }
+      current_check_in_code: {
+        Args: never
+        Returns: {
+          code: string
+          expires_at: string
+        }[]
+      }
+      current_doctor_room: {
+        Args: { _doctor_id: string }
+        Returns: string
+      }
+      decline_slot_offer: {
+        Args: { _offer_id: string }
+        Returns: undefined
+      }
+      department_token_prefix: {
+        Args: { _department: string }
+        Returns: string
+      }
+      doctor_consult_minutes: {
+        Args: { _doctor_id: string }
+        Returns: number
+      }
+      expire_slot_offers: {
+        Args: never
+        Returns: undefined
+      }
+      filter_appointments: {
+        Args: {
+          _doctor_id?: string
+          _from?: string
+          _search?: string
+          _status?: string
+          _to?: string
+        }
+        Returns: {
+          appointment_kind: string | null
+          appointment_type_id: string | null
+          cancellation_note: string | null
+          cancellation_reason: string | null
+          doctor_id: string | null
+          doctor_name: string | null
+          doctor_specialty: string | null
+          ends_at: string | null
+          id: string | null
+          notes: string | null
+          patient_first_name: string | null
+          patient_id: string | null
+          patient_last_name: string | null
+          scheduled_date: string | null
+          scheduled_time: string | null
+          starts_at: string | null
+          status: string | null
+          symptoms: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "appointment_list"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_calendar_feed: {
+        Args: { _token: string }
+        Returns: {
+          appointment_type: string | null
+          doctor_id: string | null
+          doctor_name: string | null
+          doctor_specialty: string | null
+          ends_at: string | null
+          id: string | null
+          patient_id: string | null
+          patient_name: string | null
+          sequence: number | null
+          starts_at: string | null
+          status: string | null
+          symptoms: string | null
+          updated_at: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "appointment_calendar_events"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_calendar_feed_token: {
+        Args: { _regenerate?: boolean }
+        Returns: string
+      }
+      get_doctor_slots: {
+        Args: {
+          _appointment_type_id?: string
+          _doctor_id: string
+          _from: string
+          _ignore_appointment_id?: string
+          _to: string
+        }
+        Returns: {
+          available: boolean
+          ends_at: string
+          slot_date: string
+          slot_time: string
+          starts_at: string
+        }[]
+      }
+      get_reminder_appointment: {
+        Args: { _token: string }
+        Returns: {
+          doctor_name: string
+          doctor_specialty: string
+          scheduled_date: string
+          scheduled_time: string
+          status: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -703,6 +2010,430 @@ export type Database = {
         }
         Returns: boolean
       }
+      hospital_now: {
+        Args: never
+        Returns: string
+      }
+      hospital_timezone: {
+        Args: never
+        Returns: string
+      }
+      hospital_today: {
+        Args: never
+        Returns: string
+      }
+      invoke_edge_function: {
+        Args: { _body: Json; _name: string }
+        Returns: undefined
+      }
+      is_consult_participant: {
+        Args: { _appointment_id: string }
+        Returns: boolean
+      }
+      is_teleconsult: {
+        Args: {
+          _appointment: Database["public"]["Tables"]["appointments"]["Row"]
+        }
+        Returns: boolean
+      }
+      issue_queue_token: {
+        Args: {
+          _department?: string
+          _doctor_id?: string
+          _patient_id: string
+          _priority?: string
+          _priority_reason?: string
+        }
+        Returns: {
+          appointment_id: string | null
+          called_at: string | null
+          completed_at: string | null
+          created_at: string | null
+          department: string
+          doctor_id: string | null
+          estimated_wait_minutes: number | null
+          id: string
+          patient_id: string | null
+          position: number | null
+          priority: string
+          priority_reason: string | null
+          queue_sort_at: string | null
+          queue_sort_override: string | null
+          room_id: string | null
+          skip_count: number
+          skipped_at: string | null
+          status: string | null
+          token_date: string
+          token_number: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "queue_tokens"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      join_appointment_waitlist: {
+        Args: {
+          _doctor_id: string
+          _from: string
+          _notes?: string
+          _patient_id?: string
+          _to: string
+        }
+        Returns: {
+          created_at: string | null
+          doctor_id: string
+          from_date: string
+          id: string
+          notes: string | null
+          patient_id: string
+          status: string
+          to_date: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointment_waitlist"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      leave_appointment_waitlist: {
+        Args: { _entry_id: string }
+        Returns: undefined
+      }
+      next_queue_token_number: {
+        Args: { _department: string }
+        Returns: string
+      }
+      notify_upcoming_tokens: {
+        Args: { _department: string }
+        Returns: undefined
+      }
+      offer_waitlist_slot: {
+        Args: { _date: string; _doctor_id: string; _time: string }
+        Returns: undefined
+      }
+      patient_can_cancel: {
+        Args: {
+          _appointment: Database["public"]["Tables"]["appointments"]["Row"]
+        }
+        Returns: boolean
+      }
+      queue_analytics: {
+        Args: {
+          _department?: string
+          _doctor_id?: string
+          _from: string
+          _to: string
+        }
+        Returns: {
+          appointments_booked: number
+          appointments_cancelled: number
+          appointments_completed: number
+          avg_consult_minutes: number
+          day: string
+          department: string
+          doctor_id: string
+          doctor_name: string
+          grain: string
+          median_consult_minutes: number
+          median_wait_minutes: number
+          no_show_rate: number
+          no_shows: number
+          p90_wait_minutes: number
+          tokens_completed: number
+          tokens_issued: number
+        }[]
+      }
+      queue_hourly_load: {
+        Args: {
+          _department?: string
+          _doctor_id?: string
+          _from: string
+          _to: string
+        }
+        Returns: {
+          appointments_booked: number
+          avg_tokens_per_day: number
+          hour: number
+          tokens_issued: number
+        }[]
+      }
+      queue_priority_credit: {
+        Args: { _priority: string }
+        Returns: string
+      }
+      queue_sort_at_offset: {
+        Args: {
+          _department: string
+          _doctor_id: string
+          _exclude_id?: string
+          _offset: number
+        }
+        Returns: string
+      }
+      recall_queue_token: {
+        Args: { _offset?: number; _token_id: string }
+        Returns: {
+          appointment_id: string | null
+          called_at: string | null
+          completed_at: string | null
+          created_at: string | null
+          department: string
+          doctor_id: string | null
+          estimated_wait_minutes: number | null
+          id: string
+          patient_id: string | null
+          position: number | null
+          priority: string
+          priority_reason: string | null
+          queue_sort_at: string | null
+          queue_sort_override: string | null
+          room_id: string | null
+          skip_count: number
+          skipped_at: string | null
+          status: string | null
+          token_date: string
+          token_number: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "queue_tokens"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      recompute_queue_estimates: {
+        Args: { _department: string }
+        Returns: undefined
+      }
+      reschedule_appointment: {
+        Args: {
+          _appointment_id: string
+          _date: string
+          _reason?: string
+          _time: string
+        }
+        Returns: {
+          appointment_type_id: string | null
+          cancellation_note: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          checked_in_at: string | null
+          created_at: string | null
+          doctor_id: string | null
+          ends_at: string
+          id: string
+          notes: string | null
+          patient_id: string | null
+          scheduled_date: string
+          scheduled_time: string
+          series_id: string | null
+          series_position: number | null
+          starts_at: string
+          status: string
+          symptoms: string | null
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      resolve_appointment_type: {
+        Args: { _appointment_type_id: string; _doctor_id: string }
+        Returns: {
+          created_at: string | null
+          doctor_id: string
+          duration_minutes: number
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointment_types"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      resolve_bookable_slot: {
+        Args: {
+          _appointment_type_id?: string
+          _date: string
+          _doctor_id: string
+          _ignore_appointment_id?: string
+          _time: string
+        }
+        Returns: string
+      }
+      respond_to_appointment_reminder: {
+        Args: { _action: string; _token: string }
+        Returns: string
+      }
+      schedule_appointment_series: {
+        Args: {
+          _appointment_id: string
+          _appointment_type_id?: string
+          _first_date: string
+          _interval_weeks?: number
+          _notes?: string
+          _occurrences?: number
+          _time: string
+        }
+        Returns: {
+          appointment_type_id: string | null
+          cancellation_note: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          checked_in_at: string | null
+          created_at: string | null
+          doctor_id: string | null
+          ends_at: string
+          id: string
+          notes: string | null
+          patient_id: string | null
+          scheduled_date: string
+          scheduled_time: string
+          series_id: string | null
+          series_position: number | null
+          starts_at: string
+          status: string
+          symptoms: string | null
+          updated_at: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      search_appointments: {
+        Args: {
+          _after_id?: string
+          _after_starts_at?: string
+          _descending?: boolean
+          _doctor_id?: string
+          _from?: string
+          _limit?: number
+          _search?: string
+          _status?: string
+          _to?: string
+        }
+        Returns: {
+          appointment_kind: string | null
+          appointment_type_id: string | null
+          cancellation_note: string | null
+          cancellation_reason: string | null
+          doctor_id: string | null
+          doctor_name: string | null
+          doctor_specialty: string | null
+          ends_at: string | null
+          id: string | null
+          notes: string | null
+          patient_first_name: string | null
+          patient_id: string | null
+          patient_last_name: string | null
+          scheduled_date: string | null
+          scheduled_time: string | null
+          starts_at: string | null
+          status: string | null
+          symptoms: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "appointment_list"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      send_appointment_reminders: {
+        Args: never
+        Returns: undefined
+      }
+      shift_appointments_timezone: {
+        Args: { _from: string; _to: string }
+        Returns: undefined
+      }
+      skip_queue_token: {
+        Args: { _token_id: string }
+        Returns: {
+          appointment_id: string | null
+          called_at: string | null
+          completed_at: string | null
+          created_at: string | null
+          department: string
+          doctor_id: string | null
+          estimated_wait_minutes: number | null
+          id: string
+          patient_id: string | null
+          position: number | null
+          priority: string
+          priority_reason: string | null
+          queue_sort_at: string | null
+          queue_sort_override: string | null
+          room_id: string | null
+          skip_count: number
+          skipped_at: string | null
+          status: string | null
+          token_date: string
+          token_number: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "queue_tokens"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      transfer_queue_token: {
+        Args: {
+          _position?: number
+          _reason: string
+          _to_department?: string
+          _to_doctor_id?: string
+          _token_id: string
+        }
+        Returns: {
+          appointment_id: string | null
+          called_at: string | null
+          completed_at: string | null
+          created_at: string | null
+          department: string
+          doctor_id: string | null
+          estimated_wait_minutes: number | null
+          id: string
+          patient_id: string | null
+          position: number | null
+          priority: string
+          priority_reason: string | null
+          queue_sort_at: string | null
+          queue_sort_override: string | null
+          room_id: string | null
+          skip_count: number
+          skipped_at: string | null
+          status: string | null
+          token_date: string
+          token_number: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "queue_tokens"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
     }
     Enums: {
       app_role: "admin" | "doctor" | "patient"
@@ -0,0 +1,45 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type AppointmentNotificationType = "confirmation" | "reminder" | "cancelled" | "rescheduled";
+
+interface AppointmentNotificationAppointment {
+  patient_id: string | null;
+  doctor_id: string | null;
+  scheduled_date: string;
+  scheduled_time: string;
+  // Shown in "cancelled" emails
+  cancellation_reason?: string | null;
+  cancellation_note?: string | null;
+}
+
+export async function sendAppointmentNotification(
+  appointment: AppointmentNotificationAppointment,
+  type: AppointmentNotificationType,
+  previous?: { date: string; time: string }
+) {
+  try {
+    const { data, error } = await supabase.functions.invoke("send-appointment-notification", {
+      body: {
+        patientId: appointment.patient_id,
+        doctorId: appointment.doctor_id,
+        date: appointment.scheduled_date,
+        time: appointment.scheduled_time,
+        type,
+        previousDate: previous?.date,
+        previousTime: previous?.time,
+        cancellationReason: appointment.cancellation_reason ?? undefined,
+        cancellationNote: appointment.cancellation_note ?? undefined,
+      },
+    });
+
+    if (error) {
+      console.error("Failed to send appointment notification:", error);
+      return { success: false, error };
+    }
+
+    return { success: true, data };
+  } catch (err) {
+    console.error("Error sending appointment notification:", err);
+    return { success: false, error: err };
+  }
+}
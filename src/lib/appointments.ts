@@ -0,0 +1,317 @@
+import { addWeeks, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  AppointmentStatus,
+  APPOINTMENT_STATUS_LABELS,
+  appointmentStatusLabel,
+  canTransitionAppointment,
+} from "@shared/appointmentStatus";
+import type { CancellationReason } from "@shared/cancellationReasons";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppointmentReschedule = Database["public"]["Tables"]["appointment_reschedules"]["Row"];
+export type AppointmentListRow = Database["public"]["Views"]["appointment_list"]["Row"];
+
+export interface BookAppointmentInput {
+  doctorId: string;
+  date: string;
+  time: string;
+  // Defaults to the doctor's default type
+  appointmentTypeId?: string;
+  symptoms?: string;
+  notes?: string;
+}
+
+// Error code the booking function raises when someone else took the slot first
+export const SLOT_TAKEN_ERROR = "23505";
+
+// Reserves the slot through the book_appointment database function, which
+// checks it against the doctor's schedule and rejects past slots and ones
+// overlapping another booking. Errors carry a message that can be shown to
+// the patient as is.
+export async function bookAppointment(input: BookAppointmentInput) {
+  const { data, error } = await supabase.rpc("book_appointment", {
+    _doctor_id: input.doctorId,
+    _date: input.date,
+    _time: input.time,
+    _symptoms: input.symptoms,
+    _notes: input.notes,
+    _appointment_type_id: input.appointmentTypeId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// Moves the appointment to another free slot with the same doctor through the
+// reschedule_appointment database function. The appointment keeps its id,
+// symptoms, notes and status; the earlier time is kept in
+// appointment_reschedules.
+export async function rescheduleAppointment(
+  appointmentId: string,
+  date: string,
+  time: string,
+  reason?: string
+) {
+  const { data, error } = await supabase.rpc("reschedule_appointment", {
+    _appointment_id: appointmentId,
+    _date: date,
+    _time: time,
+    _reason: reason,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+export interface AppointmentSeriesInput {
+  // The visit the follow-ups come after
+  appointmentId: string;
+  firstDate: string;
+  time: string;
+  // Weeks between visits; not used for a single follow-up
+  intervalWeeks?: number;
+  occurrences?: number;
+  // Defaults to the doctor's follow-up type
+  appointmentTypeId?: string;
+  notes?: string;
+}
+
+// Dates of the visits in a series, the first on firstDate and each following
+// one intervalWeeks later
+export function seriesDates(firstDate: string, intervalWeeks: number, occurrences: number) {
+  const first = new Date(`${firstDate}T00:00:00`);
+  return Array.from({ length: occurrences }, (_, i) =>
+    format(addWeeks(first, i * intervalWeeks), "yyyy-MM-dd")
+  );
+}
+
+// Books a follow-up or a recurring series for the patient of an appointment
+// through the schedule_appointment_series database function. Each visit is
+// checked like any other booking; if one of them can't be booked none are,
+// and the error names the visit that failed.
+export async function scheduleAppointmentSeries(input: AppointmentSeriesInput) {
+  const { data, error } = await supabase.rpc("schedule_appointment_series", {
+    _appointment_id: input.appointmentId,
+    _first_date: input.firstDate,
+    _time: input.time,
+    _interval_weeks: input.intervalWeeks,
+    _occurrences: input.occurrences,
+    _appointment_type_id: input.appointmentTypeId,
+    _notes: input.notes,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+// Earlier times of an appointment, oldest first
+export async function fetchAppointmentReschedules(appointmentId: string) {
+  const { data, error } = await supabase
+    .from("appointment_reschedules")
+    .select("*")
+    .eq("appointment_id", appointmentId)
+    .order("created_at");
+
+  if (error) {
+    throw error;
+  }
+
+  return data as AppointmentReschedule[];
+}
+
+// Moves an appointment to a new status. Transitions the lifecycle doesn't
+// allow are refused here and, should the row have changed underneath us, by
+// the database trigger as well.
+export async function updateAppointmentStatus(
+  appointment: { id: string; status: string | null },
+  status: AppointmentStatus
+) {
+  if (!canTransitionAppointment(appointment.status, status)) {
+    throw new Error(
+      `Cannot change a ${appointmentStatusLabel(appointment.status).toLowerCase()} appointment to ${APPOINTMENT_STATUS_LABELS[status].toLowerCase()}`
+    );
+  }
+
+  const { error } = await supabase
+    .from("appointments")
+    .update({ status })
+    .eq("id", appointment.id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Cancels an appointment with a reason through the cancel_appointment
+// database function. Patients may only cancel until the cutoff in
+// appointment_settings; after that the error asks them to call the hospital.
+export async function cancelAppointment(
+  appointmentId: string,
+  reason: CancellationReason,
+  note?: string
+) {
+  const { data, error } = await supabase.rpc("cancel_appointment", {
+    _appointment_id: appointmentId,
+    _reason: reason,
+    _note: note,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// Takes a doctor's day off and cancels every active appointment on it through
+// the cancel_doctor_day database function, which also emails the patients.
+// Those in rebookAppointmentIds are put on the waitlist and offered the
+// doctor's next free slots.
+export async function cancelDoctorDay(
+  doctorId: string,
+  date: string,
+  reason: CancellationReason,
+  note?: string,
+  rebookAppointmentIds: string[] = []
+) {
+  const { data, error } = await supabase.rpc("cancel_doctor_day", {
+    _doctor_id: doctorId,
+    _date: date,
+    _reason: reason,
+    _note: note,
+    _rebook_appointment_ids: rebookAppointmentIds,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+// Hours before the start after which patients can no longer cancel online
+export async function fetchCancellationCutoffHours() {
+  const { data, error } = await supabase
+    .from("appointment_settings")
+    .select("patient_cancellation_cutoff_hours")
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.patient_cancellation_cutoff_hours ?? null;
+}
+
+// Actions offered by the links in appointment reminder emails
+export type ReminderAction = "confirm" | "cancel";
+
+// The appointment a reminder link points at. The token from the link is the
+// only credential, so this works without signing in.
+export async function fetchReminderAppointment(token: string) {
+  const { data, error } = await supabase.rpc("get_reminder_appointment", { _token: token });
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.[0] ?? null;
+}
+
+// Confirms or cancels the appointment behind a reminder link and returns its
+// new status
+export async function respondToReminder(token: string, action: ReminderAction) {
+  const { data, error } = await supabase.rpc("respond_to_appointment_reminder", {
+    _token: token,
+    _action: action,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// Filters of the appointments list; any left out are not applied. search
+// matches part of the patient's or the doctor's name.
+export interface AppointmentListFilters {
+  search?: string;
+  status?: AppointmentStatus;
+  doctorId?: string;
+  from?: string;
+  to?: string;
+  // Latest first instead of soonest first
+  descending?: boolean;
+}
+
+// Where the next page starts: the last row of the previous one
+export interface AppointmentListCursor {
+  startsAt: string;
+  id: string;
+}
+
+export const APPOINTMENT_PAGE_SIZE = 25;
+
+// One page of the appointments visible to the user, filtered and ordered by
+// the search_appointments database function. nextCursor is null on the last
+// page.
+export async function fetchAppointmentPage(
+  filters: AppointmentListFilters,
+  cursor?: AppointmentListCursor | null,
+  limit = APPOINTMENT_PAGE_SIZE
+) {
+  const { data, error } = await supabase.rpc("search_appointments", {
+    _search: filters.search,
+    _status: filters.status,
+    _doctor_id: filters.doctorId,
+    _from: filters.from,
+    _to: filters.to,
+    _descending: filters.descending,
+    _after_starts_at: cursor?.startsAt,
+    _after_id: cursor?.id,
+    _limit: limit,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = data || [];
+  const last = rows[rows.length - 1];
+
+  return {
+    rows,
+    nextCursor:
+      rows.length === limit && last?.starts_at && last.id
+        ? { startsAt: last.starts_at, id: last.id }
+        : null,
+  };
+}
+
+// Totals for the same filters. pending and confirmed ignore the status filter.
+export async function fetchAppointmentCounts(filters: AppointmentListFilters) {
+  const { data, error } = await supabase.rpc("count_appointments", {
+    _search: filters.search,
+    _status: filters.status,
+    _doctor_id: filters.doctorId,
+    _from: filters.from,
+    _to: filters.to,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.[0] ?? { total: 0, today: 0, pending: 0, confirmed: 0 };
+}
@@ -0,0 +1,40 @@
+import { supabase } from "@/integrations/supabase/client";
+import { appointmentCalendarEvent, buildCalendar } from "@shared/icalendar";
+
+const CALENDAR_FEED_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+// Saves a single appointment as an .ics file the patient can open in their
+// calendar app
+export async function downloadAppointmentIcs(appointmentId: string) {
+  const { data, error } = await supabase
+    .from("appointment_calendar_events")
+    .select("*")
+    .eq("id", appointmentId)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const ics = buildCalendar([appointmentCalendarEvent(data, "patient")]);
+  const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `appointment-${data.starts_at?.slice(0, 10) ?? appointmentId}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// The signed-in user's subscription URL. Regenerating replaces the token, so
+// calendars subscribed to the old URL stop receiving updates.
+export async function fetchCalendarFeedUrl(regenerate = false) {
+  const { data, error } = await supabase.rpc("get_calendar_feed_token", {
+    _regenerate: regenerate,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return `${CALENDAR_FEED_URL}?token=${data}`;
+}
@@ -0,0 +1,78 @@
+import { supabase } from "@/integrations/supabase/client";
+import { loadHospitalSettings, todayAtHospital } from "@/lib/hospitalSettings";
+import { TELECONSULT_KIND } from "@/lib/consult";
+import { ACTIVE_APPOINTMENT_STATUSES } from "@shared/appointmentStatus";
+
+// Self-service check-in page, linked from the QR code in the lobby
+export const CHECK_IN_PATH = "/check-in";
+
+// Query parameter carrying the lobby's check-in code, which patients need to
+// check themselves in. It changes every few minutes.
+export const CHECK_IN_CODE_PARAM = "code";
+
+export type CheckInAppointment = Awaited<ReturnType<typeof fetchCheckInAppointments>>[number];
+
+// Today's active appointments held at the hospital, soonest first, with the
+// queue token of those already checked in. Without a patient this is every
+// appointment the user may see, as reception does.
+export async function fetchCheckInAppointments(patientId?: string) {
+  await loadHospitalSettings();
+
+  let query = supabase
+    .from("appointments")
+    .select(`
+      id,
+      scheduled_time,
+      starts_at,
+      status,
+      checked_in_at,
+      patients (first_name, last_name),
+      doctors (name, specialty),
+      appointment_types (kind),
+      queue_tokens (token_number, status, estimated_wait_minutes)
+    `)
+    .eq("scheduled_date", todayAtHospital())
+    .in("status", [...ACTIVE_APPOINTMENT_STATUSES]);
+
+  if (patientId) {
+    query = query.eq("patient_id", patientId);
+  }
+
+  const { data, error } = await query.order("starts_at");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).filter((apt) => apt.appointment_types?.kind !== TELECONSULT_KIND);
+}
+
+// The lobby's current check-in code and when it changes. Only staff may fetch
+// it, so the screen showing the QR code must be signed in as staff.
+export async function fetchCheckInCode() {
+  const { data, error } = await supabase.rpc("current_check_in_code");
+
+  if (error) {
+    throw error;
+  }
+
+  return data[0];
+}
+
+// Turns a confirmed appointment of today into a queue token through the
+// check_in_appointment database function. Patients who check in on time are
+// placed in line at their appointment time rather than at the back; checking
+// in twice returns the same token. Patients checking themselves in pass the
+// code from the lobby QR; reception checks in without one.
+export async function checkInAppointment(appointmentId: string, code?: string) {
+  const { data, error } = await supabase.rpc("check_in_appointment", {
+    _appointment_id: appointmentId,
+    _code: code,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
@@ -0,0 +1,122 @@
+import { supabase } from "@/integrations/supabase/client";
+import { isActiveAppointmentStatus } from "@shared/appointmentStatus";
+
+export const TELECONSULT_KIND = "teleconsult";
+
+// The room opens this long before the start and stays open this long after
+// the end. Keep in step with the consult_room_open database function.
+export const CONSULT_ROOM_OPENS_MINUTES_BEFORE = 15;
+export const CONSULT_ROOM_CLOSES_MINUTES_AFTER = 30;
+
+// Public STUN server used to find a direct route between the two browsers
+export const CONSULT_ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+
+export type ConsultAppointment = NonNullable<Awaited<ReturnType<typeof fetchConsultAppointment>>>;
+export type ConsultMessage = Awaited<ReturnType<typeof fetchConsultMessages>>[number];
+
+interface ConsultWindowAppointment {
+  status: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+}
+
+// Private Realtime channel of the room; only the appointment's patient and
+// doctor may join it
+export function consultChannelName(appointmentId: string) {
+  return `consult:${appointmentId}`;
+}
+
+export function consultRoomWindow(appointment: ConsultWindowAppointment) {
+  if (!appointment.starts_at || !appointment.ends_at) return null;
+
+  return {
+    opensAt: new Date(
+      new Date(appointment.starts_at).getTime() - CONSULT_ROOM_OPENS_MINUTES_BEFORE * 60000
+    ),
+    closesAt: new Date(
+      new Date(appointment.ends_at).getTime() + CONSULT_ROOM_CLOSES_MINUTES_AFTER * 60000
+    ),
+  };
+}
+
+// Whether the room of an active teleconsult is open at the given time
+export function isConsultRoomOpen(appointment: ConsultWindowAppointment, now = new Date()) {
+  const roomWindow = consultRoomWindow(appointment);
+  return (
+    !!roomWindow &&
+    isActiveAppointmentStatus(appointment.status) &&
+    now >= roomWindow.opensAt &&
+    now <= roomWindow.closesAt
+  );
+}
+
+// The teleconsult with its patient and doctor, or null when it isn't one the
+// current user can see
+export async function fetchConsultAppointment(appointmentId: string) {
+  const { data, error } = await supabase
+    .from("appointments")
+    .select(`
+      *,
+      patients (id, first_name, last_name, user_id),
+      doctors (id, name, specialty, user_id),
+      appointment_types (kind, name)
+    `)
+    .eq("id", appointmentId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// The room's chat, oldest first, with any shared records
+export async function fetchConsultMessages(appointmentId: string) {
+  const { data, error } = await supabase
+    .from("consult_messages")
+    .select("*, medical_records (id, title, file_name, file_url)")
+    .eq("appointment_id", appointmentId)
+    .order("created_at");
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+export async function sendConsultMessage(appointmentId: string, body: string) {
+  const { error } = await supabase
+    .from("consult_messages")
+    .insert({ appointment_id: appointmentId, body });
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Shares one of the patient's medical records into the room, which lets the
+// doctor open its file
+export async function shareMedicalRecord(appointmentId: string, medicalRecordId: string) {
+  const { error } = await supabase
+    .from("consult_messages")
+    .insert({ appointment_id: appointmentId, medical_record_id: medicalRecordId });
+
+  if (error) {
+    throw error;
+  }
+}
+
+// A short-lived link to the file of a record shared in the room
+export async function fetchSharedRecordUrl(fileUrl: string) {
+  const { data, error } = await supabase.storage
+    .from("medical-records")
+    .createSignedUrl(fileUrl, 3600);
+
+  if (error) {
+    throw error;
+  }
+
+  return data.signedUrl;
+}
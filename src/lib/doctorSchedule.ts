@@ -0,0 +1,195 @@
+import { addDays, startOfWeek } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { loadHospitalSettings, parseHospitalDate, todayAtHospital } from "@/lib/hospitalSettings";
+
+type Tables = Database["public"]["Tables"];
+
+export type DoctorSlot = Database["public"]["Functions"]["get_doctor_slots"]["Returns"][number];
+export type DoctorScheduleRow = Tables["doctor_schedules"]["Row"];
+export type DoctorBreakRow = Tables["doctor_schedule_breaks"]["Row"];
+export type DoctorOverrideRow = Tables["doctor_schedule_overrides"]["Row"];
+export type DoctorLeaveRow = Tables["doctor_leave"]["Row"];
+export type AppointmentTypeRow = Tables["appointment_types"]["Row"];
+export type DoctorCalendar = Awaited<ReturnType<typeof fetchDoctorCalendar>>;
+export type DoctorCalendarAppointment = DoctorCalendar["appointments"][number];
+
+export interface DoctorSlotOptions {
+  // Lays slots out by this type's duration instead of the doctor's default type
+  appointmentTypeId?: string;
+  // An appointment being moved, so it doesn't block slots overlapping itself
+  ignoreAppointmentId?: string;
+}
+
+// Index matches doctor_schedules.weekday (EXTRACT(DOW), Sunday = 0)
+export const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Slots come from the get_doctor_slots database function, which applies the
+// doctor's weekly hours, breaks, date overrides, leave and existing bookings.
+// Slots last as long as the appointment type being booked. The booking
+// calendar and the chatbot both read from it.
+export async function fetchDoctorSlots(
+  doctorId: string,
+  from: string,
+  to: string,
+  options: DoctorSlotOptions = {}
+) {
+  const { data, error } = await supabase.rpc("get_doctor_slots", {
+    _doctor_id: doctorId,
+    _from: from,
+    _to: to,
+    _appointment_type_id: options.appointmentTypeId,
+    _ignore_appointment_id: options.ignoreAppointmentId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+// The doctor's appointment types, default (consultation) first, then by
+// duration
+export async function fetchAppointmentTypes(doctorId: string, activeOnly = false) {
+  let query = supabase.from("appointment_types").select("*").eq("doctor_id", doctorId);
+
+  if (activeOnly) {
+    query = query.eq("is_active", true);
+  }
+
+  const { data, error } = await query.order("duration_minutes");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as AppointmentTypeRow[]).sort(
+    (a, b) => Number(b.kind === "consultation") - Number(a.kind === "consultation")
+  );
+}
+
+export async function fetchDoctorSchedule(doctorId: string) {
+  await loadHospitalSettings();
+  const today = todayAtHospital();
+
+  const [hours, breaks, overrides, leave, types] = await Promise.all([
+    supabase
+      .from("doctor_schedules")
+      .select("*")
+      .eq("doctor_id", doctorId)
+      .order("weekday")
+      .order("start_time"),
+    supabase
+      .from("doctor_schedule_breaks")
+      .select("*")
+      .eq("doctor_id", doctorId)
+      .order("start_time"),
+    supabase
+      .from("doctor_schedule_overrides")
+      .select("*")
+      .eq("doctor_id", doctorId)
+      .gte("override_date", today)
+      .order("override_date")
+      .order("start_time"),
+    supabase
+      .from("doctor_leave")
+      .select("*")
+      .eq("doctor_id", doctorId)
+      .gte("end_date", today)
+      .order("start_date"),
+    fetchAppointmentTypes(doctorId),
+  ]);
+
+  const error = hours.error || breaks.error || overrides.error || leave.error;
+  if (error) {
+    throw error;
+  }
+
+  return {
+    hours: hours.data as DoctorScheduleRow[],
+    breaks: breaks.data as DoctorBreakRow[],
+    overrides: overrides.data as DoctorOverrideRow[],
+    leave: leave.data as DoctorLeaveRow[],
+    types,
+  };
+}
+
+// Everything the doctor's calendar shows between two dates: appointments that
+// were kept (cancelled and superseded ones are left out), weekly hours, the
+// date overrides that replace them, breaks and leave
+export async function fetchDoctorCalendar(doctorId: string, from: string, to: string) {
+  const [appointments, hours, breaks, overrides, leave] = await Promise.all([
+    supabase
+      .from("appointments")
+      .select(`
+        id,
+        patient_id,
+        doctor_id,
+        appointment_type_id,
+        scheduled_date,
+        scheduled_time,
+        starts_at,
+        ends_at,
+        status,
+        symptoms,
+        patients (first_name, last_name),
+        appointment_types (name, kind)
+      `)
+      .eq("doctor_id", doctorId)
+      .gte("scheduled_date", from)
+      .lte("scheduled_date", to)
+      .not("status", "in", "(cancelled,rescheduled)")
+      .order("starts_at"),
+    supabase.from("doctor_schedules").select("*").eq("doctor_id", doctorId).order("start_time"),
+    supabase.from("doctor_schedule_breaks").select("*").eq("doctor_id", doctorId).order("start_time"),
+    supabase
+      .from("doctor_schedule_overrides")
+      .select("*")
+      .eq("doctor_id", doctorId)
+      .gte("override_date", from)
+      .lte("override_date", to)
+      .order("start_time"),
+    supabase
+      .from("doctor_leave")
+      .select("*")
+      .eq("doctor_id", doctorId)
+      .lte("start_date", to)
+      .gte("end_date", from),
+  ]);
+
+  const error = appointments.error || hours.error || breaks.error || overrides.error || leave.error;
+  if (error) {
+    throw error;
+  }
+
+  return {
+    appointments: appointments.data,
+    hours: hours.data as DoctorScheduleRow[],
+    breaks: breaks.data as DoctorBreakRow[],
+    overrides: overrides.data as DoctorOverrideRow[],
+    leave: leave.data as DoctorLeaveRow[],
+  };
+}
+
+// The Monday starting the week of a day, today at the hospital by default
+export const startOfScheduleWeek = (day = parseHospitalDate(todayAtHospital())) =>
+  startOfWeek(day, { weekStartsOn: 1 });
+
+export const scheduleWeekDays = (weekStart: Date) =>
+  Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+// "09:00:00" -> "09:00"
+export const formatScheduleTime = (time: string) => time.slice(0, 5);
+
+// "09:30:00" -> 570, minutes since midnight
+export const scheduleTimeToMinutes = (time: string) =>
+  parseInt(time.slice(0, 2)) * 60 + parseInt(time.slice(3, 5));
@@ -0,0 +1,72 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  DEFAULT_HOSPITAL_SETTINGS,
+  HospitalSettings,
+  formatMoney,
+  hospitalToday,
+  toHospitalTime,
+} from "@shared/hospitalTime";
+
+export type { HospitalSettings };
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// The settings in effect. The defaults apply until the row has loaded.
+let current: HospitalSettings = DEFAULT_HOSPITAL_SETTINGS;
+let loading: Promise<HospitalSettings> | null = null;
+
+export const getHospitalSettings = () => current;
+
+// Fetched once per page load; callers share the request. Should it fail, the
+// settings in effect are kept and the next call tries again.
+export function loadHospitalSettings() {
+  if (!loading) {
+    loading = (async () => {
+      const { data, error } = await supabase
+        .from("hospital_settings")
+        .select("timezone, locale, currency, date_format, time_format")
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      current = data ?? DEFAULT_HOSPITAL_SETTINGS;
+      return current;
+    })().catch((error) => {
+      console.error("Error fetching hospital settings:", error);
+      loading = null;
+      return current;
+    });
+  }
+
+  return loading;
+}
+
+// Today's date at the hospital as YYYY-MM-DD
+export const todayAtHospital = () => hospitalToday(current.timezone);
+
+// The hospital's wall clock now, for date-fns math and comparisons with
+// stored dates and slot times
+export const nowAtHospital = () => toHospitalTime(new Date(), current.timezone);
+
+// A stored YYYY-MM-DD date as a Date at local midnight, for date-fns
+export const parseHospitalDate = (date: string) => new Date(`${date}T00:00:00`);
+
+// Stored dates are taken as they are; instants move to the hospital's zone
+const toDisplayDate = (value: string | Date) =>
+  typeof value === "string" && DATE_ONLY.test(value)
+    ? parseHospitalDate(value)
+    : toHospitalTime(new Date(value), current.timezone);
+
+export const formatHospitalDate = (value: string | Date, pattern = current.date_format) =>
+  format(toDisplayDate(value), pattern);
+
+export const formatHospitalTime = (value: string | Date) =>
+  format(toDisplayDate(value), current.time_format);
+
+export const formatHospitalDateTime = (value: string | Date) =>
+  format(toDisplayDate(value), `${current.date_format} ${current.time_format}`);
+
+export const formatPrice = (amount: number) => formatMoney(amount, current);
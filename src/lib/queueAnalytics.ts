@@ -0,0 +1,79 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type Functions = Database["public"]["Functions"];
+
+export type QueueAnalyticsRow = Functions["queue_analytics"]["Returns"][number];
+export type QueueHourlyLoad = Functions["queue_hourly_load"]["Returns"][number];
+
+export interface QueueAnalyticsFilter {
+  from: string;
+  to: string;
+  department?: string | null;
+  doctorId?: string | null;
+}
+
+const toArgs = ({ from, to, department, doctorId }: QueueAnalyticsFilter) => ({
+  _from: from,
+  _to: to,
+  _department: department || undefined,
+  _doctor_id: doctorId || undefined,
+});
+
+export async function fetchQueueAnalytics(filter: QueueAnalyticsFilter) {
+  const { data, error } = await supabase.rpc("queue_analytics", toArgs(filter));
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchQueueHourlyLoad(filter: QueueAnalyticsFilter) {
+  const { data, error } = await supabase.rpc("queue_hourly_load", toArgs(filter));
+  if (error) throw error;
+  return data || [];
+}
+
+const CSV_COLUMNS: { key: keyof QueueAnalyticsRow; label: string }[] = [
+  { key: "day", label: "Date" },
+  { key: "department", label: "Department" },
+  { key: "doctor_name", label: "Doctor" },
+  { key: "tokens_issued", label: "Tokens Issued" },
+  { key: "tokens_completed", label: "Tokens Completed" },
+  { key: "no_shows", label: "No-shows" },
+  { key: "no_show_rate", label: "No-show Rate" },
+  { key: "median_wait_minutes", label: "Median Wait (min)" },
+  { key: "p90_wait_minutes", label: "P90 Wait (min)" },
+  { key: "avg_consult_minutes", label: "Avg Consultation (min)" },
+  { key: "median_consult_minutes", label: "Median Consultation (min)" },
+  { key: "appointments_booked", label: "Appointments Booked" },
+  { key: "appointments_completed", label: "Appointments Completed" },
+  { key: "appointments_cancelled", label: "Appointments Cancelled" },
+];
+
+const escapeCsv = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Per day/department/doctor rows only; day and total rows are derivable
+export function queueAnalyticsToCsv(rows: QueueAnalyticsRow[]) {
+  const lines = [CSV_COLUMNS.map((c) => c.label).join(",")];
+
+  rows
+    .filter((row) => row.grain === "doctor")
+    .forEach((row) => {
+      lines.push(CSV_COLUMNS.map((c) => escapeCsv(row[c.key])).join(","));
+    });
+
+  return lines.join("\n");
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
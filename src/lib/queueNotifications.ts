@@ -0,0 +1,35 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type QueueNotificationType = "called" | "upcoming" | "reminder" | "transferred";
+
+interface QueueNotificationToken {
+  id: string;
+  token_number: string;
+  patients?: { first_name: string; last_name: string } | null;
+}
+
+export async function sendQueueNotification(
+  token: QueueNotificationToken,
+  type: QueueNotificationType
+) {
+  try {
+    const { data, error } = await supabase.functions.invoke("send-queue-notification", {
+      body: {
+        tokenId: token.id,
+        patientName: `${token.patients?.first_name} ${token.patients?.last_name}`,
+        tokenNumber: token.token_number,
+        type,
+      },
+    });
+
+    if (error) {
+      console.error("Failed to send queue notification:", error);
+      return { success: false, error };
+    }
+
+    return { success: true, data };
+  } catch (err) {
+    console.error("Error sending queue notification:", err);
+    return { success: false, error: err };
+  }
+}
@@ -0,0 +1,60 @@
+export type QueuePriority = "routine" | "priority" | "urgent" | "emergency";
+
+export const QUEUE_PRIORITIES: {
+  value: QueuePriority;
+  label: string;
+  description: string;
+  className: string;
+}[] = [
+  {
+    value: "emergency",
+    label: "Emergency",
+    description: "Chest pain, breathing difficulty, severe bleeding",
+    className: "bg-destructive/10 text-destructive border-destructive/20",
+  },
+  {
+    value: "urgent",
+    label: "Urgent",
+    description: "Needs to be seen soon",
+    className: "bg-warning/10 text-warning border-warning/20",
+  },
+  {
+    value: "priority",
+    label: "Priority",
+    description: "Elderly, pregnant, disabled or with infants",
+    className: "bg-info/10 text-info border-info/20",
+  },
+  {
+    value: "routine",
+    label: "Routine",
+    description: "Standard walk-in",
+    className: "bg-muted text-muted-foreground",
+  },
+];
+
+export function getQueuePriority(value: string | null | undefined) {
+  return (
+    QUEUE_PRIORITIES.find((p) => p.value === value) ||
+    QUEUE_PRIORITIES[QUEUE_PRIORITIES.length - 1]
+  );
+}
+
+interface SortableToken {
+  queue_sort_at?: string | null;
+  created_at: string | null;
+}
+
+// queue_sort_at is kept by the set_queue_sort_at trigger as created_at minus
+// the triage credit (see queue_priority_credit), so sorting on it orders by
+// priority first and arrival second while still letting long waits age
+// upwards. A recalled or checked-in token's queue_sort_override takes its
+// place when set.
+export function compareQueueTokens(a: SortableToken, b: SortableToken) {
+  const aTime = new Date(a.queue_sort_at || a.created_at || 0).getTime();
+  const bTime = new Date(b.queue_sort_at || b.created_at || 0).getTime();
+  return aTime - bTime;
+}
+
+export function sortQueueTokens<T extends SortableToken>(tokens: T[]) {
+  return [...tokens].sort(compareQueueTokens);
+}
@@ -0,0 +1,249 @@
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { sortQueueTokens } from "@/lib/queuePriority";
+
+export interface QueueToken {
+  id: string;
+  token_number: string;
+  patient_id: string | null;
+  doctor_id: string | null;
+  department: string;
+  status: string;
+  estimated_wait_minutes: number;
+  position: number | null;
+  priority: string;
+  priority_reason: string | null;
+  queue_sort_at: string | null;
+  called_at: string | null;
+  room_id: string | null;
+  // Set for tokens issued by checking in an appointment
+  appointment_id: string | null;
+  skipped_at: string | null;
+  skip_count: number;
+  created_at: string;
+  updated_at: string | null;
+  patients?: { first_name: string; last_name: string; phone?: string | null } | null;
+  doctors?: { name: string; specialty: string } | null;
+  rooms?: { name: string; location: string | null } | null;
+}
+
+export interface QueueFilter {
+  department?: string;
+  doctorId?: string;
+  statuses?: string[];
+}
+
+export interface QueueSnapshot {
+  tokens: QueueToken[];
+  loading: boolean;
+}
+
+interface QueueStore {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => QueueSnapshot;
+}
+
+const QUEUE_SELECT = `
+  *,
+  patients(first_name, last_name, phone),
+  doctors(name, specialty),
+  rooms(name, location)
+`;
+
+export const ACTIVE_QUEUE_STATUSES = ["waiting", "next", "in-progress"];
+
+// One store (and one realtime channel) per distinct filter, shared by every
+// component looking at the same line
+const stores = new Map<string, QueueStore>();
+let channelCount = 0;
+
+function createQueueStore(key: string, filter: QueueFilter): QueueStore {
+  const { department, doctorId } = filter;
+  const statuses = filter.statuses ?? ACTIVE_QUEUE_STATUSES;
+  const listeners = new Set<() => void>();
+  let snapshot: QueueSnapshot = { tokens: [], loading: true };
+  let channel: RealtimeChannel | null = null;
+
+  const setTokens = (tokens: QueueToken[]) => {
+    snapshot = { tokens: sortQueueTokens(tokens), loading: false };
+    listeners.forEach((listener) => listener());
+  };
+
+  const matches = (token: QueueToken) =>
+    statuses.includes(token.status) &&
+    (!department || token.department === department) &&
+    (!doctorId || token.doctor_id === doctorId);
+
+  const remove = (tokenId: string) => {
+    if (snapshot.tokens.some((t) => t.id === tokenId)) {
+      setTokens(snapshot.tokens.filter((t) => t.id !== tokenId));
+    }
+  };
+
+  const resync = async () => {
+    let query = supabase.from("queue_tokens").select(QUEUE_SELECT).in("status", statuses);
+
+    if (department) {
+      query = query.eq("department", department);
+    }
+    if (doctorId) {
+      query = query.eq("doctor_id", doctorId);
+    }
+
+    const { data, error } = await query
+      .order("queue_sort_at", { ascending: true })
+      .order("position", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching queue:", error);
+      snapshot = { ...snapshot, loading: false };
+      listeners.forEach((listener) => listener());
+    } else {
+      setTokens(data || []);
+    }
+  };
+
+  const upsert = async (row: QueueToken) => {
+    if (!matches(row)) {
+      remove(row.id);
+      return;
+    }
+
+    // Payloads carry no joined patient/doctor/room, so only fetch the row
+    // when we haven't seen it yet or those links changed
+    const existing = snapshot.tokens.find((t) => t.id === row.id);
+    let token: QueueToken | null = null;
+
+    if (
+      existing &&
+      existing.patient_id === row.patient_id &&
+      existing.doctor_id === row.doctor_id &&
+      existing.room_id === row.room_id
+    ) {
+      token = {
+        ...existing,
+        ...row,
+        patients: existing.patients,
+        doctors: existing.doctors,
+        rooms: existing.rooms,
+      };
+    } else {
+      const { data } = await supabase
+        .from("queue_tokens")
+        .select(QUEUE_SELECT)
+        .eq("id", row.id)
+        .maybeSingle();
+      token = data;
+    }
+
+    if (!token || !matches(token)) {
+      remove(row.id);
+      return;
+    }
+
+    // A newer payload may have landed while the row was being fetched
+    const current = snapshot.tokens.find((t) => t.id === row.id);
+    if (current?.updated_at && token.updated_at && current.updated_at > token.updated_at) {
+      return;
+    }
+
+    setTokens([...snapshot.tokens.filter((t) => t.id !== row.id), token]);
+  };
+
+  const open = () => {
+    const tokenFilter = doctorId
+      ? `doctor_id=eq.${doctorId}`
+      : department
+        ? `department=eq.${department}`
+        : undefined;
+
+    channel = supabase
+      .channel(`queue-${doctorId || department || "all"}-${++channelCount}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "queue_tokens", filter: tokenFilter },
+        (payload) => upsert(payload.new as QueueToken)
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "queue_tokens", filter: tokenFilter },
+        (payload) => upsert(payload.new as QueueToken)
+      )
+      // Deletes can't be filtered server-side; unknown ids are ignored
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "queue_tokens" },
+        (payload) => remove((payload.old as { id: string }).id)
+      );
+
+    if (tokenFilter) {
+      // A token moved out of this line stops matching the filter above, so
+      // its final UPDATE never arrives here
+      channel = channel.on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "queue_token_transfers",
+          filter: doctorId
+            ? `from_doctor_id=eq.${doctorId}`
+            : `from_department=eq.${department}`,
+        },
+        (payload) => {
+          const transfer = payload.new as { token_id: string; to_department: string; to_doctor_id: string | null };
+          const stillHere = doctorId
+            ? transfer.to_doctor_id === doctorId
+            : transfer.to_department === department;
+          if (!stillHere) remove(transfer.token_id);
+        }
+      );
+    }
+
+    // The first SUBSCRIBED loads the queue. Any later one means the socket
+    // reconnected and may have missed changes, so resync from scratch.
+    channel.subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        resync();
+      }
+    });
+  };
+
+  const store: QueueStore = {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (listeners.size === 1) {
+        stores.set(key, store);
+        open();
+      }
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          if (channel) {
+            supabase.removeChannel(channel);
+            channel = null;
+          }
+          stores.delete(key);
+        }
+      };
+    },
+    getSnapshot: () => snapshot,
+  };
+
+  return store;
+}
+
+export function getQueueStore(filter: QueueFilter = {}) {
+  const key = JSON.stringify([
+    filter.department ?? null,
+    filter.doctorId ?? null,
+    [...(filter.statuses ?? ACTIVE_QUEUE_STATUSES)].sort(),
+  ]);
+
+  let store = stores.get(key);
+  if (!store) {
+    store = createQueueStore(key, filter);
+    stores.set(key, store);
+  }
+  return store;
+}
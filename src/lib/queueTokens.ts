@@ -0,0 +1,112 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { QueuePriority } from "@/lib/queuePriority";
+
+interface IssueQueueTokenParams {
+  patientId: string;
+  doctorId?: string | null;
+  department?: string | null;
+  priority?: QueuePriority;
+  priorityReason?: string | null;
+}
+
+// Token numbers and positions are assigned by the issue_queue_token database
+// function so that concurrent front-desk terminals never hand out duplicates.
+export async function issueQueueToken({
+  patientId,
+  doctorId,
+  department,
+  priority = "routine",
+  priorityReason,
+}: IssueQueueTokenParams) {
+  const { data, error } = await supabase.rpc("issue_queue_token", {
+    _patient_id: patientId,
+    _doctor_id: doctorId || null,
+    _department: department || null,
+    _priority: priority,
+    _priority_reason: priorityReason || null,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+export async function updateQueueTokenPriority(
+  tokenId: string,
+  priority: QueuePriority,
+  priorityReason?: string | null
+) {
+  const { data, error } = await supabase
+    .from("queue_tokens")
+    .update({ priority, priority_reason: priorityReason || null })
+    .eq("id", tokenId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+export async function skipQueueToken(tokenId: string) {
+  const { data, error } = await supabase.rpc("skip_queue_token", {
+    _token_id: tokenId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// Puts a skipped token back in line; the offset defaults to the configured
+// queue_settings.recall_offset and the grace period is enforced server-side.
+export async function recallQueueToken(tokenId: string, offset?: number) {
+  const { data, error } = await supabase.rpc("recall_queue_token", {
+    _token_id: tokenId,
+    ...(offset !== undefined ? { _offset: offset } : {}),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+interface TransferQueueTokenParams {
+  tokenId: string;
+  reason: string;
+  toDepartment?: string | null;
+  toDoctorId?: string | null;
+  position?: number | null;
+}
+
+// Moves a token into another doctor's or department's line. The server
+// records who moved it and why, and renumbers it for the new department.
+export async function transferQueueToken({
+  tokenId,
+  reason,
+  toDepartment,
+  toDoctorId,
+  position,
+}: TransferQueueTokenParams) {
+  const { data, error } = await supabase.rpc("transfer_queue_token", {
+    _token_id: tokenId,
+    _reason: reason,
+    _to_department: toDepartment || null,
+    _to_doctor_id: toDoctorId || null,
+    ...(position ? { _position: position } : {}),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+import { loadHospitalSettings, todayAtHospital } from "@/lib/hospitalSettings";
+
+export interface Room {
+  id: string;
+  name: string;
+  department: string | null;
+  location: string | null;
+}
+
+export async function fetchActiveRooms() {
+  const { data, error } = await supabase
+    .from("rooms")
+    .select("id, name, department, location")
+    .eq("is_active", true)
+    .order("name");
+
+  if (error) {
+    throw error;
+  }
+
+  return data as Room[];
+}
+
+// Room the doctor opened a session in today, if any
+export async function fetchCurrentDoctorRoom(doctorId: string) {
+  await loadHospitalSettings();
+  const { data, error } = await supabase
+    .from("doctor_room_sessions")
+    .select("room_id")
+    .eq("doctor_id", doctorId)
+    .is("ended_at", null)
+    .eq("session_date", todayAtHospital())
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.room_id ?? null;
+}
+
+// Starts a session in roomId for the signed-in doctor (or doctorId, for
+// admins), ending any session the doctor or the room already had open.
+// A null room just ends the doctor's session.
+export async function assignDoctorRoom(roomId: string | null, doctorId?: string) {
+  const { data, error } = await supabase.rpc("assign_doctor_room", {
+    _room_id: roomId,
+    _doctor_id: doctorId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
@@ -0,0 +1,76 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type Tables = Database["public"]["Tables"];
+
+export type SlotOffer = Tables["appointment_slot_offers"]["Row"];
+
+export type WaitlistEntry = Tables["appointment_waitlist"]["Row"] & {
+  doctors: { name: string; specialty: string } | null;
+  appointment_slot_offers: SlotOffer[];
+};
+
+// Patients join for themselves; the database resolves their patient record
+export async function joinWaitlist(doctorId: string, from: string, to: string, notes?: string) {
+  const { data, error } = await supabase.rpc("join_appointment_waitlist", {
+    _doctor_id: doctorId,
+    _from: from,
+    _to: to,
+    _notes: notes,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// Releases any slot held for the entry to the next patient
+export async function leaveWaitlist(entryId: string) {
+  const { error } = await supabase.rpc("leave_appointment_waitlist", { _entry_id: entryId });
+
+  if (error) {
+    throw error;
+  }
+}
+
+// The patient's open waitlist entries with any slot currently held for them
+export async function fetchPatientWaitlist(patientId: string) {
+  const { data, error } = await supabase
+    .from("appointment_waitlist")
+    .select(`
+      *,
+      doctors (name, specialty),
+      appointment_slot_offers (*)
+    `)
+    .eq("patient_id", patientId)
+    .eq("status", "waiting")
+    .eq("appointment_slot_offers.status", "pending")
+    .order("created_at");
+
+  if (error) {
+    throw error;
+  }
+
+  return data as WaitlistEntry[];
+}
+
+export async function acceptSlotOffer(offerId: string) {
+  const { data, error } = await supabase.rpc("accept_slot_offer", { _offer_id: offerId });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// The slot moves on to the next patient; this one stays on the waitlist
+export async function declineSlotOffer(offerId: string) {
+  const { error } = await supabase.rpc("decline_slot_offer", { _offer_id: offerId });
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,169 @@
+import { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Brain, CalendarCheck, CalendarX, CheckCircle, Loader2, XCircle } from "lucide-react";
+import { ReminderAction, fetchReminderAppointment, respondToReminder } from "@/lib/appointments";
+import { appointmentStatusLabel, isActiveAppointmentStatus } from "@shared/appointmentStatus";
+import { formatHospitalDate } from "@/lib/hospitalSettings";
+
+type ReminderAppointment = NonNullable<Awaited<ReturnType<typeof fetchReminderAppointment>>>;
+
+// Landing page for the confirm and cancel links in reminder emails. Nothing
+// changes until the patient presses the button, so link previews and mail
+// scanners opening the URL can't act on the appointment.
+export default function AppointmentResponse() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const action: ReminderAction = searchParams.get("action") === "cancel" ? "cancel" : "confirm";
+
+  const [appointment, setAppointment] = useState<ReminderAppointment | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setIsLoading(false);
+      return;
+    }
+
+    fetchReminderAppointment(token)
+      .then(setAppointment)
+      .catch((err) => console.error("Error fetching reminder appointment:", err))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  const handleRespond = async (chosen: ReminderAction) => {
+    if (!token) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      setResult(await respondToReminder(token, chosen));
+    } catch (err) {
+      setError((err as { message?: string }).message || "Something went wrong. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (!appointment) {
+      return (
+        <div className="flex flex-col items-center text-center">
+          <div className="w-16 h-16 rounded-full bg-destructive/20 flex items-center justify-center mb-4">
+            <XCircle className="w-8 h-8 text-destructive" />
+          </div>
+          <h1 className="text-2xl font-bold mb-2">Link Not Valid</h1>
+          <p className="text-muted-foreground">
+            This reminder link has expired or the appointment has been moved. Sign in to manage your appointments.
+          </p>
+        </div>
+      );
+    }
+
+    const when = `${formatHospitalDate(appointment.scheduled_date, "EEEE, MMMM d, yyyy")} at ${appointment.scheduled_time}`;
+
+    if (result) {
+      const confirmed = result === "confirmed";
+      return (
+        <div className="flex flex-col items-center text-center">
+          <div className="w-16 h-16 rounded-full bg-success/20 flex items-center justify-center mb-4">
+            <CheckCircle className="w-8 h-8 text-success" />
+          </div>
+          <h1 className="text-2xl font-bold mb-2">
+            {confirmed ? "See You Soon!" : "Appointment Cancelled"}
+          </h1>
+          <p className="text-muted-foreground">
+            {confirmed
+              ? `Your appointment with ${appointment.doctor_name} on ${when} is confirmed.`
+              : `Your appointment with ${appointment.doctor_name} on ${when} has been cancelled.`}
+          </p>
+        </div>
+      );
+    }
+
+    const canRespond = isActiveAppointmentStatus(appointment.status);
+
+    return (
+      <>
+        <div className="flex flex-col items-center text-center mb-6">
+          <h1 className="text-2xl font-bold">
+            {action === "cancel" ? "Cancel Appointment?" : "Confirm Appointment"}
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            {appointment.doctor_name} · {appointment.doctor_specialty}
+          </p>
+          <p className="font-medium mt-1">{when}</p>
+          {!canRespond && (
+            <p className="text-sm text-muted-foreground mt-2">
+              This appointment is {appointmentStatusLabel(appointment.status).toLowerCase()} and can no longer be changed here.
+            </p>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive text-center mb-4">{error}</p>}
+
+        {canRespond && (
+          <div className="space-y-3">
+            <Button
+              variant={action === "cancel" ? "destructive" : "hero"}
+              size="lg"
+              className="w-full gap-2"
+              disabled={isSubmitting}
+              onClick={() => handleRespond(action)}
+            >
+              {isSubmitting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : action === "cancel" ? (
+                <CalendarX className="w-4 h-4" />
+              ) : (
+                <CalendarCheck className="w-4 h-4" />
+              )}
+              {action === "cancel" ? "Yes, Cancel It" : "I'll Be There"}
+            </Button>
+            <Button
+              variant="ghost"
+              className="w-full"
+              disabled={isSubmitting}
+              onClick={() => handleRespond(action === "cancel" ? "confirm" : "cancel")}
+            >
+              {action === "cancel" ? "Keep my appointment" : "I can't make it — cancel"}
+            </Button>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute top-20 left-10 w-72 h-72 bg-primary/10 rounded-full blur-3xl animate-pulse-slow" />
+        <div className="absolute bottom-20 right-10 w-96 h-96 bg-info/10 rounded-full blur-3xl animate-pulse-slow" />
+      </div>
+
+      <Card className="w-full max-w-md p-8 bg-gradient-card border-border/50 relative z-10 animate-slide-up">
+        <div className="flex justify-center mb-6">
+          <Link to="/" className="flex items-center gap-2 group">
+            <div className="w-12 h-12 rounded-xl bg-gradient-primary flex items-center justify-center shadow-glow group-hover:shadow-glow-lg transition-shadow duration-300">
+              <Brain className="w-6 h-6 text-primary-foreground" />
+            </div>
+          </Link>
+        </div>
+        {renderBody()}
+      </Card>
+    </div>
+  );
+}
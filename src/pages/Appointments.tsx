@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Navbar } from "@/components/layout/Navbar";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -7,6 +8,8 @@ import { Input } from "@/components/ui/input";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { BookAppointmentDialog } from "@/components/appointments/BookAppointmentDialog";
+import { RescheduleAppointmentDialog } from "@/components/appointments/RescheduleAppointmentDialog";
+import { CancelAppointmentDialog } from "@/components/appointments/CancelAppointmentDialog";
 import {
   Calendar,
   Search,
@@ -17,6 +20,10 @@ import {
   MoreVertical,
   CheckCircle,
   XCircle,
+  UserX,
+  CalendarClock,
+  X,
+  Video,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -24,111 +31,205 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { formatHospitalDate } from "@/lib/hospitalSettings";
+import {
+  AppointmentListCursor,
+  AppointmentListFilters,
+  AppointmentListRow,
+  APPOINTMENT_PAGE_SIZE,
+  fetchAppointmentCounts,
+  fetchAppointmentPage,
+  updateAppointmentStatus,
+} from "@/lib/appointments";
+import { TELECONSULT_KIND } from "@/lib/consult";
+import {
+  AppointmentStatus,
+  APPOINTMENT_STATUSES,
+  APPOINTMENT_STATUS_LABELS,
+  appointmentStatusLabel,
+  canTransitionAppointment,
+  isActiveAppointmentStatus,
+  isAppointmentStatus,
+} from "@shared/appointmentStatus";
+import { cancellationReasonLabel } from "@shared/cancellationReasons";
 
-interface Appointment {
+interface DoctorOption {
   id: string;
-  scheduled_date: string;
-  scheduled_time: string;
-  status: string;
-  symptoms: string | null;
-  notes: string | null;
-  patients: {
-    first_name: string;
-    last_name: string;
-  } | null;
-  doctors: {
-    name: string;
-    specialty: string;
-  } | null;
+  name: string;
 }
 
-const statusStyles: Record<string, string> = {
+const ALL = "all";
+const FILTER_PARAMS = ["q", "status", "doctor", "from", "to", "sort"];
+
+// Filters live in the URL, so a filtered list can be bookmarked, shared and
+// restored with the back button
+const filtersFromParams = (params: URLSearchParams): AppointmentListFilters => {
+  const status = params.get("status");
+  return {
+    search: params.get("q") || undefined,
+    status: isAppointmentStatus(status) ? status : undefined,
+    doctorId: params.get("doctor") || undefined,
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+    descending: params.get("sort") === "desc",
+  };
+};
+
+const statusStyles: Record<AppointmentStatus, string> = {
   confirmed: "bg-success/10 text-success border-success/20",
   pending: "bg-warning/10 text-warning border-warning/20",
   cancelled: "bg-destructive/10 text-destructive border-destructive/20",
   completed: "bg-muted text-muted-foreground border-muted",
+  "no-show": "bg-destructive/10 text-destructive border-destructive/20",
+  rescheduled: "bg-muted text-muted-foreground border-muted",
 };
 
-const statusIcons: Record<string, React.ReactNode> = {
+const statusIcons: Record<AppointmentStatus, React.ReactNode> = {
   confirmed: <CheckCircle className="w-3.5 h-3.5" />,
   pending: <Clock className="w-3.5 h-3.5" />,
   cancelled: <XCircle className="w-3.5 h-3.5" />,
   completed: <CheckCircle className="w-3.5 h-3.5" />,
+  "no-show": <UserX className="w-3.5 h-3.5" />,
+  rescheduled: <CalendarClock className="w-3.5 h-3.5" />,
 };
 
 const Appointments = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const navigate = useNavigate();
+  useHospitalSettings();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [appointments, setAppointments] = useState<AppointmentListRow[]>([]);
+  const [nextCursor, setNextCursor] = useState<AppointmentListCursor | null>(null);
+  const [counts, setCounts] = useState({ total: 0, today: 0, pending: 0, confirmed: 0 });
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState("");
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [doctors, setDoctors] = useState<DoctorOption[]>([]);
+  const [searchQuery, setSearchQuery] = useState(searchParams.get("q") || "");
   const [isBookingOpen, setIsBookingOpen] = useState(false);
+  const [rescheduling, setRescheduling] = useState<AppointmentListRow | null>(null);
+  const [cancelling, setCancelling] = useState<AppointmentListRow | null>(null);
+  // Responses to an earlier set of filters are dropped
+  const requestRef = useRef(0);
+
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
+  const hasFilters = FILTER_PARAMS.some((param) => searchParams.has(param));
+
+  const setFilter = useCallback(
+    (param: string, value: string | undefined) => {
+      setSearchParams(
+        (params) => {
+          const next = new URLSearchParams(params);
+          if (value) {
+            next.set(param, value);
+          } else {
+            next.delete(param);
+          }
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const clearFilters = () => {
+    setSearchQuery("");
+    setSearchParams({}, { replace: true });
+  };
+
+  // The search box writes to the URL once typing pauses, and follows it when
+  // the URL changes by navigation
+  useEffect(() => {
+    if (searchQuery === (filters.search || "")) return;
+
+    const timer = setTimeout(() => setFilter("q", searchQuery || undefined), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery, filters.search, setFilter]);
+
+  useEffect(() => {
+    setSearchQuery(filters.search || "");
+  }, [filters.search]);
+
+  useEffect(() => {
+    supabase
+      .from("doctors")
+      .select("id, name")
+      .order("name")
+      .then(({ data }) => setDoctors(data || []));
+  }, []);
+
+  const fetchAppointments = useCallback(async () => {
+    const request = ++requestRef.current;
+    setLoading(true);
+
+    try {
+      const [page, totals] = await Promise.all([
+        fetchAppointmentPage(filters),
+        fetchAppointmentCounts(filters),
+      ]);
+      if (request !== requestRef.current) return;
+      setAppointments(page.rows);
+      setNextCursor(page.nextCursor);
+      setCounts(totals);
+    } catch (error) {
+      console.error("Error fetching appointments:", error);
+    }
+
+    if (request === requestRef.current) {
+      setLoading(false);
+    }
+  }, [filters]);
 
   useEffect(() => {
     fetchAppointments();
-  }, [user]);
-
-  const fetchAppointments = async () => {
-    const { data, error } = await supabase
-      .from("appointments")
-      .select(`
-        *,
-        patients (first_name, last_name),
-        doctors (name, specialty)
-      `)
-      .order("scheduled_date", { ascending: true })
-      .order("scheduled_time", { ascending: true });
-
-    if (error) {
+  }, [user, fetchAppointments]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+
+    const request = requestRef.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await fetchAppointmentPage(filters, nextCursor);
+      if (request === requestRef.current) {
+        setAppointments((rows) => [...rows, ...page.rows]);
+        setNextCursor(page.nextCursor);
+      }
+    } catch (error) {
       console.error("Error fetching appointments:", error);
-    } else {
-      setAppointments(data || []);
     }
-    setLoading(false);
-  };
 
-  const updateStatus = async (id: string, status: string) => {
-    const { error } = await supabase
-      .from("appointments")
-      .update({ status })
-      .eq("id", id);
+    setLoadingMore(false);
+  };
 
-    if (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update appointment",
-        variant: "destructive",
-      });
-    } else {
+  const updateStatus = async (appointment: AppointmentListRow, status: AppointmentStatus) => {
+    try {
+      await updateAppointmentStatus(appointment, status);
       toast({
         title: "Updated",
-        description: `Appointment ${status}`,
+        description: `Appointment ${APPOINTMENT_STATUS_LABELS[status].toLowerCase()}`,
       });
       fetchAppointments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update appointment",
+        variant: "destructive",
+      });
     }
   };
 
-  const filteredAppointments = appointments.filter((apt) => {
-    const searchLower = searchQuery.toLowerCase();
-    const patientName = `${apt.patients?.first_name || ""} ${apt.patients?.last_name || ""}`.toLowerCase();
-    const doctorName = apt.doctors?.name?.toLowerCase() || "";
-    return patientName.includes(searchLower) || doctorName.includes(searchLower);
-  });
-
-  const confirmedCount = appointments.filter((a) => a.status === "confirmed").length;
-  const pendingCount = appointments.filter((a) => a.status === "pending").length;
-  const todayStr = new Date().toISOString().split("T")[0];
-  const todayCount = appointments.filter((a) => a.scheduled_date === todayStr).length;
-
-  const formatDate = (dateStr: string) => {
-    return new Date(dateStr).toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-    });
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -144,7 +245,7 @@ const Appointments = () => {
               <div>
                 <h1 className="text-3xl font-bold">Appointments</h1>
                 <p className="text-muted-foreground">
-                  {confirmedCount} confirmed, {pendingCount} pending
+                  {counts.confirmed} confirmed, {counts.pending} pending
                 </p>
               </div>
             </div>
@@ -165,7 +266,7 @@ const Appointments = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Today's Total</p>
-                  <p className="text-2xl font-bold">{todayCount}</p>
+                  <p className="text-2xl font-bold">{counts.today}</p>
                 </div>
                 <div className="p-2 rounded-lg bg-accent">
                   <Calendar className="w-5 h-5 text-accent-foreground" />
@@ -176,7 +277,7 @@ const Appointments = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Confirmed</p>
-                  <p className="text-2xl font-bold text-success">{confirmedCount}</p>
+                  <p className="text-2xl font-bold text-success">{counts.confirmed}</p>
                 </div>
                 <div className="p-2 rounded-lg bg-success/10">
                   <CheckCircle className="w-5 h-5 text-success" />
@@ -187,7 +288,7 @@ const Appointments = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Pending</p>
-                  <p className="text-2xl font-bold text-warning">{pendingCount}</p>
+                  <p className="text-2xl font-bold text-warning">{counts.pending}</p>
                 </div>
                 <div className="p-2 rounded-lg bg-warning/10">
                   <Clock className="w-5 h-5 text-warning" />
@@ -196,8 +297,8 @@ const Appointments = () => {
             </Card>
           </div>
 
-          {/* Search */}
-          <Card className="p-4 mb-6 bg-gradient-card border-border/50">
+          {/* Search & Filters */}
+          <Card className="p-4 mb-6 bg-gradient-card border-border/50 space-y-3">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
               <Input
@@ -207,6 +308,75 @@ const Appointments = () => {
                 onChange={(e) => setSearchQuery(e.target.value)}
               />
             </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3">
+              <Select
+                value={filters.status || ALL}
+                onValueChange={(value) => setFilter("status", value === ALL ? undefined : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {APPOINTMENT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {APPOINTMENT_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.doctorId || ALL}
+                onValueChange={(value) => setFilter("doctor", value === ALL ? undefined : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All doctors</SelectItem>
+                  {doctors.map((doctor) => (
+                    <SelectItem key={doctor.id} value={doctor.id}>
+                      {doctor.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="date"
+                aria-label="From date"
+                value={filters.from || ""}
+                max={filters.to}
+                onChange={(e) => setFilter("from", e.target.value || undefined)}
+              />
+              <Input
+                type="date"
+                aria-label="To date"
+                value={filters.to || ""}
+                min={filters.from}
+                onChange={(e) => setFilter("to", e.target.value || undefined)}
+              />
+              <Select
+                value={filters.descending ? "desc" : "asc"}
+                onValueChange={(value) => setFilter("sort", value === "desc" ? value : undefined)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="asc">Earliest first</SelectItem>
+                  <SelectItem value="desc">Latest first</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={clearFilters}
+                disabled={!hasFilters}
+              >
+                <X className="w-4 h-4" />
+                Clear Filters
+              </Button>
+            </div>
           </Card>
 
           {/* Appointments List */}
@@ -215,13 +385,13 @@ const Appointments = () => {
               <div className="p-8 text-center">
                 <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto" />
               </div>
-            ) : filteredAppointments.length === 0 ? (
+            ) : appointments.length === 0 ? (
               <div className="p-12 text-center">
                 <Calendar className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-lg font-semibold mb-2">No Appointments</h3>
                 <p className="text-muted-foreground mb-4">
-                  {searchQuery
-                    ? "No appointments match your search"
+                  {hasFilters
+                    ? "No appointments match your filters"
                     : "No appointments scheduled yet"}
                 </p>
                 <Button variant="hero" onClick={() => setIsBookingOpen(true)}>
@@ -242,11 +412,11 @@ const Appointments = () => {
                     </tr>
                   </thead>
                   <tbody>
-                    {filteredAppointments.map((apt, index) => (
+                    {appointments.map((apt, index) => (
                       <tr
                         key={apt.id}
                         className="border-b border-border/50 hover:bg-muted/20 transition-colors animate-slide-up"
-                        style={{ animationDelay: `${index * 30}ms` }}
+                        style={{ animationDelay: `${(index % APPOINTMENT_PAGE_SIZE) * 30}ms` }}
                       >
                         <td className="p-4">
                           <div className="flex items-center gap-3">
@@ -254,26 +424,32 @@ const Appointments = () => {
                               <User className="w-4 h-4 text-accent-foreground" />
                             </div>
                             <span className="font-medium">
-                              {apt.patients?.first_name} {apt.patients?.last_name}
+                              {apt.patient_first_name} {apt.patient_last_name}
                             </span>
                           </div>
                         </td>
                         <td className="p-4">
                           <div className="flex items-center gap-2">
                             <Stethoscope className="w-4 h-4 text-muted-foreground" />
-                            <span>{apt.doctors?.name || "Unassigned"}</span>
+                            <span>{apt.doctor_name || "Unassigned"}</span>
                           </div>
                         </td>
                         <td className="p-4 text-muted-foreground">
-                          {apt.doctors?.specialty || "-"}
+                          {apt.doctor_specialty || "-"}
                         </td>
                         <td className="p-4">
                           <div className="flex items-center gap-2">
                             <Clock className="w-4 h-4 text-muted-foreground" />
-                            <span>{formatDate(apt.scheduled_date)}</span>
+                            <span>{formatHospitalDate(apt.scheduled_date)}</span>
                             <span className="text-muted-foreground">at</span>
                             <span className="font-medium">{apt.scheduled_time}</span>
                           </div>
+                          {apt.appointment_kind === TELECONSULT_KIND && (
+                            <Badge variant="secondary" className="gap-1 mt-1">
+                              <Video className="w-3 h-3" />
+                              Teleconsult
+                            </Badge>
+                          )}
                         </td>
                         <td className="p-4">
                           <Badge
@@ -281,8 +457,16 @@ const Appointments = () => {
                             className={`gap-1 ${statusStyles[apt.status] || ""}`}
                           >
                             {statusIcons[apt.status]}
-                            {apt.status.charAt(0).toUpperCase() + apt.status.slice(1)}
+                            {appointmentStatusLabel(apt.status)}
                           </Badge>
+                          {apt.status === "cancelled" && apt.cancellation_reason && (
+                            <p
+                              className="text-xs text-muted-foreground mt-1"
+                              title={apt.cancellation_note ?? undefined}
+                            >
+                              {cancellationReasonLabel(apt.cancellation_reason)}
+                            </p>
+                          )}
                         </td>
                         <td className="p-4 text-right">
                           <DropdownMenu>
@@ -292,25 +476,46 @@ const Appointments = () => {
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
-                              {apt.status === "pending" && (
+                              {apt.appointment_kind === TELECONSULT_KIND &&
+                                isActiveAppointmentStatus(apt.status) && (
+                                  <DropdownMenuItem onClick={() => navigate(`/consult/${apt.id}`)}>
+                                    <Video className="w-4 h-4 mr-2" />
+                                    Open Consult Room
+                                  </DropdownMenuItem>
+                                )}
+                              {canTransitionAppointment(apt.status, "confirmed") && (
                                 <DropdownMenuItem
-                                  onClick={() => updateStatus(apt.id, "confirmed")}
+                                  onClick={() => updateStatus(apt, "confirmed")}
                                 >
                                   <CheckCircle className="w-4 h-4 mr-2" />
                                   Confirm
                                 </DropdownMenuItem>
                               )}
-                              {apt.status !== "completed" && apt.status !== "cancelled" && (
+                              {isActiveAppointmentStatus(apt.status) && (
+                                <DropdownMenuItem onClick={() => setRescheduling(apt)}>
+                                  <CalendarClock className="w-4 h-4 mr-2" />
+                                  Reschedule
+                                </DropdownMenuItem>
+                              )}
+                              {canTransitionAppointment(apt.status, "completed") && (
                                 <DropdownMenuItem
-                                  onClick={() => updateStatus(apt.id, "completed")}
+                                  onClick={() => updateStatus(apt, "completed")}
                                 >
                                   <CheckCircle className="w-4 h-4 mr-2" />
                                   Mark Complete
                                 </DropdownMenuItem>
                               )}
-                              {apt.status !== "cancelled" && (
+                              {canTransitionAppointment(apt.status, "no-show") && (
+                                <DropdownMenuItem
+                                  onClick={() => updateStatus(apt, "no-show")}
+                                >
+                                  <UserX className="w-4 h-4 mr-2" />
+                                  Mark No-show
+                                </DropdownMenuItem>
+                              )}
+                              {canTransitionAppointment(apt.status, "cancelled") && (
                                 <DropdownMenuItem
-                                  onClick={() => updateStatus(apt.id, "cancelled")}
+                                  onClick={() => setCancelling(apt)}
                                   className="text-destructive"
                                 >
                                   <XCircle className="w-4 h-4 mr-2" />
@@ -324,6 +529,16 @@ const Appointments = () => {
                     ))}
                   </tbody>
                 </table>
+                <div className="flex items-center justify-between gap-4 p-4 text-sm text-muted-foreground">
+                  <span>
+                    Showing {appointments.length} of {counts.total}
+                  </span>
+                  {nextCursor && (
+                    <Button variant="outline" size="sm" onClick={loadMore} disabled={loadingMore}>
+                      {loadingMore ? "Loading..." : "Load More"}
+                    </Button>
+                  )}
+                </div>
               </div>
             )}
           </Card>
@@ -335,6 +550,31 @@ const Appointments = () => {
         onOpenChange={setIsBookingOpen}
         onSuccess={fetchAppointments}
       />
+
+      <RescheduleAppointmentDialog
+        appointment={
+          rescheduling && {
+            ...rescheduling,
+            doctorName: rescheduling.doctor_name,
+          }
+        }
+        open={!!rescheduling}
+        onOpenChange={(open) => !open && setRescheduling(null)}
+        onSuccess={() => fetchAppointments()}
+      />
+
+      <CancelAppointmentDialog
+        appointment={
+          cancelling && {
+            ...cancelling,
+            doctorName: cancelling.doctor_name,
+            patientName: `${cancelling.patient_first_name} ${cancelling.patient_last_name}`,
+          }
+        }
+        open={!!cancelling}
+        onOpenChange={(open) => !open && setCancelling(null)}
+        onSuccess={() => fetchAppointments()}
+      />
     </div>
   );
 };
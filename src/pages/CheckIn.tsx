@@ -0,0 +1,180 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Navbar } from "@/components/layout/Navbar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { AlertCircle, CalendarCheck, Clock, Loader2, LogIn, QrCode, Stethoscope, Timer } from "lucide-react";
+import { CHECK_IN_CODE_PARAM, checkInAppointment, fetchCheckInAppointments } from "@/lib/checkIn";
+import { appointmentStatusLabel } from "@shared/appointmentStatus";
+
+// Self-service check-in, opened from the QR code in the lobby
+const CheckIn = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const code = searchParams.get(CHECK_IN_CODE_PARAM);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: patient, isLoading: patientLoading } = useQuery({
+    queryKey: ["check-in-patient", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("patients")
+        .select("id, first_name")
+        .eq("user_id", user?.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const { data: appointments = [], isLoading: appointmentsLoading } = useQuery({
+    queryKey: ["check-in-appointments", patient?.id],
+    queryFn: () => fetchCheckInAppointments(patient?.id),
+    enabled: !!patient,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: (appointmentId: string) => checkInAppointment(appointmentId, code ?? undefined),
+    onSuccess: (token) => {
+      toast({
+        title: "You're Checked In",
+        description: `Your token is ${token.token_number}. Please wait to be called.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["check-in-appointments", patient?.id] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Check-in Failed",
+        description: (error as { message?: string }).message || "Please ask at reception",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const loading = authLoading || (!!user && patientLoading) || (!!patient && appointmentsLoading);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 pt-24 pb-12 max-w-xl">
+        <div className="flex items-center gap-3 mb-8">
+          <div className="p-3 rounded-xl bg-gradient-primary">
+            <CalendarCheck className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Check In</h1>
+            <p className="text-muted-foreground">Let us know you've arrived for your appointment</p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-40">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : !user || !patient ? (
+          <Card>
+            <CardHeader className="text-center">
+              <AlertCircle className="w-12 h-12 text-warning mx-auto mb-4" />
+              <CardTitle>{user ? "No Patient Profile Found" : "Sign In to Check In"}</CardTitle>
+              <CardDescription>
+                {user
+                  ? "We couldn't find a patient profile for your account. Please ask at reception."
+                  : "Sign in with the account you booked with, then scan the code again."}
+              </CardDescription>
+            </CardHeader>
+            {!user && (
+              <CardContent className="text-center">
+                <Button onClick={() => navigate("/auth")}>Sign In</Button>
+              </CardContent>
+            )}
+          </Card>
+        ) : appointments.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <CalendarCheck className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">
+                You have no appointments at the hospital today. Walk-ins can register at reception.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {appointments.map((apt) => (
+              <Card key={apt.id}>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-start gap-3">
+                      <div className="p-3 rounded-lg bg-primary/10">
+                        <Stethoscope className="w-5 h-5 text-primary" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold">{apt.doctors?.name}</h3>
+                        <p className="text-sm text-muted-foreground">{apt.doctors?.specialty}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <Clock className="w-4 h-4" />
+                      {apt.scheduled_time}
+                    </div>
+                  </div>
+
+                  {apt.queue_tokens ? (
+                    <div className="rounded-xl bg-primary/10 p-6 text-center">
+                      <p className="text-sm text-muted-foreground">Your token</p>
+                      <p className="text-5xl font-bold tracking-wider text-primary my-2">
+                        {apt.queue_tokens.token_number}
+                      </p>
+                      {apt.queue_tokens.status === "waiting" && (
+                        <p className="text-sm flex items-center justify-center gap-1">
+                          <Timer className="w-4 h-4" />
+                          About {apt.queue_tokens.estimated_wait_minutes ?? 0} minutes. Watch the screen in
+                          the lobby.
+                        </p>
+                      )}
+                      <Button variant="link" onClick={() => navigate("/my-profile")}>
+                        Follow my queue status
+                      </Button>
+                    </div>
+                  ) : apt.status === "confirmed" && !code ? (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <QrCode className="w-4 h-4 shrink-0" />
+                      <span>Scan the QR code on the screen in the hospital lobby to check in.</span>
+                    </div>
+                  ) : apt.status === "confirmed" ? (
+                    <Button
+                      className="w-full gap-2"
+                      size="lg"
+                      onClick={() => checkInMutation.mutate(apt.id)}
+                      disabled={checkInMutation.isPending}
+                    >
+                      {checkInMutation.isPending && checkInMutation.variables === apt.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <LogIn className="w-4 h-4" />
+                      )}
+                      I'm Here
+                    </Button>
+                  ) : (
+                    <div className="flex items-center justify-between text-sm text-muted-foreground">
+                      <span>This appointment isn't confirmed yet. Please check in at reception.</span>
+                      <Badge variant="outline">{appointmentStatusLabel(apt.status)}</Badge>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CheckIn;
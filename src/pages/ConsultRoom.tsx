@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { Navigate, useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Navbar } from "@/components/layout/Navbar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { useConsultRoom } from "@/hooks/useConsultRoom";
+import { ConsultChatPanel } from "@/components/consult/ConsultChatPanel";
+import { ConsultVideoPanel } from "@/components/consult/ConsultVideoPanel";
+import { MedicalRecords } from "@/components/patients/MedicalRecords";
+import { CreatePrescriptionDialog } from "@/components/doctor/CreatePrescriptionDialog";
+import { AlertCircle, ArrowLeft, CheckCircle, FileText, FolderOpen, MonitorSmartphone } from "lucide-react";
+import {
+  TELECONSULT_KIND,
+  consultRoomWindow,
+  fetchConsultAppointment,
+  isConsultRoomOpen,
+  shareMedicalRecord,
+} from "@/lib/consult";
+import { updateAppointmentStatus } from "@/lib/appointments";
+import { formatHospitalDate, formatHospitalDateTime } from "@/lib/hospitalSettings";
+import { appointmentStatusLabel, isActiveAppointmentStatus } from "@shared/appointmentStatus";
+
+const ConsultRoom = () => {
+  useHospitalSettings();
+  const { appointmentId } = useParams<{ appointmentId: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [prescriptionOpen, setPrescriptionOpen] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  // The room opens and closes on the clock
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data: appointment, isLoading } = useQuery({
+    queryKey: ["consult-appointment", appointmentId],
+    queryFn: () => fetchConsultAppointment(appointmentId as string),
+    enabled: !!appointmentId && !!user,
+    // Picks up the visit being completed or cancelled by the other side
+    refetchInterval: 60000,
+  });
+
+  const isDoctor = !!user && appointment?.doctors?.user_id === user.id;
+  const isPatient = !!user && appointment?.patients?.user_id === user.id;
+  const isTeleconsult = appointment?.appointment_types?.kind === TELECONSULT_KIND;
+  const roomOpen = !!appointment && isTeleconsult && isConsultRoomOpen(appointment, now);
+
+  const room = useConsultRoom(appointmentId, user?.id, isTeleconsult && (isDoctor || isPatient));
+
+  const completeMutation = useMutation({
+    mutationFn: () => updateAppointmentStatus(appointment, "completed"),
+    onSuccess: () => {
+      toast({ title: "Visit Completed", description: "The consult room is now closed" });
+      queryClient.invalidateQueries({ queryKey: ["consult-appointment", appointmentId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to complete the visit",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const shareRecord = async (record: { id: string; title: string }) => {
+    try {
+      await shareMedicalRecord(appointmentId as string, record.id);
+      toast({ title: "Record Shared", description: `${record.title} was shared in the chat` });
+    } catch (error) {
+      toast({
+        title: "Could Not Share",
+        description: (error as { message?: string }).message || "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (authLoading || (isLoading && !!user)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!appointment || !isTeleconsult || !(isDoctor || isPatient)) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main className="container mx-auto px-4 pt-24 pb-12">
+          <Card className="max-w-md mx-auto">
+            <CardHeader className="text-center">
+              <AlertCircle className="w-12 h-12 text-warning mx-auto mb-4" />
+              <CardTitle>Consult Room Unavailable</CardTitle>
+              <CardDescription>
+                {!appointment
+                  ? "This appointment could not be found."
+                  : !isTeleconsult
+                  ? "This appointment is held in person, not online."
+                  : "Only the patient and the doctor of this teleconsult can join its room."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="text-center">
+              <Button variant="outline" onClick={() => navigate(-1)}>
+                Go Back
+              </Button>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  const roomWindow = consultRoomWindow(appointment);
+  const patientName = `${appointment.patients?.first_name ?? ""} ${appointment.patients?.last_name ?? ""}`.trim();
+  const doctorName = appointment.doctors?.name || "Doctor";
+  const names: Record<string, string> = {};
+  if (appointment.patients?.user_id) names[appointment.patients.user_id] = patientName || "Patient";
+  if (appointment.doctors?.user_id) names[appointment.doctors.user_id] = doctorName;
+
+  const roomNotice = roomOpen
+    ? null
+    : !isActiveAppointmentStatus(appointment.status)
+    ? `This teleconsult is ${appointmentStatusLabel(appointment.status).toLowerCase()}; the room is closed.`
+    : roomWindow && now < roomWindow.opensAt
+    ? `The room opens at ${formatHospitalDateTime(roomWindow.opensAt)}.`
+    : "The room has closed.";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 pt-24 pb-12">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)} title="Back">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="p-3 rounded-xl bg-primary/10">
+              <MonitorSmartphone className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">
+                Teleconsult with {isDoctor ? patientName || "Patient" : doctorName}
+              </h1>
+              <p className="text-muted-foreground">
+                {formatHospitalDate(appointment.scheduled_date, "EEE, MMM d, yyyy")} at{" "}
+                {appointment.scheduled_time}
+                {!isDoctor && appointment.doctors?.specialty && ` • ${appointment.doctors.specialty}`}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Badge variant={roomOpen ? "default" : "outline"}>
+              {roomOpen ? "Room Open" : "Room Closed"}
+            </Badge>
+            <Badge variant={room.peerPresent ? "secondary" : "outline"}>
+              {isDoctor ? "Patient" : "Doctor"} {room.peerPresent ? "in the room" : "not here yet"}
+            </Badge>
+            {isDoctor && (
+              <>
+                <Button variant="outline" onClick={() => setPrescriptionOpen(true)}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Write Prescription
+                </Button>
+                {isActiveAppointmentStatus(appointment.status) && (
+                  <Button
+                    variant="hero"
+                    onClick={() => completeMutation.mutate()}
+                    disabled={completeMutation.isPending}
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    Complete Visit
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        {roomNotice && (
+          <Card className="mb-6 border-warning/50">
+            <CardContent className="py-4 flex items-center gap-3 text-sm">
+              <AlertCircle className="w-5 h-5 text-warning shrink-0" />
+              {roomNotice}
+            </CardContent>
+          </Card>
+        )}
+
+        {isDoctor && appointment.symptoms && (
+          <p className="text-sm mb-6">
+            <span className="text-muted-foreground">Symptoms:</span> {appointment.symptoms}
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-3">
+            <ConsultVideoPanel
+              isCaller={isDoctor}
+              peerName={isDoctor ? patientName || "the patient" : doctorName}
+              peerPresent={room.peerPresent}
+              canJoin={roomOpen && room.connected}
+              sendSignal={room.sendSignal}
+              onSignal={room.onSignal}
+            />
+          </div>
+          <div className="lg:col-span-2">
+            <ConsultChatPanel
+              appointmentId={appointment.id}
+              userId={user.id}
+              names={names}
+              canPost={roomOpen}
+            />
+          </div>
+        </div>
+
+        {isPatient && appointment.patients && (
+          <div className="mt-8">
+            <h2 className="text-lg font-semibold flex items-center gap-2 mb-4">
+              <FolderOpen className="w-5 h-5 text-primary" />
+              Share Your Records
+            </h2>
+            <MedicalRecords
+              patientId={appointment.patients.id}
+              onShare={roomOpen ? shareRecord : undefined}
+            />
+          </div>
+        )}
+      </main>
+
+      {isDoctor && (
+        <CreatePrescriptionDialog
+          open={prescriptionOpen}
+          onOpenChange={setPrescriptionOpen}
+          doctorId={appointment.doctors.id}
+          appointment={appointment}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ConsultRoom;
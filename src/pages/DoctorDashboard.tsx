@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Navbar } from "@/components/layout/Navbar";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -19,25 +20,54 @@ import {
   SkipForward,
   FileText,
   Pill,
+  Undo2,
+  ArrowRightLeft,
+  DoorOpen,
+  UserX,
+  CalendarClock,
+  CalendarPlus,
+  CalendarX,
+  Video,
 } from "lucide-react";
-import { Navigate } from "react-router-dom";
+import { Link, Navigate } from "react-router-dom";
 import { CreatePrescriptionDialog } from "@/components/doctor/CreatePrescriptionDialog";
+import { TransferTokenDialog } from "@/components/doctor/TransferTokenDialog";
+import { DoctorScheduleManager } from "@/components/doctor/DoctorScheduleManager";
+import { DoctorCalendar } from "@/components/doctor/DoctorCalendar";
+import { RescheduleAppointmentDialog } from "@/components/appointments/RescheduleAppointmentDialog";
+import { CalendarFeedDialog } from "@/components/appointments/CalendarFeedDialog";
+import { ScheduleFollowUpDialog } from "@/components/appointments/ScheduleFollowUpDialog";
+import { CancelAppointmentDialog } from "@/components/appointments/CancelAppointmentDialog";
+import { CancelDoctorDayDialog } from "@/components/doctor/CancelDoctorDayDialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { QUEUE_PRIORITIES, QueuePriority, getQueuePriority } from "@/lib/queuePriority";
+import {
+  updateQueueTokenPriority,
+  skipQueueToken,
+  recallQueueToken,
+} from "@/lib/queueTokens";
+import { sendQueueNotification } from "@/lib/queueNotifications";
+import { useRealtimeQueue, QueueToken } from "@/hooks/useRealtimeQueue";
+import { Room, fetchActiveRooms, fetchCurrentDoctorRoom, assignDoctorRoom } from "@/lib/rooms";
+import { updateAppointmentStatus as saveAppointmentStatus } from "@/lib/appointments";
+import { loadHospitalSettings, todayAtHospital } from "@/lib/hospitalSettings";
+import { TELECONSULT_KIND } from "@/lib/consult";
+import {
+  AppointmentStatus,
+  APPOINTMENT_STATUS_LABELS,
+  appointmentStatusLabel,
+  isActiveAppointmentStatus,
+} from "@shared/appointmentStatus";
+import { cancellationReasonLabel } from "@shared/cancellationReasons";
 
-interface QueueToken {
-  id: string;
-  token_number: string;
-  department: string;
-  status: string;
-  position: number;
-  estimated_wait_minutes: number;
-  created_at: string;
-  patient_id: string;
-  patients?: {
-    first_name: string;
-    last_name: string;
-    phone: string;
-  };
-}
+const DOCTOR_QUEUE_STATUSES = ["waiting", "in-progress", "skipped"];
+const NO_ROOM = "none";
 
 interface Appointment {
   id: string;
@@ -46,6 +76,10 @@ interface Appointment {
   status: string;
   symptoms: string | null;
   notes: string | null;
+  cancellation_reason: string | null;
+  appointment_types?: {
+    kind: string;
+  } | null;
   patients?: {
     id: string;
     first_name: string;
@@ -54,6 +88,11 @@ interface Appointment {
   };
 }
 
+interface QueueSettings {
+  skip_grace_minutes: number;
+  recall_offset: number;
+}
+
 interface DoctorProfile {
   id: string;
   name: string;
@@ -64,38 +103,37 @@ interface DoctorProfile {
 const DoctorDashboard = () => {
   const { user, loading: authLoading } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [doctorProfile, setDoctorProfile] = useState<DoctorProfile | null>(null);
-  const [queueTokens, setQueueTokens] = useState<QueueToken[]>([]);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [loading, setLoading] = useState(true);
-  const [currentToken, setCurrentToken] = useState<QueueToken | null>(null);
   const [prescriptionOpen, setPrescriptionOpen] = useState(false);
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
+  const [rescheduling, setRescheduling] = useState<Appointment | null>(null);
+  const [followUp, setFollowUp] = useState<Appointment | null>(null);
+  const [cancelling, setCancelling] = useState<Appointment | null>(null);
+  const [cancelDayOpen, setCancelDayOpen] = useState(false);
+  const [transferToken, setTransferToken] = useState<QueueToken | null>(null);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [roomId, setRoomId] = useState<string | null>(null);
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>({
+    skip_grace_minutes: 15,
+    recall_offset: 2,
+  });
+
+  const { queue: queueTokens } = useRealtimeQueue({
+    doctorId: doctorProfile?.id,
+    statuses: DOCTOR_QUEUE_STATUSES,
+    enabled: !!doctorProfile,
+  });
+  const currentToken = queueTokens.find((t) => t.status === "in-progress") || null;
 
   useEffect(() => {
     if (user) {
       fetchDoctorData();
-      setupRealtimeSubscription();
     }
   }, [user]);
 
-  const setupRealtimeSubscription = () => {
-    const channel = supabase
-      .channel("doctor-queue")
-      .on(
-        "postgres_changes",
-        { event: "*", schema: "public", table: "queue_tokens" },
-        () => {
-          fetchQueueTokens();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  };
-
   const fetchDoctorData = async () => {
     // First check if user is a doctor
     const { data: doctorData } = await supabase
@@ -104,50 +142,76 @@ const DoctorDashboard = () => {
       .eq("user_id", user?.id)
       .single();
 
+    const { data: settingsData } = await supabase
+      .from("queue_settings")
+      .select("skip_grace_minutes, recall_offset")
+      .maybeSingle();
+
+    if (settingsData) {
+      setQueueSettings(settingsData);
+    }
+
     if (doctorData) {
       setDoctorProfile(doctorData);
-      await fetchQueueTokens(doctorData.id);
       await fetchAppointments(doctorData.id);
+      await fetchRooms(doctorData.id);
     }
     setLoading(false);
   };
 
-  const fetchQueueTokens = async (doctorId?: string) => {
-    const id = doctorId || doctorProfile?.id;
-    if (!id) return;
+  const fetchRooms = async (doctorId: string) => {
+    try {
+      const [activeRooms, currentRoomId] = await Promise.all([
+        fetchActiveRooms(),
+        fetchCurrentDoctorRoom(doctorId),
+      ]);
+      setRooms(activeRooms);
+      setRoomId(currentRoomId);
+    } catch (error) {
+      console.error("Error fetching rooms:", error);
+    }
+  };
 
-    const { data } = await supabase
-      .from("queue_tokens")
-      .select(`
-        *,
-        patients (first_name, last_name, phone)
-      `)
-      .eq("doctor_id", id)
-      .in("status", ["waiting", "in_progress"])
-      .order("position", { ascending: true });
+  const changeRoom = async (value: string) => {
+    const nextRoomId = value === NO_ROOM ? null : value;
 
-    if (data) {
-      setQueueTokens(data);
-      const inProgress = data.find((t) => t.status === "in_progress");
-      setCurrentToken(inProgress || null);
+    try {
+      await assignDoctorRoom(nextRoomId);
+      setRoomId(nextRoomId);
+      const room = rooms.find((r) => r.id === nextRoomId);
+      toast({
+        title: room ? "Room Assigned" : "Room Released",
+        description: room
+          ? `Patients will be sent to ${room.name}`
+          : "You are no longer assigned to a room",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change room",
+        variant: "destructive",
+      });
     }
   };
 
   const fetchAppointments = async (doctorId: string) => {
-    const today = new Date().toISOString().split("T")[0];
+    await loadHospitalSettings();
     const { data } = await supabase
       .from("appointments")
       .select(`
         *,
-        patients (id, first_name, last_name, phone)
+        patients (id, first_name, last_name, phone),
+        appointment_types (kind)
       `)
       .eq("doctor_id", doctorId)
-      .eq("scheduled_date", today)
+      .eq("scheduled_date", todayAtHospital())
       .order("scheduled_time", { ascending: true });
 
     if (data) {
       setAppointments(data);
     }
+    // Status changes, cancellations and reschedules show on the calendar too
+    queryClient.invalidateQueries({ queryKey: ["doctor-schedule", doctorId, "calendar"] });
   };
 
   const callNextPatient = async () => {
@@ -171,7 +235,7 @@ const DoctorDashboard = () => {
     // Call the next patient
     const { error } = await supabase
       .from("queue_tokens")
-      .update({ status: "in_progress" })
+      .update({ status: "in-progress" })
       .eq("id", nextToken.id);
 
     if (error) {
@@ -188,43 +252,64 @@ const DoctorDashboard = () => {
       
       // Trigger notification
       await sendNotification(nextToken);
-      fetchQueueTokens();
     }
   };
 
   const sendNotification = async (token: QueueToken) => {
+    await sendQueueNotification(token, "called");
+  };
+
+  const skipPatient = async (tokenId: string) => {
     try {
-      await supabase.functions.invoke("send-queue-notification", {
-        body: {
-          tokenId: token.id,
-          patientName: `${token.patients?.first_name} ${token.patients?.last_name}`,
-          tokenNumber: token.token_number,
-          type: "called",
-        },
+      await skipQueueToken(tokenId);
+      toast({
+        title: "Patient Skipped",
+        description: `They can be recalled within ${queueSettings.skip_grace_minutes} minutes`,
       });
     } catch (error) {
-      console.log("Notification service not available");
+      toast({
+        title: "Error",
+        description: "Failed to skip patient",
+        variant: "destructive",
+      });
     }
   };
 
-  const skipPatient = async (tokenId: string) => {
-    const { error } = await supabase
-      .from("queue_tokens")
-      .update({ status: "skipped" })
-      .eq("id", tokenId);
-
-    if (error) {
+  const recallPatient = async (token: QueueToken) => {
+    try {
+      await recallQueueToken(token.id);
+      toast({
+        title: "Patient Recalled",
+        description: `Token ${token.token_number} is back in the queue`,
+      });
+    } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to skip patient",
+        description: error instanceof Error ? error.message : "Failed to recall patient",
         variant: "destructive",
       });
-    } else {
+    }
+  };
+
+  const graceMinutesLeft = (token: QueueToken) => {
+    if (!token.skipped_at) return 0;
+    const elapsed = (Date.now() - new Date(token.skipped_at).getTime()) / 60000;
+    return Math.max(Math.ceil(queueSettings.skip_grace_minutes - elapsed), 0);
+  };
+
+  const updatePriority = async (tokenId: string, priority: QueuePriority) => {
+    try {
+      await updateQueueTokenPriority(tokenId, priority);
       toast({
-        title: "Patient Skipped",
-        description: "Patient has been moved to skipped status",
+        title: "Triage Updated",
+        description: `Patient marked as ${getQueuePriority(priority).label.toLowerCase()}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update triage level",
+        variant: "destructive",
       });
-      fetchQueueTokens();
     }
   };
 
@@ -247,31 +332,29 @@ const DoctorDashboard = () => {
         title: "Consultation Complete",
         description: "Patient marked as completed",
       });
-      setCurrentToken(null);
-      fetchQueueTokens();
     }
   };
 
-  const updateAppointmentStatus = async (id: string, status: string) => {
-    const { error } = await supabase
-      .from("appointments")
-      .update({ status })
-      .eq("id", id);
-
-    if (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update appointment",
-        variant: "destructive",
-      });
-    } else {
+  const updateAppointmentStatus = async (appointment: Appointment, status: AppointmentStatus) => {
+    try {
+      await saveAppointmentStatus(appointment, status);
       toast({
         title: "Updated",
-        description: `Appointment ${status}`,
+        description: `Appointment ${APPOINTMENT_STATUS_LABELS[status].toLowerCase()}`,
       });
+      // A finished visit is where the next one gets booked
+      if (status === "completed") {
+        setFollowUp(appointment);
+      }
       if (doctorProfile) {
         fetchAppointments(doctorProfile.id);
       }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update appointment",
+        variant: "destructive",
+      });
     }
   };
 
@@ -334,7 +417,17 @@ const DoctorDashboard = () => {
     );
   }
 
-  const waitingCount = queueTokens.filter((t) => t.status === "waiting").length;
+  const currentRoom = rooms.find((r) => r.id === roomId);
+  const waitingTokens = queueTokens.filter((t) => t.status === "waiting");
+  const skippedTokens = queueTokens.filter((t) => t.status === "skipped");
+  const waitingCount = waitingTokens.length;
+  const avgWaitMinutes =
+    waitingCount > 0
+      ? Math.round(
+          waitingTokens.reduce((acc, t) => acc + (t.estimated_wait_minutes || 0), 0) /
+            waitingCount
+        )
+      : 0;
 
   return (
     <div className="min-h-screen bg-background">
@@ -352,11 +445,27 @@ const DoctorDashboard = () => {
                 <h1 className="text-3xl font-bold">Doctor Dashboard</h1>
                 <p className="text-muted-foreground">
                   {doctorProfile.name} - {doctorProfile.specialty}
+                  {currentRoom && ` • ${currentRoom.name}`}
                 </p>
               </div>
             </div>
 
             <div className="flex items-center gap-3">
+              <Select value={roomId ?? NO_ROOM} onValueChange={changeRoom}>
+                <SelectTrigger className="w-44">
+                  <DoorOpen className="w-4 h-4 mr-2 text-muted-foreground" />
+                  <SelectValue placeholder="Select room" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ROOM}>No room</SelectItem>
+                  {rooms.map((room) => (
+                    <SelectItem key={room.id} value={room.id}>
+                      {room.name}
+                      {room.location && ` (${room.location})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Badge
                 variant={doctorProfile.is_available ? "default" : "secondary"}
                 className="text-sm px-3 py-1"
@@ -369,6 +478,11 @@ const DoctorDashboard = () => {
               >
                 {doctorProfile.is_available ? "Go Offline" : "Go Online"}
               </Button>
+              <Button variant="outline" onClick={() => setCancelDayOpen(true)}>
+                <CalendarX className="w-4 h-4 mr-2" />
+                Cancel My Day
+              </Button>
+              <CalendarFeedDialog description="Subscribe to your appointment schedule." />
             </div>
           </div>
 
@@ -403,9 +517,7 @@ const DoctorDashboard = () => {
                 <div>
                   <p className="text-sm text-muted-foreground">Avg Wait Time</p>
                   <p className="text-2xl font-bold">
-                    {waitingCount > 0
-                      ? `${Math.round(waitingCount * 15)} min`
-                      : "0 min"}
+                    {avgWaitMinutes} min
                   </p>
                 </div>
                 <div className="p-2 rounded-lg bg-accent">
@@ -446,14 +558,34 @@ const DoctorDashboard = () => {
                     )}
                   </div>
 
-                  <Button
-                    variant="hero"
-                    className="w-full gap-2"
-                    onClick={completeCurrentPatient}
-                  >
-                    <CheckCircle className="w-4 h-4" />
-                    Complete Consultation
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      className="gap-2"
+                      onClick={() => skipPatient(currentToken.id)}
+                      title="Patient did not come in"
+                    >
+                      <SkipForward className="w-4 h-4" />
+                      Not Here
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="gap-2"
+                      onClick={() => setTransferToken(currentToken)}
+                      title="Transfer to another doctor or department"
+                    >
+                      <ArrowRightLeft className="w-4 h-4" />
+                      Transfer
+                    </Button>
+                    <Button
+                      variant="hero"
+                      className="flex-1 gap-2"
+                      onClick={completeCurrentPatient}
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      Complete Consultation
+                    </Button>
+                  </div>
                 </div>
               ) : (
                 <div className="text-center py-8">
@@ -490,7 +622,7 @@ const DoctorDashboard = () => {
                 <div className="space-y-3 max-h-80 overflow-y-auto">
                   {queueTokens
                     .filter((t) => t.status === "waiting")
-                    .map((token, index) => (
+                    .map((token) => (
                       <div
                         key={token.id}
                         className="flex items-center justify-between p-3 bg-muted/30 rounded-lg"
@@ -503,21 +635,104 @@ const DoctorDashboard = () => {
                               {token.patients?.last_name}
                             </p>
                             <p className="text-sm text-muted-foreground">
-                              Est. wait: {(index + 1) * 15} min
+                              Est. wait: {token.estimated_wait_minutes} min
+                              {token.appointment_id && " • Booked"}
                             </p>
+                            {token.priority_reason && (
+                              <p className="text-xs text-muted-foreground truncate max-w-48">
+                                {token.priority_reason}
+                              </p>
+                            )}
                           </div>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => skipPatient(token.id)}
-                        >
-                          <SkipForward className="w-4 h-4" />
-                        </Button>
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={token.priority}
+                            onValueChange={(value) =>
+                              updatePriority(token.id, value as QueuePriority)
+                            }
+                          >
+                            <SelectTrigger
+                              className={`h-8 w-32 text-xs ${getQueuePriority(token.priority).className}`}
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {QUEUE_PRIORITIES.map((level) => (
+                                <SelectItem key={level.value} value={level.value}>
+                                  {level.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setTransferToken(token)}
+                            title="Transfer"
+                          >
+                            <ArrowRightLeft className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => skipPatient(token.id)}
+                          >
+                            <SkipForward className="w-4 h-4" />
+                          </Button>
+                        </div>
                       </div>
                     ))}
                 </div>
               )}
+
+              {skippedTokens.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="text-sm font-semibold text-muted-foreground mb-2 flex items-center gap-2">
+                    <SkipForward className="w-4 h-4" />
+                    Skipped ({skippedTokens.length})
+                  </h3>
+                  <div className="space-y-2">
+                    {skippedTokens.map((token) => {
+                      const minutesLeft = graceMinutesLeft(token);
+                      return (
+                        <div
+                          key={token.id}
+                          className="flex items-center justify-between p-3 border border-dashed border-border rounded-lg"
+                        >
+                          <div className="flex items-center gap-3">
+                            <Badge variant="outline" className="text-muted-foreground">
+                              {token.token_number}
+                            </Badge>
+                            <div>
+                              <p className="font-medium">
+                                {token.patients?.first_name}{" "}
+                                {token.patients?.last_name}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {minutesLeft > 0
+                                  ? `${minutesLeft} min left to recall`
+                                  : "Grace period over - closes as no-show"}
+                              </p>
+                            </div>
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-1"
+                            disabled={minutesLeft === 0}
+                            onClick={() => recallPatient(token)}
+                            title={`Return to queue after ${queueSettings.recall_offset} patients`}
+                          >
+                            <Undo2 className="w-4 h-4" />
+                            Recall
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
             </Card>
           </div>
 
@@ -567,18 +782,41 @@ const DoctorDashboard = () => {
                                 : "outline"
                             }
                           >
-                            {apt.status}
+                            {appointmentStatusLabel(apt.status)}
                           </Badge>
+                          {apt.status === "cancelled" && apt.cancellation_reason && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {cancellationReasonLabel(apt.cancellation_reason)}
+                            </p>
+                          )}
                         </td>
                         <td className="p-3 text-right">
                           <div className="flex items-center justify-end gap-2">
+                            {isActiveAppointmentStatus(apt.status) &&
+                              apt.appointment_types?.kind === TELECONSULT_KIND && (
+                                <Button variant="outline" size="sm" asChild title="Open Consult Room">
+                                  <Link to={`/consult/${apt.id}`}>
+                                    <Video className="w-4 h-4" />
+                                  </Link>
+                                </Button>
+                              )}
+                            {isActiveAppointmentStatus(apt.status) && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setRescheduling(apt)}
+                                title="Reschedule"
+                              >
+                                <CalendarClock className="w-4 h-4" />
+                              </Button>
+                            )}
                             {apt.status === "pending" && (
                               <>
                                 <Button
                                   variant="outline"
                                   size="sm"
                                   onClick={() =>
-                                    updateAppointmentStatus(apt.id, "confirmed")
+                                    updateAppointmentStatus(apt, "confirmed")
                                   }
                                 >
                                   <CheckCircle className="w-4 h-4" />
@@ -586,9 +824,8 @@ const DoctorDashboard = () => {
                                 <Button
                                   variant="destructive"
                                   size="sm"
-                                  onClick={() =>
-                                    updateAppointmentStatus(apt.id, "cancelled")
-                                  }
+                                  onClick={() => setCancelling(apt)}
+                                  title="Cancel"
                                 >
                                   <XCircle className="w-4 h-4" />
                                 </Button>
@@ -607,11 +844,21 @@ const DoctorDashboard = () => {
                                 >
                                   <FileText className="w-4 h-4" />
                                 </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() =>
+                                    updateAppointmentStatus(apt, "no-show")
+                                  }
+                                  title="Mark No-show"
+                                >
+                                  <UserX className="w-4 h-4" />
+                                </Button>
                                 <Button
                                   variant="hero"
                                   size="sm"
                                   onClick={() =>
-                                    updateAppointmentStatus(apt.id, "completed")
+                                    updateAppointmentStatus(apt, "completed")
                                   }
                                 >
                                   Complete
@@ -619,18 +866,28 @@ const DoctorDashboard = () => {
                               </>
                             )}
                             {apt.status === "completed" && (
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => {
-                                  setSelectedAppointment(apt);
-                                  setPrescriptionOpen(true);
-                                }}
-                                title="Write Prescription"
-                              >
-                                <Pill className="w-4 h-4 mr-1" />
-                                Prescribe
-                              </Button>
+                              <>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setFollowUp(apt)}
+                                  title="Schedule Follow-up"
+                                >
+                                  <CalendarPlus className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => {
+                                    setSelectedAppointment(apt);
+                                    setPrescriptionOpen(true);
+                                  }}
+                                  title="Write Prescription"
+                                >
+                                  <Pill className="w-4 h-4 mr-1" />
+                                  Prescribe
+                                </Button>
+                              </>
                             )}
                           </div>
                         </td>
@@ -641,9 +898,32 @@ const DoctorDashboard = () => {
               </div>
             )}
           </Card>
+
+          {/* Calendar */}
+          <div className="mt-6">
+            <DoctorCalendar
+              doctorId={doctorProfile.id}
+              onRescheduled={() => fetchAppointments(doctorProfile.id)}
+            />
+          </div>
+
+          {/* Schedule */}
+          <div className="mt-6">
+            <DoctorScheduleManager doctorId={doctorProfile.id} />
+          </div>
         </div>
       </main>
 
+      {/* Transfer Dialog */}
+      {doctorProfile && (
+        <TransferTokenDialog
+          open={!!transferToken}
+          onOpenChange={(open) => !open && setTransferToken(null)}
+          token={transferToken}
+          currentDoctorId={doctorProfile.id}
+        />
+      )}
+
       {/* Prescription Dialog */}
       {doctorProfile && (
         <CreatePrescriptionDialog
@@ -651,6 +931,64 @@ const DoctorDashboard = () => {
           onOpenChange={setPrescriptionOpen}
           doctorId={doctorProfile.id}
           appointment={selectedAppointment}
+          onScheduleFollowUp={() => setFollowUp(selectedAppointment)}
+        />
+      )}
+
+      {doctorProfile && (
+        <RescheduleAppointmentDialog
+          appointment={
+            rescheduling && {
+              ...rescheduling,
+              doctor_id: doctorProfile.id,
+              doctorName: doctorProfile.name,
+            }
+          }
+          open={!!rescheduling}
+          onOpenChange={(open) => !open && setRescheduling(null)}
+          onSuccess={() => fetchAppointments(doctorProfile.id)}
+        />
+      )}
+
+      {doctorProfile && (
+        <ScheduleFollowUpDialog
+          appointment={
+            followUp && {
+              id: followUp.id,
+              doctor_id: doctorProfile.id,
+              patientName: followUp.patients
+                ? `${followUp.patients.first_name} ${followUp.patients.last_name}`
+                : undefined,
+            }
+          }
+          open={!!followUp}
+          onOpenChange={(open) => !open && setFollowUp(null)}
+          onSuccess={() => fetchAppointments(doctorProfile.id)}
+        />
+      )}
+
+      {doctorProfile && (
+        <CancelAppointmentDialog
+          appointment={
+            cancelling && {
+              ...cancelling,
+              patientName: cancelling.patients
+                ? `${cancelling.patients.first_name} ${cancelling.patients.last_name}`
+                : undefined,
+            }
+          }
+          open={!!cancelling}
+          onOpenChange={(open) => !open && setCancelling(null)}
+          onSuccess={() => fetchAppointments(doctorProfile.id)}
+        />
+      )}
+
+      {doctorProfile && (
+        <CancelDoctorDayDialog
+          open={cancelDayOpen}
+          onOpenChange={setCancelDayOpen}
+          doctorId={doctorProfile.id}
+          onCancelled={() => fetchAppointments(doctorProfile.id)}
         />
       )}
     </div>
@@ -87,15 +87,16 @@ const Index = () => {
       const { data: queueData } = await supabase
         .from("queue_tokens")
         .select("estimated_wait_minutes")
-        .neq("status", "completed");
+        .in("status", ["waiting", "next"]);
 
+      // Estimates are maintained by the database from real consultation times
       const avgWait =
         queueData && queueData.length > 0
           ? Math.round(
-              queueData.reduce((acc, t) => acc + t.estimated_wait_minutes, 0) /
+              queueData.reduce((acc, t) => acc + (t.estimated_wait_minutes || 0), 0) /
                 queueData.length
             )
-          : 24;
+          : 0;
 
       setStats({
         totalPatients: patientsCount || 0,
@@ -0,0 +1,231 @@
+import { useState, useEffect, useRef, useMemo } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { Activity, Volume2, VolumeX, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useRealtimeQueue, QueueToken } from "@/hooks/useRealtimeQueue";
+import { useQueueAnnouncer } from "@/hooks/useQueueAnnouncer";
+import { SUPPORTED_LANGUAGES, LanguageCode } from "@/hooks/useVoiceInput";
+import { getQueuePriority } from "@/lib/queuePriority";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { useCheckInCode } from "@/hooks/useCheckInCode";
+import { formatHospitalTime } from "@/lib/hospitalSettings";
+import { CheckInQrCode } from "@/components/appointments/CheckInQrCode";
+
+const UP_NEXT_COUNT = 6;
+
+const slugify = (value: string) =>
+  value.toLowerCase().trim().replace(/[^a-z0-9]+/g, "-");
+
+const LobbyDisplay = () => {
+  const { department: departmentSlug = "all" } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [department, setDepartment] = useState<string | undefined>();
+  const [resolving, setResolving] = useState(true);
+  const [soundEnabled, setSoundEnabled] = useState(false);
+  const [now, setNow] = useState(new Date());
+  useHospitalSettings();
+  const checkInCode = useCheckInCode();
+
+  const languages = useMemo(() => {
+    const codes = (searchParams.get("lang") || "en-IN").split(",");
+    return SUPPORTED_LANGUAGES.map((l) => l.code).filter((code) =>
+      codes.includes(code)
+    ) as LanguageCode[];
+  }, [searchParams]);
+
+  const { queue, loading } = useRealtimeQueue({ department });
+  const { isSupported, announce } = useQueueAnnouncer(languages);
+  const announcedRef = useRef<Set<string> | null>(null);
+
+  // Map the URL slug (e.g. "internal-medicine") back to a department name
+  useEffect(() => {
+    const resolveDepartment = async () => {
+      if (departmentSlug === "all") {
+        setDepartment(undefined);
+        setResolving(false);
+        return;
+      }
+
+      const { data } = await supabase.from("doctors").select("specialty");
+      const match = data?.find((d) => slugify(d.specialty) === slugify(departmentSlug));
+      setDepartment(match?.specialty || decodeURIComponent(departmentSlug));
+      setResolving(false);
+    };
+    resolveDepartment();
+  }, [departmentSlug]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const nowServing = useMemo(
+    () => queue.filter((t) => t.status === "in-progress"),
+    [queue]
+  );
+  const upNext = queue
+    .filter((t) => t.status === "waiting" || t.status === "next")
+    .slice(0, UP_NEXT_COUNT);
+
+  // Announce tokens that have been called since the last update
+  useEffect(() => {
+    if (loading || resolving) return;
+
+    const servingIds = nowServing.map((t) => t.id);
+
+    // Don't announce whoever was already being served when the screen opened
+    if (!announcedRef.current) {
+      announcedRef.current = new Set(servingIds);
+      return;
+    }
+
+    nowServing
+      .filter((t) => !announcedRef.current?.has(t.id))
+      .forEach((token) => {
+        announcedRef.current?.add(token.id);
+        if (soundEnabled) {
+          announce({
+            tokenNumber: token.token_number,
+            destination: token.rooms?.name || token.doctors?.name || token.department,
+          });
+        }
+      });
+  }, [nowServing, loading, resolving, soundEnabled, announce]);
+
+  const toggleLanguage = (code: LanguageCode) => {
+    const next = languages.includes(code)
+      ? languages.filter((l) => l !== code)
+      : [...languages, code];
+    setSearchParams(next.length ? { lang: next.join(",") } : {});
+  };
+
+  const servingLabel = (token: QueueToken) =>
+    token.doctors?.name || token.department;
+
+  const roomLabel = (token: QueueToken) =>
+    token.rooms ? `${token.rooms.name}${token.rooms.location ? ` • ${token.rooms.location}` : ""}` : null;
+
+  return (
+    <div className="min-h-screen bg-foreground text-background flex flex-col">
+      {/* Header */}
+      <header className="flex items-center justify-between px-10 py-6 border-b border-background/10">
+        <div className="flex items-center gap-4">
+          <Activity className="w-10 h-10 text-primary" />
+          <div>
+            <h1 className="text-4xl font-bold">{department || "All Departments"}</h1>
+            <p className="text-lg text-background/60">MediAI Hospital • Live Queue</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-6">
+          {/* Booked patients check themselves in on their phone. The code
+              only loads when the screen is signed in as staff. */}
+          {checkInCode && (
+            <div className="flex items-center gap-3">
+              <CheckInQrCode code={checkInCode} size={88} className="rounded-lg overflow-hidden" />
+              <p className="text-lg text-background/70 leading-tight">
+                Have a booking?
+                <br />
+                Scan to check in
+              </p>
+            </div>
+          )}
+          <div className="flex items-center gap-2 text-3xl font-semibold tabular-nums">
+            <Clock className="w-8 h-8" />
+            {formatHospitalTime(now)}
+          </div>
+          {isSupported && (
+            <Button
+              variant={soundEnabled ? "hero" : "outline"}
+              size="lg"
+              className="gap-2 text-foreground"
+              onClick={() => setSoundEnabled((prev) => !prev)}
+            >
+              {soundEnabled ? <Volume2 className="w-5 h-5" /> : <VolumeX className="w-5 h-5" />}
+              {soundEnabled ? "Announcements On" : "Enable Announcements"}
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 grid grid-cols-1 lg:grid-cols-5 gap-8 p-10">
+        {/* Now serving */}
+        <section className="lg:col-span-3">
+          <h2 className="text-3xl font-semibold mb-6 text-background/70">Now Serving</h2>
+          {nowServing.length === 0 ? (
+            <p className="text-2xl text-background/50">Please wait to be called</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {nowServing.map((token) => (
+                <div
+                  key={token.id}
+                  className="rounded-2xl bg-primary text-primary-foreground p-8 animate-slide-up"
+                >
+                  <p className="text-7xl font-bold tracking-wider">{token.token_number}</p>
+                  {roomLabel(token) && (
+                    <p className="text-4xl font-semibold mt-4">{roomLabel(token)}</p>
+                  )}
+                  <p className="text-2xl mt-2">{servingLabel(token)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Up next */}
+        <section className="lg:col-span-2">
+          <h2 className="text-3xl font-semibold mb-6 text-background/70">Up Next</h2>
+          {upNext.length === 0 ? (
+            <p className="text-2xl text-background/50">No one waiting</p>
+          ) : (
+            <ul className="space-y-4">
+              {upNext.map((token) => (
+                <li
+                  key={token.id}
+                  className="flex items-center justify-between rounded-xl bg-background/10 px-6 py-4"
+                >
+                  <div className="flex items-center gap-4">
+                    <span className="text-4xl font-bold tracking-wider">{token.token_number}</span>
+                    {token.priority !== "routine" && (
+                      <Badge
+                        variant="outline"
+                        className={`text-base ${getQueuePriority(token.priority).className}`}
+                      >
+                        {getQueuePriority(token.priority).label}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-xl">{servingLabel(token)}</p>
+                    <p className="text-lg text-background/60">~{token.estimated_wait_minutes} min</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+
+      {/* Announcement languages */}
+      {isSupported && (
+        <footer className="flex flex-wrap items-center gap-2 px-10 py-4 border-t border-background/10">
+          <span className="text-sm text-background/60 mr-2">Announcement languages:</span>
+          {SUPPORTED_LANGUAGES.map((lang) => (
+            <Button
+              key={lang.code}
+              size="sm"
+              variant={languages.includes(lang.code) ? "secondary" : "ghost"}
+              className={languages.includes(lang.code) ? "" : "text-background/60"}
+              onClick={() => toggleLanguage(lang.code)}
+            >
+              {lang.flag} {lang.label}
+            </Button>
+          ))}
+        </footer>
+      )}
+    </div>
+  );
+};
+
+export default LobbyDisplay;
@@ -6,15 +6,22 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
-import { Calendar, Clock, User, Stethoscope, Activity, AlertCircle, CheckCircle2, Timer, History, FolderOpen } from "lucide-react";
-import { format } from "date-fns";
+import { Calendar, Clock, User, Stethoscope, Activity, AlertCircle, CheckCircle2, Timer, History, FolderOpen, SkipForward, CalendarClock, Video } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { BookAppointmentDialog } from "@/components/appointments/BookAppointmentDialog";
+import { CalendarFeedDialog } from "@/components/appointments/CalendarFeedDialog";
 import { AppointmentHistory } from "@/components/patients/AppointmentHistory";
+import { RescheduleAppointmentDialog } from "@/components/appointments/RescheduleAppointmentDialog";
+import { WaitlistPanel } from "@/components/patients/WaitlistPanel";
 import { MedicalRecords } from "@/components/patients/MedicalRecords";
+import { isActiveAppointmentStatus } from "@shared/appointmentStatus";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import { formatHospitalDate, formatHospitalDateTime } from "@/lib/hospitalSettings";
+import { TELECONSULT_KIND } from "@/lib/consult";
 
 interface Appointment {
   id: string;
+  doctor_id: string | null;
   scheduled_date: string;
   scheduled_time: string;
   status: string;
@@ -24,6 +31,9 @@ interface Appointment {
     name: string;
     specialty: string;
   } | null;
+  appointment_types?: {
+    kind: string;
+  } | null;
 }
 
 interface QueueToken {
@@ -33,6 +43,7 @@ interface QueueToken {
   position: number | null;
   status: string | null;
   estimated_wait_minutes: number | null;
+  skipped_at: string | null;
   created_at: string | null;
   doctor: {
     name: string;
@@ -51,12 +62,15 @@ interface PatientProfile {
 }
 
 const PatientProfile = () => {
+  useHospitalSettings();
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
   const [patient, setPatient] = useState<PatientProfile | null>(null);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [queueTokens, setQueueTokens] = useState<QueueToken[]>([]);
   const [loading, setLoading] = useState(true);
+  const [skipGraceMinutes, setSkipGraceMinutes] = useState(15);
+  const [rescheduling, setRescheduling] = useState<Appointment | null>(null);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -85,7 +99,8 @@ const PatientProfile = () => {
           .from("appointments")
           .select(`
             *,
-            doctor:doctors(name, specialty)
+            doctor:doctors(name, specialty),
+            appointment_types (kind)
           `)
           .eq("patient_id", patientData.id)
           .order("scheduled_date", { ascending: false });
@@ -107,6 +122,15 @@ const PatientProfile = () => {
         if (queueData) {
           setQueueTokens(queueData as unknown as QueueToken[]);
         }
+
+        const { data: settingsData } = await supabase
+          .from("queue_settings")
+          .select("skip_grace_minutes")
+          .maybeSingle();
+
+        if (settingsData) {
+          setSkipGraceMinutes(settingsData.skip_grace_minutes);
+        }
       }
 
       setLoading(false);
@@ -117,12 +141,15 @@ const PatientProfile = () => {
 
   const getStatusBadge = (status: string) => {
     const statusStyles: Record<string, { variant: "default" | "secondary" | "destructive" | "outline"; icon: typeof CheckCircle2 }> = {
-      scheduled: { variant: "default", icon: Calendar },
+      pending: { variant: "default", icon: Calendar },
       confirmed: { variant: "secondary", icon: CheckCircle2 },
       completed: { variant: "outline", icon: CheckCircle2 },
       cancelled: { variant: "destructive", icon: AlertCircle },
       waiting: { variant: "default", icon: Timer },
       "in-progress": { variant: "secondary", icon: Activity },
+      skipped: { variant: "destructive", icon: SkipForward },
+      "no-show": { variant: "outline", icon: AlertCircle },
+      rescheduled: { variant: "outline", icon: Calendar },
     };
 
     const style = statusStyles[status] || { variant: "outline" as const, icon: AlertCircle };
@@ -173,8 +200,14 @@ const PatientProfile = () => {
     );
   }
 
-  const activeQueueTokens = queueTokens.filter(t => t.status === "waiting" || t.status === "in-progress");
-  const upcomingAppointments = appointments.filter(a => a.status === "scheduled" || a.status === "confirmed");
+  const activeQueueTokens = queueTokens.filter(t => t.status === "waiting" || t.status === "in-progress" || t.status === "skipped");
+
+  const graceMinutesLeft = (token: QueueToken) => {
+    if (!token.skipped_at) return 0;
+    const elapsed = (Date.now() - new Date(token.skipped_at).getTime()) / 60000;
+    return Math.max(Math.ceil(skipGraceMinutes - elapsed), 0);
+  };
+  const upcomingAppointments = appointments.filter(a => isActiveAppointmentStatus(a.status));
 
   return (
     <div className="min-h-screen bg-background">
@@ -192,7 +225,10 @@ const PatientProfile = () => {
                 <p className="text-muted-foreground">{patient.email}</p>
               </div>
             </div>
-            <BookAppointmentDialog />
+            <div className="flex items-center gap-2">
+              <CalendarFeedDialog description="Subscribe to your upcoming appointments." />
+              <BookAppointmentDialog />
+            </div>
           </div>
         </div>
 
@@ -273,6 +309,14 @@ const PatientProfile = () => {
           </TabsContent>
 
           <TabsContent value="appointments" className="space-y-4">
+            {patient && (
+              <WaitlistPanel
+                patientId={patient.id}
+                onBooked={(appointment, doctor) =>
+                  setAppointments((current) => [{ ...appointment, doctor }, ...current])
+                }
+              />
+            )}
             {appointments.length === 0 ? (
               <Card>
                 <CardContent className="py-12 text-center">
@@ -299,13 +343,36 @@ const PatientProfile = () => {
                         </div>
                       </div>
                       <div className="flex flex-col md:items-end gap-2">
-                        {getStatusBadge(appointment.status || "scheduled")}
+                        {getStatusBadge(appointment.status)}
                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
                           <Calendar className="w-4 h-4" />
-                          {format(new Date(appointment.scheduled_date), "MMM d, yyyy")}
+                          {formatHospitalDate(appointment.scheduled_date)}
                           <Clock className="w-4 h-4 ml-2" />
                           {appointment.scheduled_time}
                         </div>
+                        {isActiveAppointmentStatus(appointment.status) && (
+                          <div className="flex items-center gap-2">
+                            {appointment.appointment_types?.kind === TELECONSULT_KIND && (
+                              <Button
+                                size="sm"
+                                className="gap-1"
+                                onClick={() => navigate(`/consult/${appointment.id}`)}
+                              >
+                                <Video className="w-4 h-4" />
+                                Join Consult
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-1"
+                              onClick={() => setRescheduling(appointment)}
+                            >
+                              <CalendarClock className="w-4 h-4" />
+                              Reschedule
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -324,7 +391,7 @@ const PatientProfile = () => {
               </Card>
             ) : (
               queueTokens.map((token) => (
-                <Card key={token.id} className={`hover:border-primary/50 transition-colors ${token.status === "waiting" || token.status === "in-progress" ? "border-primary" : ""}`}>
+                <Card key={token.id} className={`hover:border-primary/50 transition-colors ${token.status === "waiting" || token.status === "in-progress" ? "border-primary" : token.status === "skipped" ? "border-destructive" : ""}`}>
                   <CardContent className="pt-6">
                     <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
                       <div className="flex items-start gap-4">
@@ -343,15 +410,24 @@ const PatientProfile = () => {
                       </div>
                       <div className="flex flex-col md:items-end gap-2">
                         {getStatusBadge(token.status || "waiting")}
-                        {token.estimated_wait_minutes && (
+                        {token.status === "waiting" && token.estimated_wait_minutes !== null && (
                           <div className="flex items-center gap-2 text-sm text-muted-foreground">
                             <Clock className="w-4 h-4" />
-                            ~{token.estimated_wait_minutes} min wait
+                            {token.estimated_wait_minutes > 0
+                              ? `~${token.estimated_wait_minutes} min wait`
+                              : "You're up next"}
                           </div>
                         )}
+                        {token.status === "skipped" && (
+                          <p className="text-sm text-destructive max-w-xs md:text-right">
+                            {graceMinutesLeft(token) > 0
+                              ? `You missed your call. Please return to reception within ${graceMinutesLeft(token)} min to be recalled.`
+                              : "You missed your call. Please speak to reception."}
+                          </p>
+                        )}
                         {token.created_at && (
                           <p className="text-xs text-muted-foreground">
-                            {format(new Date(token.created_at), "MMM d, yyyy h:mm a")}
+                            {formatHospitalDateTime(token.created_at)}
                           </p>
                         )}
                       </div>
@@ -386,7 +462,7 @@ const PatientProfile = () => {
                     <label className="text-sm text-muted-foreground">Date of Birth</label>
                     <p className="font-medium">
                       {patient.date_of_birth 
-                        ? format(new Date(patient.date_of_birth), "MMMM d, yyyy") 
+                        ? formatHospitalDate(patient.date_of_birth, "MMMM d, yyyy") 
                         : "Not provided"}
                     </p>
                   </div>
@@ -404,6 +480,26 @@ const PatientProfile = () => {
           </TabsContent>
         </Tabs>
       </main>
+
+      <RescheduleAppointmentDialog
+        appointment={
+          rescheduling && {
+            ...rescheduling,
+            doctorName: rescheduling.doctor?.name,
+          }
+        }
+        open={!!rescheduling}
+        onOpenChange={(open) => !open && setRescheduling(null)}
+        onSuccess={(updated) =>
+          setAppointments((current) =>
+            current.map((a) =>
+              a.id === updated.id
+                ? { ...a, scheduled_date: updated.scheduled_date, scheduled_time: updated.scheduled_time }
+                : a
+            )
+          )
+        }
+      />
     </div>
   );
 };
@@ -1,5 +1,6 @@
 import { Navbar } from "@/components/layout/Navbar";
 import { PatientRegistrationForm } from "@/components/patients/PatientRegistrationForm";
+import { AppointmentCheckInPanel } from "@/components/patients/AppointmentCheckInPanel";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -38,6 +39,11 @@ const Patients = () => {
             </div>
           </div>
 
+          {/* Booked patients check in here instead of registering */}
+          <div className="mb-8">
+            <AppointmentCheckInPanel />
+          </div>
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Registration Form */}
             <PatientRegistrationForm />
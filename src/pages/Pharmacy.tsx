@@ -30,6 +30,13 @@ import {
   Star
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useHospitalSettings } from "@/hooks/useHospitalSettings";
+import {
+  formatHospitalDate,
+  formatPrice,
+  loadHospitalSettings,
+  todayAtHospital,
+} from "@/lib/hospitalSettings";
 import { PrescriptionList } from "@/components/pharmacy/PrescriptionList";
 import { OrderTracking } from "@/components/pharmacy/OrderTracking";
 import { CheckoutDialog } from "@/components/pharmacy/CheckoutDialog";
@@ -74,6 +81,7 @@ interface Prescription {
 export default function Pharmacy() {
   const { user } = useAuth();
   const { toast } = useToast();
+  useHospitalSettings();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [cart, setCart] = useState<CartItem[]>([]);
@@ -114,6 +122,7 @@ export default function Pharmacy() {
     queryKey: ["prescriptions", patient?.id],
     queryFn: async () => {
       if (!patient) return [];
+      await loadHospitalSettings();
       const { data, error } = await supabase
         .from("prescriptions")
         .select(`
@@ -123,7 +132,7 @@ export default function Pharmacy() {
         `)
         .eq("patient_id", patient.id)
         .eq("is_valid", true)
-        .gte("valid_until", new Date().toISOString().split("T")[0])
+        .gte("valid_until", todayAtHospital())
         .order("created_at", { ascending: false });
       if (error) throw error;
       return data as Prescription[];
@@ -287,7 +296,7 @@ export default function Pharmacy() {
                         <div>
                           <p className="font-medium">Prescription Selected</p>
                           <p className="text-sm text-muted-foreground">
-                            By Dr. {selectedPrescription.doctor?.name} • Valid until {new Date(selectedPrescription.valid_until).toLocaleDateString()}
+                            By Dr. {selectedPrescription.doctor?.name} • Valid until {formatHospitalDate(selectedPrescription.valid_until)}
                           </p>
                         </div>
                       </div>
@@ -347,7 +356,7 @@ export default function Pharmacy() {
                         </CardContent>
                         <CardFooter className="flex items-center justify-between pt-2">
                           <span className="font-semibold text-primary">
-                            ₹{medicine.price.toFixed(2)}
+                            {formatPrice(medicine.price)}
                           </span>
                           <Button
                             size="sm"
@@ -387,7 +396,7 @@ export default function Pharmacy() {
                               <div className="flex-1 min-w-0">
                                 <p className="font-medium text-sm truncate">{item.medicine.name}</p>
                                 <p className="text-xs text-muted-foreground">
-                                  ₹{item.medicine.price.toFixed(2)} each
+                                  {formatPrice(item.medicine.price)} each
                                 </p>
                               </div>
                               <div className="flex items-center gap-1">
@@ -437,7 +446,7 @@ export default function Pharmacy() {
                         )}
                         <div className="flex justify-between w-full">
                           <span className="text-muted-foreground">Subtotal</span>
-                          <span className="font-semibold">₹{cartTotal.toFixed(2)}</span>
+                          <span className="font-semibold">{formatPrice(cartTotal)}</span>
                         </div>
                         <Button
                           className="w-full"
@@ -0,0 +1,408 @@
+import { useState } from "react";
+import { Navigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO, subDays } from "date-fns";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  BarChart3,
+  Clock,
+  Download,
+  Hourglass,
+  Ticket,
+  UserX,
+  Stethoscope,
+} from "lucide-react";
+import { Navbar } from "@/components/layout/Navbar";
+import { StatsCard } from "@/components/dashboard/StatsCard";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  downloadCsv,
+  fetchQueueAnalytics,
+  fetchQueueHourlyLoad,
+  queueAnalyticsToCsv,
+} from "@/lib/queueAnalytics";
+import { nowAtHospital, todayAtHospital } from "@/lib/hospitalSettings";
+
+const ALL = "all";
+
+const volumeChartConfig = {
+  tokens_issued: { label: "Tokens", color: "hsl(var(--primary))" },
+  appointments_booked: { label: "Appointments", color: "hsl(var(--info))" },
+} satisfies ChartConfig;
+
+const waitChartConfig = {
+  median_wait_minutes: { label: "Median wait", color: "hsl(var(--primary))" },
+  p90_wait_minutes: { label: "90th percentile", color: "hsl(var(--warning))" },
+  avg_consult_minutes: { label: "Avg consultation", color: "hsl(var(--info))" },
+} satisfies ChartConfig;
+
+const formatMinutes = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `${Math.round(value)} min`;
+
+const formatRate = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `${(value * 100).toFixed(1)}%`;
+
+const QueueAnalytics = () => {
+  const { user, loading: authLoading } = useAuth();
+  const [from, setFrom] = useState(() => format(subDays(nowAtHospital(), 29), "yyyy-MM-dd"));
+  const [to, setTo] = useState(todayAtHospital);
+  const [department, setDepartment] = useState(ALL);
+  const [doctorId, setDoctorId] = useState(ALL);
+
+  const filter = {
+    from,
+    to,
+    department: department === ALL ? null : department,
+    doctorId: doctorId === ALL ? null : doctorId,
+  };
+
+  const { data: doctors = [] } = useQuery({
+    queryKey: ["analytics-doctors"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("doctors")
+        .select("id, name, specialty")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const {
+    data: rows = [],
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["queue-analytics", filter],
+    queryFn: () => fetchQueueAnalytics(filter),
+    enabled: !!user && !!from && !!to,
+  });
+
+  const { data: hourly = [], error: hourlyError } = useQuery({
+    queryKey: ["queue-hourly-load", filter],
+    queryFn: () => fetchQueueHourlyLoad(filter),
+    enabled: !!user && !!from && !!to,
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const departments = Array.from(new Set(doctors.map((d) => d.specialty)));
+  const departmentDoctors = doctors.filter(
+    (d) => department === ALL || d.specialty === department
+  );
+
+  const total = rows.find((r) => r.grain === "total");
+  const days = rows
+    .filter((r) => r.grain === "day")
+    .map((r) => ({ ...r, label: format(parseISO(r.day), "MMM d") }));
+  const breakdown = rows.filter((r) => r.grain === "doctor");
+  const hours = hourly.map((h) => ({ ...h, label: `${String(h.hour).padStart(2, "0")}:00` }));
+  const peakHour = hourly.reduce<(typeof hourly)[number] | null>(
+    (peak, h) => (h.tokens_issued > (peak?.tokens_issued ?? 0) ? h : peak),
+    null
+  );
+
+  const exportCsv = () => {
+    downloadCsv(`queue-analytics-${from}-to-${to}.csv`, queueAnalyticsToCsv(rows));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="pt-20 pb-12">
+        <div className="container mx-auto px-4 py-8">
+          {/* Header */}
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+            <div className="flex items-center gap-3">
+              <div className="p-3 rounded-xl bg-gradient-primary">
+                <BarChart3 className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold">Queue Analytics</h1>
+                <p className="text-muted-foreground">
+                  Throughput, waits and no-shows across the hospital
+                </p>
+              </div>
+            </div>
+
+            <Button variant="outline" onClick={exportCsv} disabled={breakdown.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+
+          {/* Filters */}
+          <Card className="p-4 mb-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="analytics-from">From</Label>
+                <Input
+                  id="analytics-from"
+                  type="date"
+                  value={from}
+                  max={to}
+                  onChange={(e) => setFrom(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="analytics-to">To</Label>
+                <Input
+                  id="analytics-to"
+                  type="date"
+                  value={to}
+                  min={from}
+                  onChange={(e) => setTo(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Department</Label>
+                <Select
+                  value={department}
+                  onValueChange={(value) => {
+                    setDepartment(value);
+                    setDoctorId(ALL);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All departments</SelectItem>
+                    {departments.map((dept) => (
+                      <SelectItem key={dept} value={dept}>
+                        {dept}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Doctor</Label>
+                <Select value={doctorId} onValueChange={setDoctorId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All doctors</SelectItem>
+                    {departmentDoctors.map((doctor) => (
+                      <SelectItem key={doctor.id} value={doctor.id}>
+                        {doctor.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </Card>
+
+          {error ? (
+            <Card className="p-12 text-center">
+              <Stethoscope className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+              <h2 className="text-2xl font-bold mb-2">Analytics Unavailable</h2>
+              <p className="text-muted-foreground">
+                {error instanceof Error ? error.message : "Could not load queue analytics"}
+              </p>
+            </Card>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-24">
+              <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
+                <StatsCard
+                  title="Tokens Issued"
+                  value={total?.tokens_issued ?? 0}
+                  change={`${total?.appointments_booked ?? 0} appointments`}
+                  icon={Ticket}
+                />
+                <StatsCard
+                  title="Median Wait"
+                  value={formatMinutes(total?.median_wait_minutes)}
+                  icon={Clock}
+                  delay={50}
+                />
+                <StatsCard
+                  title="90th Percentile Wait"
+                  value={formatMinutes(total?.p90_wait_minutes)}
+                  icon={Hourglass}
+                  delay={100}
+                />
+                <StatsCard
+                  title="Avg Consultation"
+                  value={formatMinutes(total?.avg_consult_minutes)}
+                  change={`Median ${formatMinutes(total?.median_consult_minutes)}`}
+                  icon={Stethoscope}
+                  delay={150}
+                />
+                <StatsCard
+                  title="No-show Rate"
+                  value={formatRate(total?.no_show_rate)}
+                  change={`${total?.no_shows ?? 0} no-shows`}
+                  changeType={(total?.no_show_rate ?? 0) > 0.1 ? "negative" : "neutral"}
+                  icon={UserX}
+                  delay={200}
+                />
+              </div>
+
+              {/* Charts */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+                <Card className="p-6">
+                  <h2 className="text-lg font-semibold mb-4">Daily Volume</h2>
+                  <ChartContainer config={volumeChartConfig} className="h-[260px] w-full">
+                    <BarChart data={days}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Bar dataKey="tokens_issued" fill="var(--color-tokens_issued)" radius={4} />
+                      <Bar dataKey="appointments_booked" fill="var(--color-appointments_booked)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </Card>
+
+                <Card className="p-6">
+                  <h2 className="text-lg font-semibold mb-4">Wait & Consultation Times (min)</h2>
+                  <ChartContainer config={waitChartConfig} className="h-[260px] w-full">
+                    <LineChart data={days}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line dataKey="median_wait_minutes" stroke="var(--color-median_wait_minutes)" strokeWidth={2} dot={false} connectNulls />
+                      <Line dataKey="p90_wait_minutes" stroke="var(--color-p90_wait_minutes)" strokeWidth={2} dot={false} connectNulls />
+                      <Line dataKey="avg_consult_minutes" stroke="var(--color-avg_consult_minutes)" strokeWidth={2} dot={false} connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                </Card>
+
+                <Card className="p-6 lg:col-span-2">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold">Peak Hours</h2>
+                    {peakHour && (
+                      <p className="text-sm text-muted-foreground">
+                        Busiest at {String(peakHour.hour).padStart(2, "0")}:00 (
+                        {peakHour.avg_tokens_per_day} tokens/day)
+                      </p>
+                    )}
+                  </div>
+                  {hourlyError ? (
+                    <p className="text-center text-muted-foreground py-24">
+                      {hourlyError instanceof Error ? hourlyError.message : "Could not load peak hours"}
+                    </p>
+                  ) : (
+                    <ChartContainer config={volumeChartConfig} className="h-[260px] w-full">
+                      <BarChart data={hours}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} interval={1} />
+                        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="tokens_issued" fill="var(--color-tokens_issued)" radius={4} />
+                        <Bar dataKey="appointments_booked" fill="var(--color-appointments_booked)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </Card>
+              </div>
+
+              {/* Breakdown */}
+              <Card className="p-6">
+                <h2 className="text-lg font-semibold mb-4">By Day, Department & Doctor</h2>
+                {breakdown.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">
+                    No queue activity in this period
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Department</TableHead>
+                        <TableHead>Doctor</TableHead>
+                        <TableHead className="text-right">Tokens</TableHead>
+                        <TableHead className="text-right">Median Wait</TableHead>
+                        <TableHead className="text-right">P90 Wait</TableHead>
+                        <TableHead className="text-right">Consultation</TableHead>
+                        <TableHead className="text-right">No-show Rate</TableHead>
+                        <TableHead className="text-right">Appointments</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {breakdown.map((row) => (
+                        <TableRow key={`${row.day}-${row.department}-${row.doctor_id}`}>
+                          <TableCell>{format(parseISO(row.day), "MMM d, yyyy")}</TableCell>
+                          <TableCell>{row.department}</TableCell>
+                          <TableCell>{row.doctor_name || "Unassigned"}</TableCell>
+                          <TableCell className="text-right">{row.tokens_issued}</TableCell>
+                          <TableCell className="text-right">{formatMinutes(row.median_wait_minutes)}</TableCell>
+                          <TableCell className="text-right">{formatMinutes(row.p90_wait_minutes)}</TableCell>
+                          <TableCell className="text-right">{formatMinutes(row.avg_consult_minutes)}</TableCell>
+                          <TableCell className="text-right">{formatRate(row.no_show_rate)}</TableCell>
+                          <TableCell className="text-right">{row.appointments_booked}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default QueueAnalytics;
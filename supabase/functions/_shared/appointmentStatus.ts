@@ -0,0 +1,51 @@
+// Appointment lifecycle shared by the web app and the edge functions. The
+// transitions mirror the enforce_appointment_status_transition trigger, which
+// rejects any other status change in the database.
+
+export const APPOINTMENT_STATUSES = [
+  "pending",
+  "confirmed",
+  "completed",
+  "cancelled",
+  "no-show",
+  "rescheduled",
+] as const;
+
+export type AppointmentStatus = (typeof APPOINTMENT_STATUSES)[number];
+
+export const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, readonly AppointmentStatus[]> = {
+  pending: ["confirmed", "completed", "cancelled", "no-show", "rescheduled"],
+  confirmed: ["completed", "cancelled", "no-show", "rescheduled"],
+  completed: [],
+  cancelled: [],
+  "no-show": [],
+  rescheduled: [],
+};
+
+// Statuses that hold the doctor's slot
+export const ACTIVE_APPOINTMENT_STATUSES: readonly AppointmentStatus[] = ["pending", "confirmed"];
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  "no-show": "No-show",
+  rescheduled: "Rescheduled",
+};
+
+export function isAppointmentStatus(value: unknown): value is AppointmentStatus {
+  return APPOINTMENT_STATUSES.includes(value as AppointmentStatus);
+}
+
+export function isActiveAppointmentStatus(status: string | null | undefined) {
+  return ACTIVE_APPOINTMENT_STATUSES.includes(status as AppointmentStatus);
+}
+
+export function canTransitionAppointment(from: string | null | undefined, to: AppointmentStatus) {
+  return isAppointmentStatus(from) && APPOINTMENT_TRANSITIONS[from].includes(to);
+}
+
+export function appointmentStatusLabel(status: string | null | undefined) {
+  return isAppointmentStatus(status) ? APPOINTMENT_STATUS_LABELS[status] : status || "Unknown";
+}
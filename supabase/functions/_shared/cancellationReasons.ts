@@ -0,0 +1,31 @@
+// Why an appointment was cancelled, shared by the web app and the edge
+// functions. The list mirrors the appointments.cancellation_reason check
+// constraint, which rejects any other value in the database.
+
+export const CANCELLATION_REASONS = [
+  "patient_request",
+  "schedule_conflict",
+  "feeling_better",
+  "doctor_unavailable",
+  "duplicate_booking",
+  "other",
+] as const;
+
+export type CancellationReason = (typeof CANCELLATION_REASONS)[number];
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  patient_request: "Patient request",
+  schedule_conflict: "Schedule conflict",
+  feeling_better: "Feeling better",
+  doctor_unavailable: "Doctor unavailable",
+  duplicate_booking: "Duplicate booking",
+  other: "Other",
+};
+
+export function isCancellationReason(value: unknown): value is CancellationReason {
+  return CANCELLATION_REASONS.includes(value as CancellationReason);
+}
+
+export function cancellationReasonLabel(reason: string | null | undefined) {
+  return isCancellationReason(reason) ? CANCELLATION_REASON_LABELS[reason] : reason || "Not given";
+}
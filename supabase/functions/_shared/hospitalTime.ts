@@ -0,0 +1,98 @@
+// Hospital time zone, locale and currency, shared by the web app and the edge
+// functions. Stored dates such as "2026-01-05" and slot times such as
+// "09:00 AM" are the hospital's wall clock; instants such as created_at are
+// shown in the hospital's time zone, whatever the viewer's device is set to.
+
+// A row of hospital_settings
+export interface HospitalSettings {
+  timezone: string;
+  locale: string;
+  currency: string;
+  // date-fns patterns
+  date_format: string;
+  time_format: string;
+}
+
+export const DEFAULT_HOSPITAL_SETTINGS: HospitalSettings = {
+  timezone: "Asia/Kolkata",
+  locale: "en-IN",
+  currency: "INR",
+  date_format: "MMM d, yyyy",
+  time_format: "h:mm a",
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// The wall-clock fields of an instant in a time zone
+function zonedFields(instant: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(instant);
+  const field = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: field("year"),
+    month: field("month"),
+    day: field("day"),
+    hour: field("hour"),
+    minute: field("minute"),
+    second: field("second"),
+  };
+}
+
+// A Date whose local fields read the hospital's wall clock at the instant.
+// Only for formatting and calendar math; don't send it back as an instant.
+export function toHospitalTime(instant: Date, timezone: string) {
+  const { year, month, day, hour, minute, second } = zonedFields(instant, timezone);
+  return new Date(year, month - 1, day, hour, minute, second, instant.getMilliseconds());
+}
+
+// Today's date at the hospital as YYYY-MM-DD
+export function hospitalToday(timezone: string, now = new Date()) {
+  const { year, month, day } = zonedFields(now, timezone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// A YYYY-MM-DD date plus a number of days, as YYYY-MM-DD
+export function addDaysToDate(date: string, days: number) {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+// Formats a stored YYYY-MM-DD date or an instant with Intl, for code without
+// date-fns such as the edge functions. Stored dates are taken as they are;
+// instants are shown in the hospital's time zone.
+export function localizeHospitalDate(
+  value: string | Date,
+  settings: HospitalSettings,
+  options: Intl.DateTimeFormatOptions
+) {
+  if (typeof value === "string" && DATE_ONLY.test(value)) {
+    return new Date(`${value}T00:00:00Z`).toLocaleString(settings.locale, {
+      ...options,
+      timeZone: "UTC",
+    });
+  }
+
+  return new Date(value).toLocaleString(settings.locale, {
+    ...options,
+    timeZone: settings.timezone,
+  });
+}
+
+export function formatMoney(amount: number, settings: HospitalSettings) {
+  return new Intl.NumberFormat(settings.locale, {
+    style: "currency",
+    currency: settings.currency,
+  }).format(amount);
+}
@@ -0,0 +1,153 @@
+// iCalendar (RFC 5545) output shared by the web app's .ics downloads and the
+// calendar-feed edge function. Times are written in UTC, so calendar apps
+// place them correctly whatever time zone they are set to.
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  status?: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  // Raised each time the event moves, so apps replace an older copy
+  sequence?: number;
+  lastModified?: Date;
+}
+
+export interface CalendarOptions {
+  name?: string;
+  // How often subscribed apps should fetch the feed again
+  refreshMinutes?: number;
+}
+
+// A row of the appointment_calendar_events view
+export interface AppointmentCalendarRow {
+  id: string | null;
+  doctor_id: string | null;
+  appointment_type: string | null;
+  status: string | null;
+  symptoms: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  updated_at: string | null;
+  sequence: number | null;
+  doctor_name: string | null;
+  doctor_specialty: string | null;
+  patient_name: string | null;
+}
+
+const PRODUCT_ID = "-//MediAI Hospital//Appointments//EN";
+const UID_DOMAIN = "appointments.mediai-hospital";
+
+const formatUtc = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Content lines longer than 75 octets continue on lines starting with a space
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function eventLines(event: CalendarEvent, stamp: Date) {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions = {}) {
+  const stamp = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+  if (options.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshMinutes}M`);
+  }
+
+  for (const event of events) {
+    lines.push(...eventLines(event, stamp));
+  }
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// Patients see who they are seeing; doctors see who is coming
+export function appointmentCalendarEvent(
+  row: AppointmentCalendarRow,
+  audience: "patient" | "doctor"
+): CalendarEvent {
+  const kind = row.appointment_type || "Appointment";
+  const summary =
+    audience === "doctor"
+      ? `${kind}: ${row.patient_name || "Patient"}`
+      : `${kind} with ${row.doctor_name || "your doctor"}`;
+  const details = [
+    audience === "patient" ? row.doctor_specialty : null,
+    row.symptoms ? `Symptoms: ${row.symptoms}` : null,
+  ].filter(Boolean);
+
+  return {
+    uid: `${row.id}@${UID_DOMAIN}`,
+    start: new Date(row.starts_at!),
+    end: new Date(row.ends_at!),
+    summary,
+    description: details.join("\n") || undefined,
+    status:
+      row.status === "pending"
+        ? "TENTATIVE"
+        : row.status === "cancelled" || row.status === "rescheduled"
+          ? "CANCELLED"
+          : "CONFIRMED",
+    sequence: row.sequence ?? 0,
+    lastModified: row.updated_at ? new Date(row.updated_at) : undefined,
+  };
+}
@@ -0,0 +1,79 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { appointmentCalendarEvent, buildCalendar } from "../_shared/icalendar.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Calendar apps poll this URL without signing in; the token in the query
+// string identifies whose appointments to list. The feed is built from the
+// current appointments on every request.
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get("token") ?? "";
+
+    if (!TOKEN_PATTERN.test(token)) {
+      return new Response("Calendar not found", { status: 404, headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: feed, error: feedError } = await supabase
+      .from("calendar_feeds")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (feedError || !feed) {
+      if (feedError) console.error("Failed to fetch calendar feed:", feedError);
+      return new Response("Calendar not found", { status: 404, headers: corsHeaders });
+    }
+
+    const [{ data: doctor }, { data: rows, error: eventsError }] = await Promise.all([
+      supabase.from("doctors").select("id").eq("user_id", feed.user_id).maybeSingle(),
+      supabase.rpc("get_calendar_feed", { _token: token }),
+    ]);
+
+    if (eventsError) {
+      console.error("Failed to fetch calendar events:", eventsError);
+      return new Response("Failed to load calendar", { status: 500, headers: corsHeaders });
+    }
+
+    const events = (rows ?? []).map((row) =>
+      appointmentCalendarEvent(row, doctor && row.doctor_id === doctor.id ? "doctor" : "patient")
+    );
+
+    console.log(`Serving calendar feed with ${events.length} events`);
+
+    return new Response(
+      buildCalendar(events, { name: "MediAI Appointments", refreshMinutes: 15 }),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": 'inline; filename="appointments.ics"',
+          "Cache-Control": "no-store",
+        },
+      }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in calendar-feed:", error);
+    return new Response(errorMessage, { status: 500, headers: corsHeaders });
+  }
+};
+
+serve(handler);
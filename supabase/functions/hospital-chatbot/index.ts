@@ -1,5 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ACTIVE_APPOINTMENT_STATUSES } from "../_shared/appointmentStatus.ts";
+import {
+  DEFAULT_HOSPITAL_SETTINGS,
+  addDaysToDate,
+  hospitalToday,
+  localizeHospitalDate,
+} from "../_shared/hospitalTime.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -60,6 +67,26 @@ const tools = [
         required: ["doctor_id", "date"]
       }
     }
+  },
+  {
+    type: "function",
+    function: {
+      name: "join_queue",
+      description: "Issue a walk-in queue token for the patient in a department, optionally for a specific doctor. Use this when the patient wants to join today's queue.",
+      parameters: {
+        type: "object",
+        properties: {
+          doctor_id: {
+            type: "string",
+            description: "The UUID of the doctor the patient wants to see (optional)"
+          },
+          department: {
+            type: "string",
+            description: "The department/specialty to queue for, e.g. 'Cardiology' (optional when doctor_id is given)"
+          }
+        }
+      }
+    }
   }
 ];
 
@@ -97,23 +124,23 @@ async function executeToolCall(
       return JSON.stringify({ success: false, error: "Doctor not found" });
     }
 
-    // Create appointment
-    const { data: appointment, error } = await supabase
-      .from("appointments")
-      .insert({
-        patient_id: patientId,
-        doctor_id,
-        scheduled_date,
-        scheduled_time,
-        symptoms: symptoms || null,
-        status: "scheduled"
-      })
-      .select()
-      .single();
+    // Reserve the slot; the database checks the doctor's schedule and
+    // rejects past or already booked slots
+    const { data: appointment, error } = await supabase.rpc("book_appointment", {
+      _doctor_id: doctor_id,
+      _date: scheduled_date,
+      _time: scheduled_time,
+      _symptoms: symptoms || null,
+      _patient_id: patientId,
+    });
 
     if (error) {
       console.error("Appointment booking error:", error);
-      return JSON.stringify({ success: false, error: "Failed to book appointment. Please try again." });
+      return JSON.stringify({
+        success: false,
+        error: error.message || "Failed to book appointment. Please try again.",
+        hint: "Use get_available_slots to offer the patient a free time instead.",
+      });
     }
 
     return JSON.stringify({
@@ -123,40 +150,85 @@ async function executeToolCall(
         doctor_name: doctor?.name,
         specialty: doctor?.specialty,
         date: scheduled_date,
-        time: scheduled_time
+        time: appointment?.scheduled_time
       },
-      message: `Successfully booked appointment with Dr. ${doctor?.name} (${doctor?.specialty}) on ${scheduled_date} at ${scheduled_time}`
+      message: `Successfully booked appointment with Dr. ${doctor?.name} (${doctor?.specialty}) on ${scheduled_date} at ${appointment?.scheduled_time}`
     });
   }
 
   if (toolName === "get_available_slots") {
     const { doctor_id, date } = args as { doctor_id: string; date: string };
 
-    // Get existing appointments for that doctor on that date
-    const { data: existingAppointments } = await supabase
-      .from("appointments")
-      .select("scheduled_time")
-      .eq("doctor_id", doctor_id)
-      .eq("scheduled_date", date)
-      .in("status", ["scheduled", "confirmed"]);
+    // Same slot generation as the booking calendar: weekly hours, breaks,
+    // date overrides, leave and existing bookings are applied in the database
+    const { data: slots, error } = await supabase.rpc("get_doctor_slots", {
+      _doctor_id: doctor_id,
+      _from: date,
+      _to: date,
+    });
 
-    const bookedTimes = existingAppointments?.map((a: any) => a.scheduled_time) || [];
+    if (error) {
+      console.error("Slot lookup error:", error);
+      return JSON.stringify({ success: false, error: "Failed to look up available slots. Please try again." });
+    }
 
-    const allSlots = [
-      "09:00 AM", "09:30 AM", "10:00 AM", "10:30 AM", "11:00 AM", "11:30 AM",
-      "12:00 PM", "02:00 PM", "02:30 PM", "03:00 PM", "03:30 PM", "04:00 PM", "04:30 PM", "05:00 PM"
-    ];
+    const allSlots = (slots || []) as { slot_time: string; available: boolean }[];
+    const availableSlots = allSlots.filter((slot) => slot.available).map((slot) => slot.slot_time);
 
-    const availableSlots = allSlots.filter(slot => !bookedTimes.includes(slot));
+    if (allSlots.length === 0) {
+      return JSON.stringify({
+        date,
+        available_slots: [],
+        total_slots: 0,
+        message: "The doctor is not working on this date."
+      });
+    }
 
     return JSON.stringify({
       date,
       available_slots: availableSlots,
-      booked_count: bookedTimes.length,
+      booked_count: allSlots.length - availableSlots.length,
       total_slots: allSlots.length
     });
   }
 
+  if (toolName === "join_queue") {
+    if (!patientId) {
+      return JSON.stringify({
+        success: false,
+        error: "Patient not registered. Please register as a patient first before joining the queue."
+      });
+    }
+
+    const { doctor_id, department } = args as {
+      doctor_id?: string;
+      department?: string;
+    };
+
+    // Token numbers are issued by the database so they never collide with the front desk
+    const { data: token, error } = await supabase.rpc("issue_queue_token", {
+      _patient_id: patientId,
+      _doctor_id: doctor_id || null,
+      _department: department || null,
+    });
+
+    if (error || !token) {
+      console.error("Queue token error:", error);
+      return JSON.stringify({ success: false, error: "Failed to issue a queue token. Please try again." });
+    }
+
+    return JSON.stringify({
+      success: true,
+      token: {
+        token_number: token.token_number,
+        department: token.department,
+        position: token.position,
+        estimated_wait_minutes: token.estimated_wait_minutes
+      },
+      message: `Token ${token.token_number} issued for ${token.department}. Position #${token.position} in line.`
+    });
+  }
+
   return JSON.stringify({ error: "Unknown tool" });
 }
 
@@ -190,9 +262,18 @@ serve(async (req) => {
       });
     }
 
-    // Get today's date for context
-    const today = new Date().toISOString().split('T')[0];
+    // Dates and slot times are the hospital's, not the server's
+    const { data: hospitalSettings } = await supabase
+      .from("hospital_settings")
+      .select("timezone, locale, currency, date_format, time_format")
+      .maybeSingle();
+    const hospital = hospitalSettings ?? DEFAULT_HOSPITAL_SETTINGS;
+    const today = hospitalToday(hospital.timezone);
+    const tomorrow = addDaysToDate(today, 1);
+    const currentTime = localizeHospitalDate(new Date(), hospital, { hour: "numeric", minute: "2-digit" });
     contextData += `\nTODAY'S DATE: ${today}\n`;
+    contextData += `CURRENT TIME AT THE HOSPITAL: ${currentTime} (${hospital.timezone})\n`;
+    contextData += "All dates and appointment times are in the hospital's time zone.\n";
 
     // Get patient's queue status if patientId provided
     if (patientId) {
@@ -200,7 +281,7 @@ serve(async (req) => {
         .from("queue_tokens")
         .select("token_number, department, position, status, estimated_wait_minutes, doctor:doctors(name)")
         .eq("patient_id", patientId)
-        .in("status", ["waiting", "in-progress"])
+        .in("status", ["waiting", "in-progress", "skipped"])
         .order("created_at", { ascending: false });
 
       if (queueTokens && queueTokens.length > 0) {
@@ -215,7 +296,7 @@ serve(async (req) => {
         .from("appointments")
         .select("scheduled_date, scheduled_time, status, symptoms, doctor:doctors(name, specialty)")
         .eq("patient_id", patientId)
-        .in("status", ["scheduled", "confirmed", "pending"])
+        .in("status", ACTIVE_APPOINTMENT_STATUSES)
         .order("scheduled_date", { ascending: true });
 
       if (appointments && appointments.length > 0) {
@@ -258,12 +339,14 @@ serve(async (req) => {
    - Provide their current queue position if available
    - Estimate wait times
    - Suggest ways to pass time
+   - If they want to join today's walk-in queue, use the join_queue tool and then include: [ACTION:Check Queue|view_queue]
+   - If their token shows as skipped, ask them to return to reception right away so staff can recall it before the grace period ends
 
 CONTEXT DATA:${contextData}
 
 BOOKING WORKFLOW:
 1. If patient wants to book, recommend a doctor based on symptoms
-2. Ask for preferred date (suggest today: ${today} or tomorrow)
+2. Ask for preferred date (suggest today: ${today} or tomorrow: ${tomorrow})
 3. Check available slots using get_available_slots if needed
 4. Confirm and book using book_appointment
 5. Provide confirmation with all details
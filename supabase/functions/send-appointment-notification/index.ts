@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEFAULT_HOSPITAL_SETTINGS, localizeHospitalDate } from "../_shared/hospitalTime.ts";
+import { cancellationReasonLabel } from "../_shared/cancellationReasons.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,7 +14,19 @@ interface NotificationRequest {
   doctorId: string;
   date: string;
   time: string;
-  type: "confirmation" | "reminder" | "cancelled";
+  type: "confirmation" | "reminder" | "cancelled" | "rescheduled" | "waitlist_offer";
+  // The earlier slot, for "rescheduled"
+  previousDate?: string;
+  previousTime?: string;
+  // When the held slot is released, for "waitlist_offer"
+  expiresAt?: string;
+  // Which scheduled reminder this is, and the secret for its confirm/cancel links
+  reminderKind?: "24h" | "2h";
+  actionToken?: string;
+  // Why, for "cancelled", and whether the patient is being offered a new time
+  cancellationReason?: string;
+  cancellationNote?: string;
+  rebooking?: boolean;
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -22,8 +36,10 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { patientId, doctorId, date, time, type }: NotificationRequest =
-      await req.json();
+    const {
+      patientId, doctorId, date, time, type, previousDate, previousTime, expiresAt, reminderKind, actionToken,
+      cancellationReason, cancellationNote, rebooking,
+    }: NotificationRequest = await req.json();
 
     console.log(`Processing ${type} appointment notification`);
 
@@ -94,13 +110,27 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    // Format date for display
-    const formattedDate = new Date(date).toLocaleDateString("en-US", {
-      weekday: "long",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
+    // Format dates for display in the hospital's locale and time zone
+    const { data: hospitalSettings } = await supabase
+      .from("hospital_settings")
+      .select("timezone, locale, currency, date_format, time_format")
+      .maybeSingle();
+    const hospital = hospitalSettings ?? DEFAULT_HOSPITAL_SETTINGS;
+    const formatDate = (value: string) =>
+      localizeHospitalDate(value, hospital, {
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      });
+    const formattedDate = formatDate(date);
+
+    // Patients can cancel online until this many hours before the start
+    const { data: appointmentSettings } = await supabase
+      .from("appointment_settings")
+      .select("patient_cancellation_cutoff_hours")
+      .maybeSingle();
+    const cutoffHours = appointmentSettings?.patient_cancellation_cutoff_hours ?? 24;
 
     // Build email content based on notification type
     let subject = "";
@@ -140,14 +170,28 @@ const handler = async (req: Request): Promise<Response> => {
               </div>
               
               <p style="font-size: 14px; color: #64748b;">Please arrive 15 minutes before your scheduled time.</p>
-              <p style="font-size: 14px; color: #64748b;">If you need to reschedule or cancel, please do so at least 24 hours in advance.</p>
+              <p style="font-size: 14px; color: #64748b;">If you need to reschedule or cancel, please do so at least ${cutoffHours} hours in advance.</p>
             </div>
           </div>
         `;
         break;
 
-      case "reminder":
-        subject = `⏰ Appointment Reminder - Tomorrow at ${time}`;
+      case "reminder": {
+        const when = reminderKind === "2h" ? "In 2 hours" : reminderKind === "24h" ? "In 24 hours" : "Tomorrow";
+        const siteUrl = Deno.env.get("SITE_URL");
+        const respondUrl = (action: "confirm" | "cancel") =>
+          `${siteUrl}/appointments/respond?token=${actionToken}&action=${action}`;
+        // The cancel link is left out once it would be refused
+        const { data: reminder } = actionToken
+          ? await supabase
+              .from("appointment_reminders")
+              .select("appointment:appointments(starts_at)")
+              .eq("action_token", actionToken)
+              .maybeSingle()
+          : { data: null };
+        const startsAt = reminder?.appointment?.starts_at;
+        const canCancel = !!startsAt && new Date(startsAt).getTime() - cutoffHours * 3_600_000 > Date.now();
+        subject = `⏰ Appointment Reminder - ${when} at ${time}`;
         htmlContent = `
           <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
             <div style="background: linear-gradient(135deg, #f59e0b 0%, #ef4444 100%); padding: 30px; border-radius: 12px; text-align: center;">
@@ -158,16 +202,23 @@ const handler = async (req: Request): Promise<Response> => {
               <p style="font-size: 16px; color: #475569;">This is a reminder about your upcoming appointment.</p>
               
               <div style="background: #fef3c7; border: 2px solid #f59e0b; padding: 20px; border-radius: 8px; text-align: center; margin: 20px 0;">
-                <p style="margin: 0 0 10px; font-size: 14px; color: #92400e;">Tomorrow</p>
+                <p style="margin: 0 0 10px; font-size: 14px; color: #92400e;">${when} · ${formattedDate}</p>
                 <p style="margin: 0; font-size: 24px; font-weight: bold; color: #92400e;">${time}</p>
                 <p style="margin: 10px 0 0; color: #92400e;">with ${doctor.name}</p>
               </div>
+              ${siteUrl && actionToken ? `
+              <div style="text-align: center; margin: 20px 0;">
+                <a href="${respondUrl("confirm")}" style="display: inline-block; background: #0d9488; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: bold; margin: 0 5px;">I'll be there</a>
+                ${canCancel ? `<a href="${respondUrl("cancel")}" style="display: inline-block; background: white; color: #dc2626; border: 1px solid #dc2626; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: bold; margin: 0 5px;">Cancel appointment</a>` : ""}
+              </div>` : ""}
+              ${canCancel ? "" : `<p style="font-size: 14px; color: #64748b;">If you can no longer make it, please call the hospital to cancel.</p>`}
               
               <p style="font-size: 14px; color: #64748b;">Please arrive 15 minutes before your scheduled time.</p>
             </div>
           </div>
         `;
         break;
+      }
 
       case "cancelled":
         subject = `❌ Appointment Cancelled - ${formattedDate}`;
@@ -184,13 +235,75 @@ const handler = async (req: Request): Promise<Response> => {
                 <p style="margin: 0; color: #dc2626;">
                   <strong>Cancelled:</strong> ${formattedDate} at ${time} with ${doctor.name}
                 </p>
+                ${cancellationReason ? `
+                <p style="margin: 10px 0 0; color: #991b1b;">
+                  <strong>Reason:</strong> ${cancellationReasonLabel(cancellationReason)}${cancellationNote ? ` — ${cancellationNote}` : ""}
+                </p>` : ""}
+              </div>
+              
+              ${rebooking ? `
+              <p style="font-size: 14px; color: #475569;">We're sorry for the inconvenience. We've put you on ${doctor.name}'s waitlist and will email you as soon as a new time is held for you.</p>` : `
+              <p style="font-size: 14px; color: #64748b;">If you'd like to reschedule, please book a new appointment through our system.</p>`}
+            </div>
+          </div>
+        `;
+        break;
+
+      case "rescheduled":
+        subject = `🔄 Appointment Rescheduled - ${formattedDate}`;
+        htmlContent = `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background: linear-gradient(135deg, #0ea5e9 0%, #6366f1 100%); padding: 30px; border-radius: 12px; text-align: center;">
+              <h1 style="color: white; margin: 0; font-size: 28px;">Appointment Rescheduled</h1>
+            </div>
+            <div style="padding: 30px; background: #f8fafc; border-radius: 0 0 12px 12px;">
+              <p style="font-size: 18px; color: #334155;">Hello ${patientName},</p>
+              <p style="font-size: 16px; color: #475569;">Your appointment with ${doctor.name} has been moved to a new time.</p>
+              ${previousDate ? `
+              <div style="background: #f1f5f9; border: 1px solid #e2e8f0; padding: 15px 20px; border-radius: 8px; margin: 20px 0 10px;">
+                <p style="margin: 0; color: #64748b; text-decoration: line-through;">${formatDate(previousDate)}${previousTime ? ` at ${previousTime}` : ""}</p>
+              </div>` : ""}
+              <div style="background: #e0f2fe; border: 2px solid #0ea5e9; padding: 20px; border-radius: 8px; text-align: center; margin: 10px 0 20px;">
+                <p style="margin: 0 0 10px; font-size: 14px; color: #0c4a6e;">${formattedDate}</p>
+                <p style="margin: 0; font-size: 24px; font-weight: bold; color: #0c4a6e;">${time}</p>
+                <p style="margin: 10px 0 0; color: #0c4a6e;">with ${doctor.name} (${doctor.specialty})</p>
+              </div>
+              
+              <p style="font-size: 14px; color: #64748b;">Your symptoms and notes have been kept with the appointment.</p>
+            </div>
+          </div>
+        `;
+        break;
+
+      case "waitlist_offer": {
+        const holdUntil = expiresAt
+          ? localizeHospitalDate(expiresAt, hospital, { hour: "numeric", minute: "2-digit" })
+          : null;
+        subject = `🎉 A Slot Opened Up - ${formattedDate} at ${time}`;
+        htmlContent = `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background: linear-gradient(135deg, #10b981 0%, #0d9488 100%); padding: 30px; border-radius: 12px; text-align: center;">
+              <h1 style="color: white; margin: 0; font-size: 28px;">A Slot Is Available!</h1>
+            </div>
+            <div style="padding: 30px; background: #f8fafc; border-radius: 0 0 12px 12px;">
+              <p style="font-size: 18px; color: #334155;">Hello ${patientName},</p>
+              <p style="font-size: 16px; color: #475569;">An appointment you were waiting for has opened up, and we are holding it for you.</p>
+              
+              <div style="background: #d1fae5; border: 2px solid #10b981; padding: 20px; border-radius: 8px; text-align: center; margin: 20px 0;">
+                <p style="margin: 0 0 10px; font-size: 14px; color: #065f46;">${formattedDate}</p>
+                <p style="margin: 0; font-size: 24px; font-weight: bold; color: #065f46;">${time}</p>
+                <p style="margin: 10px 0 0; color: #065f46;">with ${doctor.name} (${doctor.specialty})</p>
               </div>
               
-              <p style="font-size: 14px; color: #64748b;">If you'd like to reschedule, please book a new appointment through our system.</p>
+              <p style="font-size: 14px; color: #64748b;">
+                Open your patient profile to accept it${holdUntil ? ` before <strong>${holdUntil}</strong>` : ""}.
+                After that it will be offered to the next patient on the waitlist.
+              </p>
             </div>
           </div>
         `;
         break;
+      }
     }
 
     // Send email using Resend
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { Resend } from "https://esm.sh/resend@2.0.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEFAULT_HOSPITAL_SETTINGS, formatMoney, localizeHospitalDate } from "../_shared/hospitalTime.ts";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
@@ -96,13 +97,21 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
+    // Amounts and times in the hospital's currency, locale and time zone
+    const { data: hospitalSettings } = await supabase
+      .from("hospital_settings")
+      .select("timezone, locale, currency, date_format, time_format")
+      .maybeSingle();
+    const hospital = hospitalSettings ?? DEFAULT_HOSPITAL_SETTINGS;
+    const money = (amount: number) => formatMoney(amount, hospital);
+
     // Build order items HTML
     const itemsHtml = order.pharmacy_order_items
       .map((item: any) => `
         <tr>
           <td style="padding: 8px; border-bottom: 1px solid #eee;">${item.medicine_name}</td>
           <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: center;">${item.quantity}</td>
-          <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">₹${item.total_price.toFixed(2)}</td>
+          <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${money(item.total_price)}</td>
         </tr>
       `)
       .join("");
@@ -130,7 +139,7 @@ const handler = async (req: Request): Promise<Response> => {
             <p><strong>Order Number:</strong> #${order.order_number}</p>
             <p><strong>Pharmacy:</strong> ${order.pharmacy?.name || "MediAI Pharmacy"}</p>
             ${order.estimated_delivery && newStatus === "out_for_delivery" ? `
-              <p><strong>Estimated Delivery:</strong> ${new Date(order.estimated_delivery).toLocaleString()}</p>
+              <p><strong>Estimated Delivery:</strong> ${localizeHospitalDate(order.estimated_delivery, hospital, { dateStyle: "medium", timeStyle: "short" })}</p>
             ` : ""}
             
             <h4 style="margin-bottom: 10px;">Items:</h4>
@@ -148,15 +157,15 @@ const handler = async (req: Request): Promise<Response> => {
               <tfoot>
                 <tr>
                   <td colspan="2" style="padding: 8px; font-weight: bold;">Subtotal</td>
-                  <td style="padding: 8px; text-align: right;">₹${order.subtotal.toFixed(2)}</td>
+                  <td style="padding: 8px; text-align: right;">${money(order.subtotal)}</td>
                 </tr>
                 <tr>
                   <td colspan="2" style="padding: 8px;">Delivery Fee</td>
-                  <td style="padding: 8px; text-align: right;">₹${order.delivery_fee.toFixed(2)}</td>
+                  <td style="padding: 8px; text-align: right;">${money(order.delivery_fee)}</td>
                 </tr>
                 <tr style="background: #0d9488; color: white;">
                   <td colspan="2" style="padding: 12px; font-weight: bold; border-radius: 0 0 0 8px;">Total</td>
-                  <td style="padding: 12px; text-align: right; font-weight: bold; border-radius: 0 0 8px 0;">₹${order.total.toFixed(2)}</td>
+                  <td style="padding: 12px; text-align: right; font-weight: bold; border-radius: 0 0 8px 0;">${money(order.total)}</td>
                 </tr>
               </tfoot>
             </table>
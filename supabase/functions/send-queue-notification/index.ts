@@ -11,7 +11,7 @@ interface NotificationRequest {
   tokenId: string;
   patientName: string;
   tokenNumber: string;
-  type: "called" | "upcoming" | "reminder";
+  type: "called" | "upcoming" | "reminder" | "transferred";
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -36,7 +36,9 @@ const handler = async (req: Request): Promise<Response> => {
       .from("queue_tokens")
       .select(`
         *,
-        patients (email, first_name, last_name, notification_email)
+        patients (email, first_name, last_name, notification_email),
+        doctors (name),
+        rooms (name, location)
       `)
       .eq("id", tokenId)
       .single();
@@ -49,6 +51,26 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
+    // Each token is notified at most once per type, whether the request came
+    // from a client or from the database's upcoming check
+    const { data: claimed, error: claimError } = await supabase.rpc(
+      "claim_queue_notification",
+      { _token_id: tokenId, _type: type }
+    );
+
+    if (claimError) {
+      console.error("Failed to claim notification:", claimError);
+      throw claimError;
+    }
+
+    if (!claimed) {
+      console.log(`${type} notification already sent for token ${tokenNumber}, skipping`);
+      return new Response(
+        JSON.stringify({ message: "Notification already sent", type, tokenNumber }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     const patientEmail =
       tokenData.patients?.notification_email || tokenData.patients?.email;
 
@@ -60,6 +82,19 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
+    // Latest transfer, for the "transferred" email
+    let transfer: { from_token_number: string; from_department: string; reason: string } | null = null;
+    if (type === "transferred") {
+      const { data: transferData } = await supabase
+        .from("queue_token_transfers")
+        .select("from_token_number, from_department, reason")
+        .eq("token_id", tokenId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      transfer = transferData;
+    }
+
     // Check if Resend API key is configured
     const resendApiKey = Deno.env.get("RESEND_API_KEY");
     
@@ -78,6 +113,14 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
+    // Estimates are kept current by the database as the queue moves
+    const estimatedWait = tokenData.estimated_wait_minutes ?? 0;
+    const waitText = estimatedWait > 0 ? `about ${estimatedWait} minutes` : "a few minutes";
+
+    // The room is stamped on the token when it is called
+    const roomName = tokenData.rooms?.name || "Consultation Room";
+    const roomLocation = tokenData.rooms?.location;
+
     // Build email content based on notification type
     let subject = "";
     let htmlContent = "";
@@ -95,7 +138,9 @@ const handler = async (req: Request): Promise<Response> => {
               <p style="font-size: 16px; color: #475569;">Your token number <strong style="color: #0d9488;">${tokenNumber}</strong> has been called.</p>
               <div style="background: #0d9488; color: white; padding: 20px; border-radius: 8px; text-align: center; margin: 20px 0;">
                 <p style="margin: 0; font-size: 14px;">Please proceed to</p>
-                <p style="margin: 5px 0 0; font-size: 24px; font-weight: bold;">Consultation Room</p>
+                <p style="margin: 5px 0 0; font-size: 24px; font-weight: bold;">${roomName}</p>
+                ${roomLocation ? `<p style="margin: 5px 0 0; font-size: 14px;">${roomLocation}</p>` : ""}
+                ${tokenData.doctors?.name ? `<p style="margin: 5px 0 0; font-size: 14px;">${tokenData.doctors.name}</p>` : ""}
               </div>
               <p style="font-size: 14px; color: #64748b;">Thank you for your patience.</p>
             </div>
@@ -116,7 +161,32 @@ const handler = async (req: Request): Promise<Response> => {
               <div style="background: #fef3c7; border: 2px solid #f59e0b; padding: 20px; border-radius: 8px; text-align: center; margin: 20px 0;">
                 <p style="margin: 0; font-size: 16px; color: #92400e;">Please be ready near the consultation area</p>
               </div>
-              <p style="font-size: 14px; color: #64748b;">Estimated wait: 5-10 minutes</p>
+              <p style="font-size: 14px; color: #64748b;">Estimated wait: ${waitText}</p>
+            </div>
+          </div>
+        `;
+        break;
+
+      case "transferred":
+        subject = `🔄 Queue Transfer - New Token ${tokenNumber}`;
+        htmlContent = `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background: linear-gradient(135deg, #0ea5e9 0%, #6366f1 100%); padding: 30px; border-radius: 12px; text-align: center;">
+              <h1 style="color: white; margin: 0; font-size: 28px;">You've Been Transferred</h1>
+            </div>
+            <div style="padding: 30px; background: #f8fafc; border-radius: 0 0 12px 12px;">
+              <p style="font-size: 18px; color: #334155;">Hello ${patientName},</p>
+              <p style="font-size: 16px; color: #475569;">
+                ${transfer ? `Your token ${transfer.from_token_number} (${transfer.from_department}) has been moved.` : "Your queue token has been moved."}
+                You do not need to register again.
+              </p>
+              <div style="background: #e0f2fe; border: 2px solid #0ea5e9; padding: 20px; border-radius: 8px; text-align: center; margin: 20px 0;">
+                <p style="margin: 0; font-size: 14px; color: #0c4a6e;">Your new token</p>
+                <p style="margin: 5px 0; font-size: 28px; font-weight: bold; color: #0c4a6e;">${tokenNumber}</p>
+                <p style="margin: 0; font-size: 16px; color: #0c4a6e;">${tokenData.department}${tokenData.doctors?.name ? ` • ${tokenData.doctors.name}` : ""}</p>
+              </div>
+              ${transfer?.reason ? `<p style="font-size: 14px; color: #475569;">Reason: ${transfer.reason}</p>` : ""}
+              <p style="font-size: 14px; color: #64748b;">Estimated wait: ${waitText}</p>
             </div>
           </div>
         `;
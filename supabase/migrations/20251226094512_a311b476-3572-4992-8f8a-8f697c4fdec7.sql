@@ -0,0 +1,144 @@
+-- Per-department, per-day token counters
+CREATE TABLE public.queue_token_counters (
+  department TEXT NOT NULL,
+  token_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (department, token_date)
+);
+
+ALTER TABLE public.queue_token_counters ENABLE ROW LEVEL SECURITY;
+
+-- Counters are only touched through issue_queue_token
+CREATE POLICY "Staff can view token counters" ON public.queue_token_counters
+  FOR SELECT USING (
+    public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- Tokens are only issued through issue_queue_token, which numbers them and
+-- places them in line
+DROP POLICY "Authenticated users can create tokens" ON public.queue_tokens;
+
+-- Tokens are unique per department per day
+ALTER TABLE public.queue_tokens
+  ADD COLUMN token_date DATE NOT NULL DEFAULT CURRENT_DATE;
+
+-- Existing tokens belong to the day they were issued on, in the hospital's
+-- time zone (India)
+UPDATE public.queue_tokens
+SET token_date = (COALESCE(created_at, now()) AT TIME ZONE 'Asia/Kolkata')::DATE;
+
+-- Tokens numbered by the front desk could repeat within a day. The first one
+-- issued keeps its number; later repeats get a suffix, e.g. A014-2.
+WITH repeats AS (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (
+      PARTITION BY department, token_date, token_number
+      ORDER BY created_at, id
+    ) AS occurrence
+  FROM public.queue_tokens
+)
+UPDATE public.queue_tokens t
+SET token_number = t.token_number || '-' || r.occurrence
+FROM repeats r
+WHERE r.id = t.id
+  AND r.occurrence > 1;
+
+CREATE UNIQUE INDEX queue_tokens_department_day_number_key
+  ON public.queue_tokens (department, token_date, token_number);
+
+CREATE INDEX queue_tokens_department_day_status_idx
+  ON public.queue_tokens (department, token_date, status);
+
+-- Short department code used as the token prefix, e.g. Cardiology -> CAR
+CREATE OR REPLACE FUNCTION public.department_token_prefix(_department TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    NULLIF(UPPER(LEFT(regexp_replace(_department, '[^A-Za-z]', '', 'g'), 3)), ''),
+    'GEN'
+  )
+$$;
+
+-- Issue the next token for a department atomically.
+-- The counter upsert takes a row lock that serialises concurrent callers
+-- for the same department and day until the transaction commits.
+CREATE OR REPLACE FUNCTION public.issue_queue_token(
+  _patient_id UUID,
+  _doctor_id UUID DEFAULT NULL,
+  _department TEXT DEFAULT NULL
+)
+RETURNS public.queue_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _dept TEXT;
+  _number INTEGER;
+  _position INTEGER;
+  _token public.queue_tokens;
+BEGIN
+  IF auth.uid() IS NULL AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required to issue a queue token'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient_id IS NULL THEN
+    RAISE EXCEPTION 'A patient is required to issue a queue token'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Staff issue tokens for anyone; patients only for themselves
+  IF NOT (
+    COALESCE(auth.role(), '') = 'service_role'
+    OR public.has_role(auth.uid(), 'doctor')
+    OR public.has_role(auth.uid(), 'admin')
+    OR EXISTS (SELECT 1 FROM public.patients WHERE id = _patient_id AND user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'You can only join the queue for yourself'
+      USING ERRCODE = '42501';
+  END IF;
+
+  _dept := NULLIF(TRIM(_department), '');
+
+  IF _dept IS NULL AND _doctor_id IS NOT NULL THEN
+    SELECT specialty INTO _dept FROM public.doctors WHERE id = _doctor_id;
+  END IF;
+
+  _dept := COALESCE(_dept, 'General');
+
+  INSERT INTO public.queue_token_counters AS c (department, token_date, last_number)
+  VALUES (_dept, CURRENT_DATE, 1)
+  ON CONFLICT (department, token_date)
+  DO UPDATE SET last_number = c.last_number + 1
+  RETURNING c.last_number INTO _number;
+
+  SELECT COALESCE(MAX(position), 0) + 1 INTO _position
+  FROM public.queue_tokens
+  WHERE department = _dept
+    AND token_date = CURRENT_DATE
+    AND status IN ('waiting', 'next');
+
+  INSERT INTO public.queue_tokens (
+    token_number, patient_id, doctor_id, department, status, position, token_date
+  )
+  VALUES (
+    public.department_token_prefix(_dept) || '-' || LPAD(_number::TEXT, GREATEST(3, length(_number::TEXT)), '0'),
+    _patient_id,
+    _doctor_id,
+    _dept,
+    'waiting',
+    _position,
+    CURRENT_DATE
+  )
+  RETURNING * INTO _token;
+
+  RETURN _token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_queue_token(UUID, UUID, TEXT) TO authenticated, service_role;
@@ -0,0 +1,124 @@
+-- Triage level for queue tokens
+ALTER TABLE public.queue_tokens
+  ADD COLUMN priority TEXT NOT NULL DEFAULT 'routine'
+    CHECK (priority IN ('routine', 'priority', 'urgent', 'emergency')),
+  ADD COLUMN priority_reason TEXT;
+
+-- Head start a triage level gets over a routine arrival.
+-- Because the credit is a fixed interval, every minute spent waiting ages a
+-- token by the same amount, so routine patients can't be starved forever.
+CREATE OR REPLACE FUNCTION public.queue_priority_credit(_priority TEXT)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _priority
+    WHEN 'emergency' THEN INTERVAL '240 minutes'
+    WHEN 'urgent' THEN INTERVAL '45 minutes'
+    WHEN 'priority' THEN INTERVAL '20 minutes'
+    ELSE INTERVAL '0 minutes'
+  END
+$$;
+
+-- Order in which waiting tokens are called: priority first, arrival second.
+-- Kept by a trigger rather than generated, since subtracting an interval
+-- from a timestamptz isn't immutable.
+ALTER TABLE public.queue_tokens
+  ADD COLUMN queue_sort_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.set_queue_sort_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.queue_sort_at := NEW.created_at - public.queue_priority_credit(NEW.priority);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_queue_sort_at
+  BEFORE INSERT OR UPDATE OF created_at, priority, queue_sort_at
+  ON public.queue_tokens
+  FOR EACH ROW EXECUTE FUNCTION public.set_queue_sort_at();
+
+UPDATE public.queue_tokens
+SET queue_sort_at = created_at - public.queue_priority_credit(priority);
+
+CREATE INDEX queue_tokens_department_sort_idx
+  ON public.queue_tokens (department, token_date, queue_sort_at);
+
+-- Re-create the issuing function with a triage level
+DROP FUNCTION public.issue_queue_token(UUID, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.issue_queue_token(
+  _patient_id UUID,
+  _doctor_id UUID DEFAULT NULL,
+  _department TEXT DEFAULT NULL,
+  _priority TEXT DEFAULT 'routine',
+  _priority_reason TEXT DEFAULT NULL
+)
+RETURNS public.queue_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _dept TEXT;
+  _number INTEGER;
+  _position INTEGER;
+  _token public.queue_tokens;
+BEGIN
+  IF auth.uid() IS NULL AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required to issue a queue token'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient_id IS NULL THEN
+    RAISE EXCEPTION 'A patient is required to issue a queue token'
+      USING ERRCODE = '22023';
+  END IF;
+
+  _dept := NULLIF(TRIM(_department), '');
+
+  IF _dept IS NULL AND _doctor_id IS NOT NULL THEN
+    SELECT specialty INTO _dept FROM public.doctors WHERE id = _doctor_id;
+  END IF;
+
+  _dept := COALESCE(_dept, 'General');
+
+  INSERT INTO public.queue_token_counters AS c (department, token_date, last_number)
+  VALUES (_dept, CURRENT_DATE, 1)
+  ON CONFLICT (department, token_date)
+  DO UPDATE SET last_number = c.last_number + 1
+  RETURNING c.last_number INTO _number;
+
+  SELECT COALESCE(MAX(position), 0) + 1 INTO _position
+  FROM public.queue_tokens
+  WHERE department = _dept
+    AND token_date = CURRENT_DATE
+    AND status IN ('waiting', 'next');
+
+  INSERT INTO public.queue_tokens (
+    token_number, patient_id, doctor_id, department, status, position, token_date,
+    priority, priority_reason
+  )
+  VALUES (
+    public.department_token_prefix(_dept) || '-' || LPAD(_number::TEXT, 3, '0'),
+    _patient_id,
+    _doctor_id,
+    _dept,
+    'waiting',
+    _position,
+    CURRENT_DATE,
+    COALESCE(_priority, 'routine'),
+    NULLIF(TRIM(_priority_reason), '')
+  )
+  RETURNING * INTO _token;
+
+  RETURN _token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_queue_token(UUID, UUID, TEXT, TEXT, TEXT) TO authenticated, service_role;
@@ -0,0 +1,259 @@
+-- Timestamps for queue status transitions
+ALTER TABLE public.queue_tokens
+  ADD COLUMN called_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Learned consultation length per doctor
+CREATE TABLE public.doctor_consultation_stats (
+  doctor_id UUID PRIMARY KEY REFERENCES public.doctors(id) ON DELETE CASCADE,
+  avg_consult_minutes NUMERIC(6,2) NOT NULL DEFAULT 15,
+  sample_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.doctor_consultation_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view consultation stats" ON public.doctor_consultation_stats
+  FOR SELECT USING (true);
+
+-- Stamp called_at/completed_at as tokens move through the queue
+CREATE OR REPLACE FUNCTION public.stamp_queue_token_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'in-progress' AND OLD.status IS DISTINCT FROM 'in-progress' THEN
+    NEW.called_at = now();
+  ELSIF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    NEW.completed_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_queue_token_transition
+  BEFORE UPDATE OF status ON public.queue_tokens
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_queue_token_transition();
+
+-- Fold a finished consultation into the doctor's running average.
+-- An exponential moving average follows changes in a doctor's pace, and
+-- durations outside 2-120 minutes are ignored as forgotten clicks.
+CREATE OR REPLACE FUNCTION public.record_consultation_duration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _minutes NUMERIC;
+BEGIN
+  IF NEW.doctor_id IS NULL OR NEW.called_at IS NULL OR NEW.completed_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  _minutes := EXTRACT(EPOCH FROM (NEW.completed_at - NEW.called_at)) / 60.0;
+
+  IF _minutes < 2 OR _minutes > 120 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.doctor_consultation_stats AS s (doctor_id, avg_consult_minutes, sample_count)
+  VALUES (NEW.doctor_id, _minutes, 1)
+  ON CONFLICT (doctor_id) DO UPDATE SET
+    avg_consult_minutes = CASE
+      WHEN s.sample_count = 0 THEN _minutes
+      ELSE s.avg_consult_minutes * 0.8 + _minutes * 0.2
+    END,
+    sample_count = s.sample_count + 1,
+    updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_consultation_duration
+  AFTER UPDATE OF status ON public.queue_tokens
+  FOR EACH ROW
+  WHEN (OLD.status = 'in-progress' AND NEW.status = 'completed')
+  EXECUTE FUNCTION public.record_consultation_duration();
+
+-- Average consultation minutes for a doctor, 15 until we have data
+CREATE OR REPLACE FUNCTION public.doctor_consult_minutes(_doctor_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT avg_consult_minutes FROM public.doctor_consultation_stats
+     WHERE doctor_id = _doctor_id AND sample_count > 0),
+    15
+  )
+$$;
+
+-- Recompute estimated_wait_minutes for every waiting token in a department.
+-- Each doctor's line is walked in call order: the first token waits for the
+-- rest of the current consultation, each later one for one more average
+-- consultation. Unassigned tokens share the department's available doctors.
+CREATE OR REPLACE FUNCTION public.recompute_queue_estimates(_department TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _line RECORD;
+  _token RECORD;
+  _avg NUMERIC;
+  _elapsed NUMERIC;
+  _remaining NUMERIC;
+  _doctors INTEGER;
+  _index INTEGER;
+BEGIN
+  FOR _line IN
+    SELECT DISTINCT doctor_id
+    FROM public.queue_tokens
+    WHERE department = _department
+      AND token_date = CURRENT_DATE
+      AND status IN ('waiting', 'next')
+  LOOP
+    IF _line.doctor_id IS NOT NULL THEN
+      _avg := public.doctor_consult_minutes(_line.doctor_id);
+
+      SELECT EXTRACT(EPOCH FROM (now() - called_at)) / 60.0 INTO _elapsed
+      FROM public.queue_tokens
+      WHERE doctor_id = _line.doctor_id
+        AND status = 'in-progress'
+        AND called_at IS NOT NULL
+      ORDER BY called_at DESC
+      LIMIT 1;
+
+      _remaining := CASE WHEN _elapsed IS NULL THEN 0 ELSE GREATEST(_avg - _elapsed, 0) END;
+      _doctors := 1;
+    ELSE
+      SELECT COALESCE(AVG(public.doctor_consult_minutes(id)), 15), GREATEST(COUNT(*), 1)
+      INTO _avg, _doctors
+      FROM public.doctors
+      WHERE specialty = _department AND is_available = true;
+
+      _remaining := 0;
+    END IF;
+
+    _index := 0;
+    FOR _token IN
+      SELECT id
+      FROM public.queue_tokens
+      WHERE department = _department
+        AND token_date = CURRENT_DATE
+        AND status IN ('waiting', 'next')
+        AND doctor_id IS NOT DISTINCT FROM _line.doctor_id
+      ORDER BY queue_sort_at, position
+    LOOP
+      UPDATE public.queue_tokens
+      SET estimated_wait_minutes = ROUND(_remaining + (_index / _doctors) * _avg)::INTEGER
+      WHERE id = _token.id;
+
+      _index := _index + 1;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_queue_estimates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.recompute_queue_estimates(OLD.department);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.department IS DISTINCT FROM OLD.department) THEN
+    PERFORM public.recompute_queue_estimates(NEW.department);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Only fires on columns that change the line, so the estimate updates
+-- written by recompute_queue_estimates don't retrigger it
+CREATE TRIGGER refresh_queue_estimates
+  AFTER INSERT OR DELETE OR UPDATE OF status, doctor_id, department, priority
+  ON public.queue_tokens
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_queue_estimates();
+
+-- Return the token with the estimate the trigger has just filled in
+CREATE OR REPLACE FUNCTION public.issue_queue_token(
+  _patient_id UUID,
+  _doctor_id UUID DEFAULT NULL,
+  _department TEXT DEFAULT NULL,
+  _priority TEXT DEFAULT 'routine',
+  _priority_reason TEXT DEFAULT NULL
+)
+RETURNS public.queue_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _dept TEXT;
+  _number INTEGER;
+  _position INTEGER;
+  _token public.queue_tokens;
+BEGIN
+  IF auth.uid() IS NULL AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required to issue a queue token'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient_id IS NULL THEN
+    RAISE EXCEPTION 'A patient is required to issue a queue token'
+      USING ERRCODE = '22023';
+  END IF;
+
+  _dept := NULLIF(TRIM(_department), '');
+
+  IF _dept IS NULL AND _doctor_id IS NOT NULL THEN
+    SELECT specialty INTO _dept FROM public.doctors WHERE id = _doctor_id;
+  END IF;
+
+  _dept := COALESCE(_dept, 'General');
+
+  INSERT INTO public.queue_token_counters AS c (department, token_date, last_number)
+  VALUES (_dept, CURRENT_DATE, 1)
+  ON CONFLICT (department, token_date)
+  DO UPDATE SET last_number = c.last_number + 1
+  RETURNING c.last_number INTO _number;
+
+  SELECT COALESCE(MAX(position), 0) + 1 INTO _position
+  FROM public.queue_tokens
+  WHERE department = _dept
+    AND token_date = CURRENT_DATE
+    AND status IN ('waiting', 'next');
+
+  INSERT INTO public.queue_tokens (
+    token_number, patient_id, doctor_id, department, status, position, token_date,
+    priority, priority_reason
+  )
+  VALUES (
+    public.department_token_prefix(_dept) || '-' || LPAD(_number::TEXT, 3, '0'),
+    _patient_id,
+    _doctor_id,
+    _dept,
+    'waiting',
+    _position,
+    CURRENT_DATE,
+    COALESCE(_priority, 'routine'),
+    NULLIF(TRIM(_priority_reason), '')
+  )
+  RETURNING * INTO _token;
+
+  SELECT * INTO _token FROM public.queue_tokens WHERE id = _token.id;
+
+  RETURN _token;
+END;
+$$;
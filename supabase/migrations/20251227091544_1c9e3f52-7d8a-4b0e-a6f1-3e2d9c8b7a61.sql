@@ -0,0 +1,240 @@
+-- Queue-wide settings (single row)
+CREATE TABLE public.queue_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  skip_grace_minutes INTEGER NOT NULL DEFAULT 15 CHECK (skip_grace_minutes >= 0),
+  recall_offset INTEGER NOT NULL DEFAULT 2 CHECK (recall_offset >= 0),
+  session_end_time TIME NOT NULL DEFAULT '18:00',
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+INSERT INTO public.queue_settings (id) VALUES (true);
+
+ALTER TABLE public.queue_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view queue settings" ON public.queue_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can update queue settings" ON public.queue_settings
+  FOR UPDATE USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_queue_settings_updated_at
+  BEFORE UPDATE ON public.queue_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Allow skipped and no-show tokens
+ALTER TABLE public.queue_tokens DROP CONSTRAINT queue_tokens_status_check;
+
+ALTER TABLE public.queue_tokens ADD CONSTRAINT queue_tokens_status_check
+  CHECK (status IN ('waiting', 'next', 'in-progress', 'completed', 'skipped', 'no-show'));
+
+ALTER TABLE public.queue_tokens
+  ADD COLUMN skipped_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN skip_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN queue_sort_override TIMESTAMP WITH TIME ZONE;
+
+-- A recalled token keeps an explicit place in line instead of its arrival order
+CREATE OR REPLACE FUNCTION public.set_queue_sort_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.queue_sort_at := COALESCE(
+    NEW.queue_sort_override,
+    NEW.created_at - public.queue_priority_credit(NEW.priority)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER set_queue_sort_at ON public.queue_tokens;
+
+CREATE TRIGGER set_queue_sort_at
+  BEFORE INSERT OR UPDATE OF created_at, priority, queue_sort_override, queue_sort_at
+  ON public.queue_tokens
+  FOR EACH ROW EXECUTE FUNCTION public.set_queue_sort_at();
+
+DROP TRIGGER refresh_queue_estimates ON public.queue_tokens;
+
+CREATE TRIGGER refresh_queue_estimates
+  AFTER INSERT OR DELETE OR UPDATE OF status, doctor_id, department, priority, queue_sort_override
+  ON public.queue_tokens
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_queue_estimates();
+
+-- Sort time that places a token after the first _offset tokens waiting in
+-- the same line (same doctor, or same department when unassigned)
+CREATE OR REPLACE FUNCTION public.queue_sort_at_offset(
+  _department TEXT,
+  _doctor_id UUID,
+  _offset INTEGER,
+  _exclude_id UUID DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _before TIMESTAMP WITH TIME ZONE;
+  _after TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT queue_sort_at INTO _before
+  FROM public.queue_tokens
+  WHERE department = _department
+    AND doctor_id IS NOT DISTINCT FROM _doctor_id
+    AND token_date = CURRENT_DATE
+    AND status IN ('waiting', 'next')
+    AND id IS DISTINCT FROM _exclude_id
+  ORDER BY queue_sort_at, position
+  OFFSET GREATEST(_offset - 1, 0)
+  LIMIT 1;
+
+  IF _offset <= 0 THEN
+    -- Front of the line
+    RETURN COALESCE(_before, now()) - INTERVAL '1 second';
+  END IF;
+
+  IF _before IS NULL THEN
+    -- Fewer than _offset people waiting: go to the back
+    SELECT MAX(queue_sort_at) INTO _before
+    FROM public.queue_tokens
+    WHERE department = _department
+      AND doctor_id IS NOT DISTINCT FROM _doctor_id
+      AND token_date = CURRENT_DATE
+      AND status IN ('waiting', 'next')
+      AND id IS DISTINCT FROM _exclude_id;
+
+    RETURN COALESCE(_before + INTERVAL '1 second', now());
+  END IF;
+
+  SELECT queue_sort_at INTO _after
+  FROM public.queue_tokens
+  WHERE department = _department
+    AND doctor_id IS NOT DISTINCT FROM _doctor_id
+    AND token_date = CURRENT_DATE
+    AND status IN ('waiting', 'next')
+    AND id IS DISTINCT FROM _exclude_id
+    AND queue_sort_at > _before
+  ORDER BY queue_sort_at
+  LIMIT 1;
+
+  RETURN CASE
+    WHEN _after IS NULL THEN _before + INTERVAL '1 second'
+    ELSE _before + (_after - _before) / 2
+  END;
+END;
+$$;
+
+-- Skip a waiting or called token
+CREATE OR REPLACE FUNCTION public.skip_queue_token(_token_id UUID)
+RETURNS public.queue_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token public.queue_tokens;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only staff can skip queue tokens' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.queue_tokens
+  SET status = 'skipped',
+      skipped_at = now(),
+      skip_count = skip_count + 1
+  WHERE id = _token_id
+    AND status IN ('waiting', 'next', 'in-progress')
+  RETURNING * INTO _token;
+
+  IF _token.id IS NULL THEN
+    RAISE EXCEPTION 'Token cannot be skipped in its current state' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN _token;
+END;
+$$;
+
+-- Put a skipped token back into its line, _offset places from the front
+-- (defaults to queue_settings.recall_offset). Only allowed within the grace
+-- period after the skip.
+CREATE OR REPLACE FUNCTION public.recall_queue_token(_token_id UUID, _offset INTEGER DEFAULT NULL)
+RETURNS public.queue_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token public.queue_tokens;
+  _settings public.queue_settings;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only staff can recall queue tokens' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _settings FROM public.queue_settings LIMIT 1;
+
+  SELECT * INTO _token FROM public.queue_tokens WHERE id = _token_id FOR UPDATE;
+
+  IF _token.id IS NULL OR _token.status <> 'skipped' THEN
+    RAISE EXCEPTION 'Only skipped tokens can be recalled' USING ERRCODE = '22023';
+  END IF;
+
+  IF _token.skipped_at + make_interval(mins => _settings.skip_grace_minutes) < now() THEN
+    RAISE EXCEPTION 'The grace period for token % has expired', _token.token_number
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.queue_tokens
+  SET status = 'waiting',
+      queue_sort_override = public.queue_sort_at_offset(
+        _token.department,
+        _token.doctor_id,
+        COALESCE(_offset, _settings.recall_offset),
+        _token.id
+      )
+  WHERE id = _token_id
+  RETURNING * INTO _token;
+
+  RETURN _token;
+END;
+$$;
+
+-- Close out tokens whose patient never turned up: anything still open from an
+-- earlier day, and today's skipped tokens once the session end time passes.
+CREATE OR REPLACE FUNCTION public.close_queue_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.queue_settings;
+  _closed INTEGER;
+BEGIN
+  SELECT * INTO _settings FROM public.queue_settings LIMIT 1;
+
+  UPDATE public.queue_tokens
+  SET status = 'no-show'
+  WHERE status IN ('skipped', 'waiting', 'next')
+    AND (
+      token_date < CURRENT_DATE
+      OR (status = 'skipped' AND LOCALTIME >= _settings.session_end_time)
+    );
+
+  GET DIAGNOSTICS _closed = ROW_COUNT;
+  RETURN _closed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.skip_queue_token(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.recall_queue_token(UUID, INTEGER) TO authenticated;
+
+-- Run the session close-out every 15 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'close-queue-sessions',
+  '*/15 * * * *',
+  $$SELECT public.close_queue_sessions()$$
+);
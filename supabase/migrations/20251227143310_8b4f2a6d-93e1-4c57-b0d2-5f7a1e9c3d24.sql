@@ -0,0 +1,134 @@
+-- Audit trail of tokens moved between doctors/departments
+CREATE TABLE public.queue_token_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_id UUID NOT NULL REFERENCES public.queue_tokens(id) ON DELETE CASCADE,
+  from_token_number TEXT NOT NULL,
+  from_department TEXT NOT NULL,
+  from_doctor_id UUID REFERENCES public.doctors(id) ON DELETE SET NULL,
+  to_token_number TEXT NOT NULL,
+  to_department TEXT NOT NULL,
+  to_doctor_id UUID REFERENCES public.doctors(id) ON DELETE SET NULL,
+  transferred_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX queue_token_transfers_token_idx ON public.queue_token_transfers (token_id);
+
+ALTER TABLE public.queue_token_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff and patients can view transfers" ON public.queue_token_transfers
+  FOR SELECT USING (
+    public.has_role(auth.uid(), 'doctor')
+    OR public.has_role(auth.uid(), 'admin')
+    OR token_id IN (
+      SELECT id FROM public.queue_tokens WHERE patient_id IN (
+        SELECT id FROM public.patients WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+-- Next token number for a department today, e.g. CAR-015
+CREATE OR REPLACE FUNCTION public.next_queue_token_number(_department TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _number INTEGER;
+BEGIN
+  INSERT INTO public.queue_token_counters AS c (department, token_date, last_number)
+  VALUES (_department, CURRENT_DATE, 1)
+  ON CONFLICT (department, token_date)
+  DO UPDATE SET last_number = c.last_number + 1
+  RETURNING c.last_number INTO _number;
+
+  RETURN public.department_token_prefix(_department) || '-' || LPAD(_number::TEXT, 3, '0');
+END;
+$$;
+
+-- Move a token into another doctor's or department's line at _position
+-- (1 = front). Tokens changing department get that department's numbering.
+CREATE OR REPLACE FUNCTION public.transfer_queue_token(
+  _token_id UUID,
+  _reason TEXT,
+  _to_department TEXT DEFAULT NULL,
+  _to_doctor_id UUID DEFAULT NULL,
+  _position INTEGER DEFAULT NULL
+)
+RETURNS public.queue_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token public.queue_tokens;
+  _dept TEXT;
+  _number TEXT;
+  _sort_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only staff can transfer queue tokens' USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(TRIM(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to transfer a token' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _token FROM public.queue_tokens WHERE id = _token_id FOR UPDATE;
+
+  IF _token.id IS NULL OR _token.status NOT IN ('waiting', 'next', 'in-progress', 'skipped') THEN
+    RAISE EXCEPTION 'Token cannot be transferred in its current state' USING ERRCODE = '22023';
+  END IF;
+
+  _dept := NULLIF(TRIM(_to_department), '');
+
+  IF _dept IS NULL AND _to_doctor_id IS NOT NULL THEN
+    SELECT specialty INTO _dept FROM public.doctors WHERE id = _to_doctor_id;
+  END IF;
+
+  _dept := COALESCE(_dept, _token.department);
+
+  IF _dept = _token.department AND _to_doctor_id IS NOT DISTINCT FROM _token.doctor_id THEN
+    RAISE EXCEPTION 'Token is already in that queue' USING ERRCODE = '22023';
+  END IF;
+
+  _number := CASE
+    WHEN _dept = _token.department THEN _token.token_number
+    ELSE public.next_queue_token_number(_dept)
+  END;
+
+  -- Default to the back of the new line
+  _sort_at := public.queue_sort_at_offset(
+    _dept,
+    _to_doctor_id,
+    COALESCE(_position - 1, 2147483647),
+    _token.id
+  );
+
+  INSERT INTO public.queue_token_transfers (
+    token_id, from_token_number, from_department, from_doctor_id,
+    to_token_number, to_department, to_doctor_id, transferred_by, reason
+  )
+  VALUES (
+    _token.id, _token.token_number, _token.department, _token.doctor_id,
+    _number, _dept, _to_doctor_id, auth.uid(), TRIM(_reason)
+  );
+
+  UPDATE public.queue_tokens
+  SET token_number = _number,
+      department = _dept,
+      doctor_id = _to_doctor_id,
+      status = 'waiting',
+      queue_sort_override = _sort_at
+  WHERE id = _token.id
+  RETURNING * INTO _token;
+
+  SELECT * INTO _token FROM public.queue_tokens WHERE id = _token.id;
+
+  RETURN _token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transfer_queue_token(UUID, TEXT, TEXT, UUID, INTEGER) TO authenticated;
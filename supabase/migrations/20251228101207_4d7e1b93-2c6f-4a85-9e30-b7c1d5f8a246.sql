@@ -0,0 +1,174 @@
+-- When a waiting patient counts as "up soon"
+ALTER TABLE public.queue_settings
+  ADD COLUMN upcoming_position INTEGER NOT NULL DEFAULT 3 CHECK (upcoming_position >= 0),
+  ADD COLUMN upcoming_minutes INTEGER NOT NULL DEFAULT 10 CHECK (upcoming_minutes >= 0);
+
+-- Ledger of queue notifications, one per token, token number and type.
+-- A row with sent_at NULL has been queued by the database and is waiting
+-- for send-queue-notification to claim it.
+CREATE TABLE public.queue_notifications (
+  token_id UUID NOT NULL REFERENCES public.queue_tokens(id) ON DELETE CASCADE,
+  token_number TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('called', 'upcoming', 'reminder', 'transferred')),
+  queued_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (token_id, token_number, type)
+);
+
+ALTER TABLE public.queue_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view queue notifications" ON public.queue_notifications
+  FOR SELECT USING (
+    public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- Returns true exactly once per token, token number and type, whichever
+-- path (database trigger or a client) asks first
+CREATE OR REPLACE FUNCTION public.claim_queue_notification(_token_id UUID, _type TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token_number TEXT;
+  _claimed BOOLEAN;
+BEGIN
+  SELECT token_number INTO _token_number FROM public.queue_tokens WHERE id = _token_id;
+
+  IF _token_number IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.queue_notifications
+  SET sent_at = now()
+  WHERE token_id = _token_id
+    AND token_number = _token_number
+    AND type = _type
+    AND sent_at IS NULL;
+
+  IF FOUND THEN
+    RETURN true;
+  END IF;
+
+  INSERT INTO public.queue_notifications (token_id, token_number, type, sent_at)
+  VALUES (_token_id, _token_number, _type, now())
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS _claimed = ROW_COUNT;
+  RETURN _claimed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_queue_notification(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_queue_notification(UUID, TEXT) TO service_role;
+
+-- Call an edge function from the database. The project URL is read from the
+-- vault secret "project_url"; without it the call is skipped.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(_name TEXT, _body JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _url TEXT;
+BEGIN
+  SELECT decrypted_secret INTO _url
+  FROM vault.decrypted_secrets
+  WHERE name = 'project_url';
+
+  IF _url IS NULL THEN
+    RAISE NOTICE 'project_url secret not set, skipping % call', _name;
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := _url || '/functions/v1/' || _name,
+    body := _body,
+    headers := jsonb_build_object('Content-Type', 'application/json')
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Queue an "upcoming" notification for waiting tokens that are within
+-- upcoming_position places of the front of their line or expected within
+-- upcoming_minutes
+CREATE OR REPLACE FUNCTION public.notify_upcoming_tokens(_department TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.queue_settings;
+  _token RECORD;
+BEGIN
+  SELECT * INTO _settings FROM public.queue_settings LIMIT 1;
+
+  FOR _token IN
+    WITH ranked AS (
+      SELECT
+        t.id,
+        t.token_number,
+        t.estimated_wait_minutes,
+        ROW_NUMBER() OVER (
+          PARTITION BY t.doctor_id ORDER BY t.queue_sort_at, t.position
+        ) AS place,
+        p.first_name,
+        p.last_name
+      FROM public.queue_tokens t
+      LEFT JOIN public.patients p ON p.id = t.patient_id
+      WHERE t.department = _department
+        AND t.token_date = CURRENT_DATE
+        AND t.status IN ('waiting', 'next')
+    ),
+    queued AS (
+      INSERT INTO public.queue_notifications (token_id, token_number, type)
+      SELECT id, token_number, 'upcoming'
+      FROM ranked
+      WHERE place <= _settings.upcoming_position
+         OR estimated_wait_minutes <= _settings.upcoming_minutes
+      ON CONFLICT DO NOTHING
+      RETURNING token_id
+    )
+    SELECT r.* FROM ranked r JOIN queued q ON q.token_id = r.id
+  LOOP
+    PERFORM public.invoke_edge_function(
+      'send-queue-notification',
+      jsonb_build_object(
+        'tokenId', _token.id,
+        'tokenNumber', _token.token_number,
+        'patientName', TRIM(COALESCE(_token.first_name, '') || ' ' || COALESCE(_token.last_name, '')),
+        'type', 'upcoming'
+      )
+    );
+  END LOOP;
+END;
+$$;
+
+-- Check for upcoming patients every time the estimates are refreshed
+CREATE OR REPLACE FUNCTION public.refresh_queue_estimates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.recompute_queue_estimates(OLD.department);
+    PERFORM public.notify_upcoming_tokens(OLD.department);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.department IS DISTINCT FROM OLD.department) THEN
+    PERFORM public.recompute_queue_estimates(NEW.department);
+    PERFORM public.notify_upcoming_tokens(NEW.department);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Queue views learn about tokens leaving their line from the transfer record,
+-- since the token's own UPDATE no longer matches their realtime filter
+ALTER PUBLICATION supabase_realtime ADD TABLE public.queue_token_transfers;
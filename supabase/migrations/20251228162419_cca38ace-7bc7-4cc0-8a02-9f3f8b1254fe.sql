@@ -0,0 +1,191 @@
+-- Queue and appointment throughput between two dates (inclusive).
+-- grain = 'doctor' rows are per day, department and doctor; 'day' rows total
+-- each day; the single 'total' row covers the whole range. Percentiles are
+-- computed at every grain rather than averaged from the finer rows.
+CREATE OR REPLACE FUNCTION public.queue_analytics(
+  _from DATE,
+  _to DATE,
+  _department TEXT DEFAULT NULL,
+  _doctor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  grain TEXT,
+  day DATE,
+  department TEXT,
+  doctor_id UUID,
+  doctor_name TEXT,
+  tokens_issued INTEGER,
+  tokens_completed INTEGER,
+  no_shows INTEGER,
+  no_show_rate NUMERIC,
+  median_wait_minutes NUMERIC,
+  p90_wait_minutes NUMERIC,
+  avg_consult_minutes NUMERIC,
+  median_consult_minutes NUMERIC,
+  appointments_booked INTEGER,
+  appointments_completed INTEGER,
+  appointments_cancelled INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only staff can view queue analytics' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH tokens AS (
+    SELECT
+      t.token_date AS day,
+      t.department,
+      t.doctor_id,
+      t.status,
+      EXTRACT(EPOCH FROM (t.called_at - t.created_at)) / 60 AS wait_minutes,
+      EXTRACT(EPOCH FROM (t.completed_at - t.called_at)) / 60 AS consult_minutes
+    FROM public.queue_tokens t
+    WHERE t.token_date BETWEEN _from AND _to
+      AND (_department IS NULL OR t.department = _department)
+      AND (_doctor_id IS NULL OR t.doctor_id = _doctor_id)
+  ),
+  token_stats AS (
+    SELECT
+      CASE
+        WHEN GROUPING(tokens.day) = 1 THEN 'total'
+        WHEN GROUPING(tokens.department) = 1 THEN 'day'
+        ELSE 'doctor'
+      END AS grain,
+      tokens.day,
+      tokens.department,
+      tokens.doctor_id,
+      COUNT(*)::INTEGER AS tokens_issued,
+      COUNT(*) FILTER (WHERE tokens.status = 'completed')::INTEGER AS tokens_completed,
+      COUNT(*) FILTER (WHERE tokens.status = 'no-show')::INTEGER AS no_shows,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY tokens.wait_minutes) AS median_wait,
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY tokens.wait_minutes) AS p90_wait,
+      AVG(tokens.consult_minutes) AS avg_consult,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY tokens.consult_minutes) AS median_consult
+    FROM tokens
+    GROUP BY GROUPING SETS ((tokens.day, tokens.department, tokens.doctor_id), (tokens.day), ())
+  ),
+  appts AS (
+    SELECT
+      a.scheduled_date AS day,
+      d.specialty AS department,
+      a.doctor_id,
+      a.status
+    FROM public.appointments a
+    LEFT JOIN public.doctors d ON d.id = a.doctor_id
+    WHERE a.scheduled_date BETWEEN _from AND _to
+      AND (_department IS NULL OR d.specialty = _department)
+      AND (_doctor_id IS NULL OR a.doctor_id = _doctor_id)
+  ),
+  appt_stats AS (
+    SELECT
+      CASE
+        WHEN GROUPING(appts.day) = 1 THEN 'total'
+        WHEN GROUPING(appts.department) = 1 THEN 'day'
+        ELSE 'doctor'
+      END AS grain,
+      appts.day,
+      appts.department,
+      appts.doctor_id,
+      COUNT(*)::INTEGER AS booked,
+      COUNT(*) FILTER (WHERE appts.status = 'completed')::INTEGER AS completed,
+      COUNT(*) FILTER (WHERE appts.status = 'cancelled')::INTEGER AS cancelled
+    FROM appts
+    GROUP BY GROUPING SETS ((appts.day, appts.department, appts.doctor_id), (appts.day), ())
+  )
+  SELECT
+    COALESCE(ts.grain, ap.grain),
+    COALESCE(ts.day, ap.day),
+    COALESCE(ts.department, ap.department),
+    COALESCE(ts.doctor_id, ap.doctor_id),
+    doc.name,
+    COALESCE(ts.tokens_issued, 0),
+    COALESCE(ts.tokens_completed, 0),
+    COALESCE(ts.no_shows, 0),
+    CASE
+      WHEN COALESCE(ts.tokens_issued, 0) = 0 THEN NULL
+      ELSE ROUND(ts.no_shows::NUMERIC / ts.tokens_issued, 4)
+    END,
+    ROUND(ts.median_wait::NUMERIC, 1),
+    ROUND(ts.p90_wait::NUMERIC, 1),
+    ROUND(ts.avg_consult::NUMERIC, 1),
+    ROUND(ts.median_consult::NUMERIC, 1),
+    COALESCE(ap.booked, 0),
+    COALESCE(ap.completed, 0),
+    COALESCE(ap.cancelled, 0)
+  FROM token_stats ts
+  FULL OUTER JOIN appt_stats ap
+    ON ap.grain = ts.grain
+   AND ap.day IS NOT DISTINCT FROM ts.day
+   AND ap.department IS NOT DISTINCT FROM ts.department
+   AND ap.doctor_id IS NOT DISTINCT FROM ts.doctor_id
+  LEFT JOIN public.doctors doc ON doc.id = COALESCE(ts.doctor_id, ap.doctor_id)
+  ORDER BY 2 NULLS LAST, 3 NULLS FIRST, 5 NULLS FIRST;
+END;
+$$;
+
+-- Arrivals by hour of day over the same range, for spotting peak hours
+CREATE OR REPLACE FUNCTION public.queue_hourly_load(
+  _from DATE,
+  _to DATE,
+  _department TEXT DEFAULT NULL,
+  _doctor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  hour INTEGER,
+  tokens_issued INTEGER,
+  appointments_booked INTEGER,
+  avg_tokens_per_day NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only staff can view queue analytics' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH hours AS (
+    SELECT generate_series(0, 23) AS hour
+  ),
+  token_hours AS (
+    SELECT EXTRACT(HOUR FROM t.created_at)::INTEGER AS hour, COUNT(*)::INTEGER AS issued
+    FROM public.queue_tokens t
+    WHERE t.token_date BETWEEN _from AND _to
+      AND (_department IS NULL OR t.department = _department)
+      AND (_doctor_id IS NULL OR t.doctor_id = _doctor_id)
+    GROUP BY 1
+  ),
+  appt_hours AS (
+    -- scheduled_time is stored as text such as '09:30 AM'
+    SELECT EXTRACT(HOUR FROM a.scheduled_time::TIME)::INTEGER AS hour, COUNT(*)::INTEGER AS booked
+    FROM public.appointments a
+    LEFT JOIN public.doctors d ON d.id = a.doctor_id
+    WHERE a.scheduled_date BETWEEN _from AND _to
+      AND a.status <> 'cancelled'
+      AND (_department IS NULL OR d.specialty = _department)
+      AND (_doctor_id IS NULL OR a.doctor_id = _doctor_id)
+    GROUP BY 1
+  )
+  SELECT
+    h.hour,
+    COALESCE(th.issued, 0),
+    COALESCE(ah.booked, 0),
+    ROUND(COALESCE(th.issued, 0)::NUMERIC / GREATEST(_to - _from + 1, 1), 2)
+  FROM hours h
+  LEFT JOIN token_hours th ON th.hour = h.hour
+  LEFT JOIN appt_hours ah ON ah.hour = h.hour
+  ORDER BY h.hour;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.queue_analytics(DATE, DATE, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.queue_hourly_load(DATE, DATE, TEXT, UUID) TO authenticated;
@@ -0,0 +1,132 @@
+-- Consultation rooms and counters patients are sent to when called
+CREATE TABLE public.rooms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  department TEXT,
+  location TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.rooms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view rooms" ON public.rooms
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage rooms" ON public.rooms
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- Which room a doctor is working from. A session lasts from started_at until
+-- ended_at; a doctor and a room each have at most one open session.
+CREATE TABLE public.doctor_room_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  room_id UUID NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  session_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX doctor_room_sessions_open_doctor_idx
+  ON public.doctor_room_sessions (doctor_id) WHERE ended_at IS NULL;
+
+CREATE UNIQUE INDEX doctor_room_sessions_open_room_idx
+  ON public.doctor_room_sessions (room_id) WHERE ended_at IS NULL;
+
+ALTER TABLE public.doctor_room_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view room sessions" ON public.doctor_room_sessions
+  FOR SELECT USING (true);
+
+-- Room the doctor is in right now; sessions left open from an earlier day
+-- don't count
+CREATE OR REPLACE FUNCTION public.current_doctor_room(_doctor_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT room_id
+  FROM public.doctor_room_sessions
+  WHERE doctor_id = _doctor_id
+    AND ended_at IS NULL
+    AND session_date = CURRENT_DATE
+  LIMIT 1
+$$;
+
+-- Start a session for _doctor_id (the caller's own doctor profile when
+-- omitted) in _room_id, closing whatever session either of them had open.
+-- Passing a NULL room just ends the doctor's current session.
+CREATE OR REPLACE FUNCTION public.assign_doctor_room(_room_id UUID, _doctor_id UUID DEFAULT NULL)
+RETURNS public.doctor_room_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _doctor UUID;
+  _session public.doctor_room_sessions;
+BEGIN
+  IF _doctor_id IS NULL THEN
+    SELECT id INTO _doctor FROM public.doctors WHERE user_id = auth.uid();
+  ELSIF public.has_role(auth.uid(), 'admin')
+     OR EXISTS (SELECT 1 FROM public.doctors WHERE id = _doctor_id AND user_id = auth.uid()) THEN
+    _doctor := _doctor_id;
+  END IF;
+
+  IF _doctor IS NULL THEN
+    RAISE EXCEPTION 'Not allowed to assign a room for this doctor' USING ERRCODE = '42501';
+  END IF;
+
+  IF _room_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.rooms WHERE id = _room_id AND is_active
+  ) THEN
+    RAISE EXCEPTION 'Room is not available' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.doctor_room_sessions
+  SET ended_at = now()
+  WHERE ended_at IS NULL
+    AND (doctor_id = _doctor OR room_id = _room_id);
+
+  IF _room_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.doctor_room_sessions (doctor_id, room_id)
+  VALUES (_doctor, _room_id)
+  RETURNING * INTO _session;
+
+  RETURN _session;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.assign_doctor_room(UUID, UUID) TO authenticated;
+
+-- Each call records the room the patient was sent to
+ALTER TABLE public.queue_tokens
+  ADD COLUMN room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.stamp_queue_token_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'in-progress' AND OLD.status IS DISTINCT FROM 'in-progress' THEN
+    NEW.called_at = now();
+    NEW.room_id = public.current_doctor_room(NEW.doctor_id);
+  ELSIF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    NEW.completed_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO public.rooms (name, location) VALUES
+  ('Room 1', 'Ground Floor'),
+  ('Room 2', 'Ground Floor'),
+  ('Room 3', 'First Floor'),
+  ('Room 4', 'First Floor'),
+  ('Counter A', 'Main Lobby'),
+  ('Counter B', 'Main Lobby');
@@ -0,0 +1,186 @@
+-- Weekly working hours. A doctor can have several rows per weekday for split
+-- shifts. weekday follows EXTRACT(DOW): 0 = Sunday ... 6 = Saturday.
+CREATE TABLE public.doctor_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  slot_minutes INTEGER NOT NULL DEFAULT 30 CHECK (slot_minutes BETWEEN 5 AND 240),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX doctor_schedules_doctor_idx ON public.doctor_schedules (doctor_id, weekday);
+
+-- Recurring breaks; a NULL weekday applies every day
+CREATE TABLE public.doctor_schedule_breaks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  label TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX doctor_schedule_breaks_doctor_idx ON public.doctor_schedule_breaks (doctor_id);
+
+-- Hours for a specific date. Any override on a date replaces that day's
+-- weekly hours entirely.
+CREATE TABLE public.doctor_schedule_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  override_date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  slot_minutes INTEGER NOT NULL DEFAULT 30 CHECK (slot_minutes BETWEEN 5 AND 240),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX doctor_schedule_overrides_doctor_idx
+  ON public.doctor_schedule_overrides (doctor_id, override_date);
+
+-- Days off, inclusive of both ends
+CREATE TABLE public.doctor_leave (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX doctor_leave_doctor_idx ON public.doctor_leave (doctor_id, start_date);
+
+ALTER TABLE public.doctor_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.doctor_schedule_breaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.doctor_schedule_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.doctor_leave ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view doctor schedules" ON public.doctor_schedules
+  FOR SELECT USING (true);
+
+CREATE POLICY "Doctors can manage own schedules" ON public.doctor_schedules
+  FOR ALL USING (
+    doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Anyone can view doctor breaks" ON public.doctor_schedule_breaks
+  FOR SELECT USING (true);
+
+CREATE POLICY "Doctors can manage own breaks" ON public.doctor_schedule_breaks
+  FOR ALL USING (
+    doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Anyone can view schedule overrides" ON public.doctor_schedule_overrides
+  FOR SELECT USING (true);
+
+CREATE POLICY "Doctors can manage own schedule overrides" ON public.doctor_schedule_overrides
+  FOR ALL USING (
+    doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Doctors can manage own leave" ON public.doctor_leave
+  FOR ALL USING (
+    doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- Bookable slots for a doctor between two dates (inclusive). This is the one
+-- place slots are generated; the booking calendar and the chatbot both call it.
+-- Slots overlapping a break or falling on leave are left out; booked and
+-- already-started slots are returned with available = false.
+CREATE OR REPLACE FUNCTION public.get_doctor_slots(_doctor_id UUID, _from DATE, _to DATE)
+RETURNS TABLE (
+  slot_date DATE,
+  slot_time TEXT,
+  starts_at TIME,
+  ends_at TIME,
+  available BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT d::DATE AS day
+    FROM generate_series(_from, _to, INTERVAL '1 day') AS d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.doctor_leave l
+      WHERE l.doctor_id = _doctor_id
+        AND d::DATE BETWEEN l.start_date AND l.end_date
+    )
+  ),
+  hours AS (
+    SELECT days.day, o.start_time, o.end_time, o.slot_minutes
+    FROM days
+    JOIN public.doctor_schedule_overrides o
+      ON o.doctor_id = _doctor_id AND o.override_date = days.day
+    UNION ALL
+    SELECT days.day, s.start_time, s.end_time, s.slot_minutes
+    FROM days
+    JOIN public.doctor_schedules s
+      ON s.doctor_id = _doctor_id AND s.weekday = EXTRACT(DOW FROM days.day)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.doctor_schedule_overrides o
+      WHERE o.doctor_id = _doctor_id AND o.override_date = days.day
+    )
+  ),
+  slots AS (
+    SELECT DISTINCT
+      h.day,
+      t::TIME AS starts_at,
+      (t + make_interval(mins => h.slot_minutes))::TIME AS ends_at
+    FROM hours h
+    CROSS JOIN LATERAL generate_series(
+      h.day + h.start_time,
+      h.day + h.end_time - make_interval(mins => h.slot_minutes),
+      make_interval(mins => h.slot_minutes)
+    ) AS t
+  )
+  SELECT
+    s.day,
+    to_char(s.day + s.starts_at, 'HH12:MI AM'),
+    s.starts_at,
+    s.ends_at,
+    s.day + s.starts_at > LOCALTIMESTAMP
+      AND NOT EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.doctor_id = _doctor_id
+          AND a.scheduled_date = s.day
+          AND a.scheduled_time = to_char(s.day + s.starts_at, 'HH12:MI AM')
+          AND a.status IN ('pending', 'confirmed', 'scheduled')
+      )
+  FROM slots s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.doctor_schedule_breaks b
+    WHERE b.doctor_id = _doctor_id
+      AND (b.weekday IS NULL OR b.weekday = EXTRACT(DOW FROM s.day))
+      AND s.starts_at < b.end_time
+      AND s.ends_at > b.start_time
+  )
+  ORDER BY s.day, s.starts_at
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_doctor_slots(UUID, DATE, DATE) TO anon, authenticated;
+
+-- Existing doctors keep the hours the booking screens used to hardcode:
+-- Monday to Saturday, 09:00-17:30 with lunch from 12:30 to 14:00
+INSERT INTO public.doctor_schedules (doctor_id, weekday, start_time, end_time)
+SELECT d.id, w.weekday, '09:00', '17:30'
+FROM public.doctors d
+CROSS JOIN generate_series(1, 6) AS w(weekday);
+
+INSERT INTO public.doctor_schedule_breaks (doctor_id, start_time, end_time, label)
+SELECT id, '12:30', '14:00', 'Lunch'
+FROM public.doctors;
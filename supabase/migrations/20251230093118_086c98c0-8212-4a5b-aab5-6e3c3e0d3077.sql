@@ -0,0 +1,133 @@
+-- One active booking per doctor, date and time. Earlier double bookings are
+-- resolved in favour of whoever booked first.
+UPDATE public.appointments a
+SET status = 'cancelled',
+    notes = TRIM(COALESCE(a.notes, '') || ' [Cancelled: slot was double-booked]')
+WHERE a.status IN ('pending', 'confirmed')
+  AND EXISTS (
+    SELECT 1 FROM public.appointments b
+    WHERE b.doctor_id = a.doctor_id
+      AND b.scheduled_date = a.scheduled_date
+      AND b.scheduled_time = a.scheduled_time
+      AND b.status IN ('pending', 'confirmed')
+      AND (b.created_at, b.id) < (a.created_at, a.id)
+  );
+
+CREATE UNIQUE INDEX appointments_active_slot_idx
+  ON public.appointments (doctor_id, scheduled_date, scheduled_time)
+  WHERE status IN ('pending', 'confirmed');
+
+-- Bookings go through book_appointment so the slot is checked against the
+-- doctor's schedule first
+DROP POLICY "Users can create appointments" ON public.appointments;
+
+-- Patients keep their update policy to change an appointment's status, but
+-- the time only moves through the booking functions, which check it against
+-- the doctor's schedule. The appointment's doctor, admins and database
+-- functions (running as their owner) aren't limited.
+CREATE OR REPLACE FUNCTION public.restrict_patient_appointment_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _editable TEXT[] := ARRAY['status', 'updated_at'];
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated')
+     OR public.has_role(auth.uid(), 'admin')
+     OR EXISTS (SELECT 1 FROM public.doctors WHERE id = OLD.doctor_id AND user_id = auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - _editable IS DISTINCT FROM to_jsonb(OLD) - _editable THEN
+    RAISE EXCEPTION 'Only the status of an appointment can be changed directly; reschedule it to move it'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_patient_appointment_update
+  BEFORE UPDATE ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.restrict_patient_appointment_update();
+
+-- Book _time on _date with a doctor. The slot must be one get_doctor_slots
+-- offers, still in the future and free; a slot taken concurrently fails on
+-- the unique index and is reported the same way as one already booked.
+-- _patient_id defaults to the caller's own patient record; only staff and
+-- the service role may book for someone else.
+CREATE OR REPLACE FUNCTION public.book_appointment(
+  _doctor_id UUID,
+  _date DATE,
+  _time TEXT,
+  _symptoms TEXT DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _patient_id UUID DEFAULT NULL
+)
+RETURNS public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _patient UUID;
+  _slot RECORD;
+  _appointment public.appointments;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required to book an appointment' USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient_id IS NULL THEN
+    SELECT id INTO _patient FROM public.patients WHERE user_id = auth.uid();
+  ELSIF auth.role() = 'service_role'
+     OR public.has_role(auth.uid(), 'doctor')
+     OR public.has_role(auth.uid(), 'admin')
+     OR EXISTS (SELECT 1 FROM public.patients WHERE id = _patient_id AND user_id = auth.uid()) THEN
+    _patient := _patient_id;
+  ELSE
+    RAISE EXCEPTION 'You can only book appointments for yourself' USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient IS NULL THEN
+    RAISE EXCEPTION 'Please register as a patient before booking' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _slot
+  FROM public.get_doctor_slots(_doctor_id, _date, _date) s
+  WHERE s.slot_time = TRIM(_time);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The doctor is not available at % on %', TRIM(_time), _date
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _date + _slot.starts_at <= LOCALTIMESTAMP THEN
+    RAISE EXCEPTION 'This slot is in the past' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT _slot.available THEN
+    RAISE EXCEPTION 'This slot has already been booked. Please choose another time.'
+      USING ERRCODE = '23505';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.appointments (
+      patient_id, doctor_id, scheduled_date, scheduled_time, symptoms, notes, status
+    )
+    VALUES (
+      _patient, _doctor_id, _date, _slot.slot_time,
+      NULLIF(TRIM(_symptoms), ''), NULLIF(TRIM(_notes), ''), 'pending'
+    )
+    RETURNING * INTO _appointment;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'This slot has already been booked. Please choose another time.'
+      USING ERRCODE = '23505';
+  END;
+
+  RETURN _appointment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.book_appointment(UUID, DATE, TEXT, TEXT, TEXT, UUID) TO authenticated;
@@ -0,0 +1,139 @@
+-- Appointment lifecycle. Keep in step with
+-- supabase/functions/_shared/appointmentStatus.ts, which the app and the edge
+-- functions use to decide which actions to offer.
+ALTER TABLE public.appointments DROP CONSTRAINT appointments_status_check;
+
+ALTER TABLE public.appointments ADD CONSTRAINT appointments_status_check
+  CHECK (status IN ('pending', 'confirmed', 'completed', 'cancelled', 'no-show', 'rescheduled'));
+
+UPDATE public.appointments SET status = 'pending' WHERE status IS NULL;
+
+ALTER TABLE public.appointments ALTER COLUMN status SET NOT NULL;
+
+-- Allowed status changes:
+--   pending   -> confirmed, completed, cancelled, no-show, rescheduled
+--   confirmed -> completed, cancelled, no-show, rescheduled
+-- completed, cancelled, no-show and rescheduled are final.
+-- Patients updating their own appointment may only cancel it; the other
+-- changes are for the appointment's doctor, admins, the service role and
+-- database functions (running as their owner), which check the caller
+-- themselves.
+CREATE OR REPLACE FUNCTION public.enforce_appointment_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('pending', 'confirmed') THEN
+      RAISE EXCEPTION 'New appointments must be pending or confirmed, not %', NEW.status
+        USING ERRCODE = '22023';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending'
+      AND NEW.status IN ('confirmed', 'completed', 'cancelled', 'no-show', 'rescheduled'))
+    OR (OLD.status = 'confirmed'
+      AND NEW.status IN ('completed', 'cancelled', 'no-show', 'rescheduled'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot change a % appointment to %', OLD.status, NEW.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.status <> 'cancelled'
+     AND current_user IN ('anon', 'authenticated')
+     AND NOT public.has_role(auth.uid(), 'admin')
+     AND NOT EXISTS (
+       SELECT 1 FROM public.doctors WHERE id = OLD.doctor_id AND user_id = auth.uid()
+     ) THEN
+    RAISE EXCEPTION 'Only the doctor or hospital staff can mark an appointment %', NEW.status
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_appointment_status_transition
+  BEFORE INSERT OR UPDATE OF status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_appointment_status_transition();
+
+-- Only pending and confirmed appointments hold a slot
+CREATE OR REPLACE FUNCTION public.get_doctor_slots(_doctor_id UUID, _from DATE, _to DATE)
+RETURNS TABLE (
+  slot_date DATE,
+  slot_time TEXT,
+  starts_at TIME,
+  ends_at TIME,
+  available BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT d::DATE AS day
+    FROM generate_series(_from, _to, INTERVAL '1 day') AS d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.doctor_leave l
+      WHERE l.doctor_id = _doctor_id
+        AND d::DATE BETWEEN l.start_date AND l.end_date
+    )
+  ),
+  hours AS (
+    SELECT days.day, o.start_time, o.end_time, o.slot_minutes
+    FROM days
+    JOIN public.doctor_schedule_overrides o
+      ON o.doctor_id = _doctor_id AND o.override_date = days.day
+    UNION ALL
+    SELECT days.day, s.start_time, s.end_time, s.slot_minutes
+    FROM days
+    JOIN public.doctor_schedules s
+      ON s.doctor_id = _doctor_id AND s.weekday = EXTRACT(DOW FROM days.day)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.doctor_schedule_overrides o
+      WHERE o.doctor_id = _doctor_id AND o.override_date = days.day
+    )
+  ),
+  slots AS (
+    SELECT DISTINCT
+      h.day,
+      t::TIME AS starts_at,
+      (t + make_interval(mins => h.slot_minutes))::TIME AS ends_at
+    FROM hours h
+    CROSS JOIN LATERAL generate_series(
+      h.day + h.start_time,
+      h.day + h.end_time - make_interval(mins => h.slot_minutes),
+      make_interval(mins => h.slot_minutes)
+    ) AS t
+  )
+  SELECT
+    s.day,
+    to_char(s.day + s.starts_at, 'HH12:MI AM'),
+    s.starts_at,
+    s.ends_at,
+    s.day + s.starts_at > LOCALTIMESTAMP
+      AND NOT EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.doctor_id = _doctor_id
+          AND a.scheduled_date = s.day
+          AND a.scheduled_time = to_char(s.day + s.starts_at, 'HH12:MI AM')
+          AND a.status IN ('pending', 'confirmed')
+      )
+  FROM slots s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.doctor_schedule_breaks b
+    WHERE b.doctor_id = _doctor_id
+      AND (b.weekday IS NULL OR b.weekday = EXTRACT(DOW FROM s.day))
+      AND s.starts_at < b.end_time
+      AND s.ends_at > b.start_time
+  )
+  ORDER BY s.day, s.starts_at
+$$;
@@ -0,0 +1,187 @@
+-- Earlier times of rescheduled appointments, newest last
+CREATE TABLE public.appointment_reschedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  from_date DATE NOT NULL,
+  from_time TEXT NOT NULL,
+  to_date DATE NOT NULL,
+  to_time TEXT NOT NULL,
+  reason TEXT,
+  rescheduled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX appointment_reschedules_appointment_idx
+  ON public.appointment_reschedules (appointment_id, created_at);
+
+ALTER TABLE public.appointment_reschedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Appointment parties can view reschedules" ON public.appointment_reschedules
+  FOR SELECT USING (
+    public.has_role(auth.uid(), 'admin')
+    OR appointment_id IN (
+      SELECT id FROM public.appointments
+      WHERE patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+         OR doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+    )
+  );
+
+-- Checks that _time on _date is a free, future slot in the doctor's schedule
+-- and returns it in the canonical "09:00 AM" form. Shared by booking and
+-- rescheduling so both reject the same slots with the same messages.
+CREATE OR REPLACE FUNCTION public.resolve_bookable_slot(_doctor_id UUID, _date DATE, _time TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _slot RECORD;
+BEGIN
+  SELECT * INTO _slot
+  FROM public.get_doctor_slots(_doctor_id, _date, _date) s
+  WHERE s.slot_time = TRIM(_time);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The doctor is not available at % on %', TRIM(_time), _date
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _date + _slot.starts_at <= LOCALTIMESTAMP THEN
+    RAISE EXCEPTION 'This slot is in the past' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT _slot.available THEN
+    RAISE EXCEPTION 'This slot has already been booked. Please choose another time.'
+      USING ERRCODE = '23505';
+  END IF;
+
+  RETURN _slot.slot_time;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_appointment(
+  _doctor_id UUID,
+  _date DATE,
+  _time TEXT,
+  _symptoms TEXT DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _patient_id UUID DEFAULT NULL
+)
+RETURNS public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _patient UUID;
+  _slot_time TEXT;
+  _appointment public.appointments;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required to book an appointment' USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient_id IS NULL THEN
+    SELECT id INTO _patient FROM public.patients WHERE user_id = auth.uid();
+  ELSIF auth.role() = 'service_role'
+     OR public.has_role(auth.uid(), 'doctor')
+     OR public.has_role(auth.uid(), 'admin')
+     OR EXISTS (SELECT 1 FROM public.patients WHERE id = _patient_id AND user_id = auth.uid()) THEN
+    _patient := _patient_id;
+  ELSE
+    RAISE EXCEPTION 'You can only book appointments for yourself' USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient IS NULL THEN
+    RAISE EXCEPTION 'Please register as a patient before booking' USING ERRCODE = '22023';
+  END IF;
+
+  _slot_time := public.resolve_bookable_slot(_doctor_id, _date, _time);
+
+  BEGIN
+    INSERT INTO public.appointments (
+      patient_id, doctor_id, scheduled_date, scheduled_time, symptoms, notes, status
+    )
+    VALUES (
+      _patient, _doctor_id, _date, _slot_time,
+      NULLIF(TRIM(_symptoms), ''), NULLIF(TRIM(_notes), ''), 'pending'
+    )
+    RETURNING * INTO _appointment;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'This slot has already been booked. Please choose another time.'
+      USING ERRCODE = '23505';
+  END;
+
+  RETURN _appointment;
+END;
+$$;
+
+-- Moves an active appointment to another slot with the same doctor, keeping
+-- its symptoms, notes and status, and records the earlier time. The patient,
+-- the appointment's doctor and admins may reschedule.
+CREATE OR REPLACE FUNCTION public.reschedule_appointment(
+  _appointment_id UUID,
+  _date DATE,
+  _time TEXT,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _slot_time TEXT;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR _appointment.patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+    OR _appointment.doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to reschedule this appointment' USING ERRCODE = '42501';
+  END IF;
+
+  IF _appointment.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Only pending or confirmed appointments can be rescheduled'
+      USING ERRCODE = '22023';
+  END IF;
+
+  _slot_time := public.resolve_bookable_slot(_appointment.doctor_id, _date, _time);
+
+  INSERT INTO public.appointment_reschedules (
+    appointment_id, from_date, from_time, to_date, to_time, reason, rescheduled_by
+  )
+  VALUES (
+    _appointment.id, _appointment.scheduled_date, _appointment.scheduled_time,
+    _date, _slot_time, NULLIF(TRIM(_reason), ''), auth.uid()
+  );
+
+  BEGIN
+    UPDATE public.appointments
+    SET scheduled_date = _date,
+        scheduled_time = _slot_time,
+        updated_at = now()
+    WHERE id = _appointment.id
+    RETURNING * INTO _appointment;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'This slot has already been booked. Please choose another time.'
+      USING ERRCODE = '23505';
+  END;
+
+  RETURN _appointment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_appointment(UUID, DATE, TEXT, TEXT) TO authenticated;
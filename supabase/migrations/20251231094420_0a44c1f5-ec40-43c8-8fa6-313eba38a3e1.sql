@@ -0,0 +1,466 @@
+-- Single-row settings for appointment booking
+CREATE TABLE public.appointment_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  -- How long a freed slot is held for a waitlisted patient before it is
+  -- offered to the next one
+  waitlist_hold_minutes INTEGER NOT NULL DEFAULT 30 CHECK (waitlist_hold_minutes > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+INSERT INTO public.appointment_settings (id) VALUES (true);
+
+ALTER TABLE public.appointment_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view appointment settings" ON public.appointment_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can update appointment settings" ON public.appointment_settings
+  FOR UPDATE USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_appointment_settings_updated_at
+  BEFORE UPDATE ON public.appointment_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Patients waiting for any slot with a doctor between two dates (inclusive).
+-- Entries are served first come, first served.
+CREATE TABLE public.appointment_waitlist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  from_date DATE NOT NULL,
+  to_date DATE NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'booked', 'cancelled', 'expired')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (to_date >= from_date)
+);
+
+CREATE UNIQUE INDEX appointment_waitlist_waiting_idx
+  ON public.appointment_waitlist (patient_id, doctor_id)
+  WHERE status = 'waiting';
+
+CREATE INDEX appointment_waitlist_doctor_idx
+  ON public.appointment_waitlist (doctor_id, created_at)
+  WHERE status = 'waiting';
+
+-- A freed slot held for one waitlisted patient until expires_at
+CREATE TABLE public.appointment_slot_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  waitlist_id UUID NOT NULL REFERENCES public.appointment_waitlist(id) ON DELETE CASCADE,
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  slot_date DATE NOT NULL,
+  slot_time TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'withdrawn')),
+  offered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL
+);
+
+-- A slot is held for one patient at a time, and a patient holds one slot
+CREATE UNIQUE INDEX appointment_slot_offers_pending_slot_idx
+  ON public.appointment_slot_offers (doctor_id, slot_date, slot_time)
+  WHERE status = 'pending';
+
+CREATE UNIQUE INDEX appointment_slot_offers_pending_waitlist_idx
+  ON public.appointment_slot_offers (waitlist_id)
+  WHERE status = 'pending';
+
+ALTER TABLE public.appointment_waitlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.appointment_slot_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patients and doctors can view waitlist entries" ON public.appointment_waitlist
+  FOR SELECT USING (
+    patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+    OR doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Patients and doctors can view slot offers" ON public.appointment_slot_offers
+  FOR SELECT USING (
+    waitlist_id IN (
+      SELECT id FROM public.appointment_waitlist
+      WHERE patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+    )
+    OR doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- Slots held by a pending offer are not available to anyone else
+CREATE OR REPLACE FUNCTION public.get_doctor_slots(_doctor_id UUID, _from DATE, _to DATE)
+RETURNS TABLE (
+  slot_date DATE,
+  slot_time TEXT,
+  starts_at TIME,
+  ends_at TIME,
+  available BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT d::DATE AS day
+    FROM generate_series(_from, _to, INTERVAL '1 day') AS d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.doctor_leave l
+      WHERE l.doctor_id = _doctor_id
+        AND d::DATE BETWEEN l.start_date AND l.end_date
+    )
+  ),
+  hours AS (
+    SELECT days.day, o.start_time, o.end_time, o.slot_minutes
+    FROM days
+    JOIN public.doctor_schedule_overrides o
+      ON o.doctor_id = _doctor_id AND o.override_date = days.day
+    UNION ALL
+    SELECT days.day, s.start_time, s.end_time, s.slot_minutes
+    FROM days
+    JOIN public.doctor_schedules s
+      ON s.doctor_id = _doctor_id AND s.weekday = EXTRACT(DOW FROM days.day)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.doctor_schedule_overrides o
+      WHERE o.doctor_id = _doctor_id AND o.override_date = days.day
+    )
+  ),
+  slots AS (
+    SELECT DISTINCT
+      h.day,
+      t::TIME AS starts_at,
+      (t + make_interval(mins => h.slot_minutes))::TIME AS ends_at
+    FROM hours h
+    CROSS JOIN LATERAL generate_series(
+      h.day + h.start_time,
+      h.day + h.end_time - make_interval(mins => h.slot_minutes),
+      make_interval(mins => h.slot_minutes)
+    ) AS t
+  )
+  SELECT
+    s.day,
+    to_char(s.day + s.starts_at, 'HH12:MI AM'),
+    s.starts_at,
+    s.ends_at,
+    s.day + s.starts_at > LOCALTIMESTAMP
+      AND NOT EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.doctor_id = _doctor_id
+          AND a.scheduled_date = s.day
+          AND a.scheduled_time = to_char(s.day + s.starts_at, 'HH12:MI AM')
+          AND a.status IN ('pending', 'confirmed')
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.appointment_slot_offers o
+        WHERE o.doctor_id = _doctor_id
+          AND o.slot_date = s.day
+          AND o.slot_time = to_char(s.day + s.starts_at, 'HH12:MI AM')
+          AND o.status = 'pending'
+      )
+  FROM slots s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.doctor_schedule_breaks b
+    WHERE b.doctor_id = _doctor_id
+      AND (b.weekday IS NULL OR b.weekday = EXTRACT(DOW FROM s.day))
+      AND s.starts_at < b.end_time
+      AND s.ends_at > b.start_time
+  )
+  ORDER BY s.day, s.starts_at
+$$;
+
+-- Offer a free slot to the first waitlisted patient whose range covers it and
+-- who hasn't been offered it before, and email them. Does nothing when the
+-- slot is past, taken, already held or nobody is waiting.
+CREATE OR REPLACE FUNCTION public.offer_waitlist_slot(_doctor_id UUID, _date DATE, _time TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.appointment_waitlist;
+  _offer public.appointment_slot_offers;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.get_doctor_slots(_doctor_id, _date, _date) s
+    WHERE s.slot_time = _time AND s.available
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT w.* INTO _entry
+  FROM public.appointment_waitlist w
+  WHERE w.doctor_id = _doctor_id
+    AND w.status = 'waiting'
+    AND _date BETWEEN w.from_date AND w.to_date
+    AND NOT EXISTS (
+      SELECT 1 FROM public.appointment_slot_offers o
+      WHERE o.waitlist_id = w.id
+        AND (o.status = 'pending' OR (o.slot_date = _date AND o.slot_time = _time))
+    )
+  ORDER BY w.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.appointment_slot_offers (waitlist_id, doctor_id, slot_date, slot_time, expires_at)
+  SELECT _entry.id, _doctor_id, _date, _time,
+         now() + make_interval(mins => s.waitlist_hold_minutes)
+  FROM public.appointment_settings s
+  RETURNING * INTO _offer;
+
+  PERFORM public.invoke_edge_function(
+    'send-appointment-notification',
+    jsonb_build_object(
+      'patientId', _entry.patient_id,
+      'doctorId', _doctor_id,
+      'date', _date,
+      'time', _time,
+      'type', 'waitlist_offer',
+      'expiresAt', _offer.expires_at
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_waitlist_slot(UUID, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- A slot frees up when an active appointment is cancelled, marked
+-- rescheduled, or moved to another time
+CREATE OR REPLACE FUNCTION public.offer_freed_appointment_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status IN ('pending', 'confirmed')
+     AND OLD.doctor_id IS NOT NULL
+     AND (
+       NEW.status IN ('cancelled', 'rescheduled')
+       OR NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+       OR NEW.scheduled_time IS DISTINCT FROM OLD.scheduled_time
+       OR NEW.doctor_id IS DISTINCT FROM OLD.doctor_id
+     ) THEN
+    PERFORM public.offer_waitlist_slot(OLD.doctor_id, OLD.scheduled_date, OLD.scheduled_time);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER offer_freed_appointment_slot
+  AFTER UPDATE ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.offer_freed_appointment_slot();
+
+-- Join the waitlist for a doctor. Patients join for themselves; staff may add
+-- a patient by id.
+CREATE OR REPLACE FUNCTION public.join_appointment_waitlist(
+  _doctor_id UUID,
+  _from DATE,
+  _to DATE,
+  _notes TEXT DEFAULT NULL,
+  _patient_id UUID DEFAULT NULL
+)
+RETURNS public.appointment_waitlist
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _patient UUID;
+  _entry public.appointment_waitlist;
+BEGIN
+  IF _patient_id IS NULL THEN
+    SELECT id INTO _patient FROM public.patients WHERE user_id = auth.uid();
+  ELSIF public.has_role(auth.uid(), 'doctor')
+     OR public.has_role(auth.uid(), 'admin')
+     OR EXISTS (SELECT 1 FROM public.patients WHERE id = _patient_id AND user_id = auth.uid()) THEN
+    _patient := _patient_id;
+  ELSE
+    RAISE EXCEPTION 'You can only join the waitlist for yourself' USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient IS NULL THEN
+    RAISE EXCEPTION 'Please register as a patient before joining the waitlist' USING ERRCODE = '22023';
+  END IF;
+
+  IF _to < _from OR _to < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Choose a date range that ends today or later' USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.appointment_waitlist (patient_id, doctor_id, from_date, to_date, notes)
+    VALUES (_patient, _doctor_id, GREATEST(_from, CURRENT_DATE), _to, NULLIF(TRIM(_notes), ''))
+    RETURNING * INTO _entry;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'You are already on the waitlist for this doctor' USING ERRCODE = '23505';
+  END;
+
+  RETURN _entry;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_appointment_waitlist(UUID, DATE, DATE, TEXT, UUID) TO authenticated;
+
+-- Leave the waitlist, releasing any slot currently held for the entry
+CREATE OR REPLACE FUNCTION public.leave_appointment_waitlist(_entry_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.appointment_waitlist;
+  _offer public.appointment_slot_offers;
+BEGIN
+  SELECT * INTO _entry FROM public.appointment_waitlist WHERE id = _entry_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    _entry.patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this waitlist entry' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.appointment_waitlist SET status = 'cancelled'
+  WHERE id = _entry_id AND status = 'waiting';
+
+  UPDATE public.appointment_slot_offers
+  SET status = 'withdrawn', responded_at = now()
+  WHERE waitlist_id = _entry_id AND status = 'pending'
+  RETURNING * INTO _offer;
+
+  IF _offer.id IS NOT NULL THEN
+    PERFORM public.offer_waitlist_slot(_offer.doctor_id, _offer.slot_date, _offer.slot_time);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.leave_appointment_waitlist(UUID) TO authenticated;
+
+-- Book the held slot for the waitlisted patient
+CREATE OR REPLACE FUNCTION public.accept_slot_offer(_offer_id UUID)
+RETURNS public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.appointment_slot_offers;
+  _entry public.appointment_waitlist;
+  _appointment public.appointments;
+BEGIN
+  SELECT * INTO _offer FROM public.appointment_slot_offers WHERE id = _offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _entry FROM public.appointment_waitlist WHERE id = _offer.waitlist_id FOR UPDATE;
+
+  IF NOT (
+    _entry.patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to accept this offer' USING ERRCODE = '42501';
+  END IF;
+
+  IF _offer.status <> 'pending' OR _offer.expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer is no longer available' USING ERRCODE = '22023';
+  END IF;
+
+  -- Release the hold so the slot can be booked
+  UPDATE public.appointment_slot_offers
+  SET status = 'accepted', responded_at = now()
+  WHERE id = _offer.id;
+
+  _appointment := public.book_appointment(
+    _offer.doctor_id, _offer.slot_date, _offer.slot_time, _entry.notes, NULL, _entry.patient_id
+  );
+
+  UPDATE public.appointment_slot_offers SET appointment_id = _appointment.id WHERE id = _offer.id;
+  UPDATE public.appointment_waitlist SET status = 'booked' WHERE id = _entry.id;
+
+  RETURN _appointment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_slot_offer(UUID) TO authenticated;
+
+-- Turn the held slot down; it goes to the next patient on the waitlist.
+-- The patient stays on the waitlist for other slots.
+CREATE OR REPLACE FUNCTION public.decline_slot_offer(_offer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.appointment_slot_offers;
+BEGIN
+  SELECT o.* INTO _offer
+  FROM public.appointment_slot_offers o
+  JOIN public.appointment_waitlist w ON w.id = o.waitlist_id
+  WHERE o.id = _offer_id
+    AND (
+      w.patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+      OR public.has_role(auth.uid(), 'admin')
+    )
+  FOR UPDATE OF o;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not allowed to decline this offer' USING ERRCODE = '42501';
+  END IF;
+
+  IF _offer.status <> 'pending' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.appointment_slot_offers
+  SET status = 'declined', responded_at = now()
+  WHERE id = _offer.id;
+
+  PERFORM public.offer_waitlist_slot(_offer.doctor_id, _offer.slot_date, _offer.slot_time);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.decline_slot_offer(UUID) TO authenticated;
+
+-- Expire unanswered offers and pass their slots on, and close waitlist
+-- entries whose date range has passed
+CREATE OR REPLACE FUNCTION public.expire_slot_offers()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.appointment_slot_offers;
+BEGIN
+  FOR _offer IN
+    UPDATE public.appointment_slot_offers
+    SET status = 'expired'
+    WHERE status = 'pending' AND expires_at <= now()
+    RETURNING *
+  LOOP
+    PERFORM public.offer_waitlist_slot(_offer.doctor_id, _offer.slot_date, _offer.slot_time);
+  END LOOP;
+
+  UPDATE public.appointment_waitlist
+  SET status = 'expired'
+  WHERE status = 'waiting' AND to_date < CURRENT_DATE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_slot_offers() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-slot-offers',
+  '* * * * *',
+  $$SELECT public.expire_slot_offers()$$
+);
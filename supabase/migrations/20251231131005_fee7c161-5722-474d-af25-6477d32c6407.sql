@@ -0,0 +1,184 @@
+-- Reminders sent for each appointment. A row is written when the reminder is
+-- queued, so each kind goes out once. action_token is the secret in the
+-- reminder's confirm and cancel links.
+CREATE TABLE public.appointment_reminders (
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('24h', '2h')),
+  action_token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  response TEXT CHECK (response IN ('confirmed', 'cancelled')),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (appointment_id, kind)
+);
+
+ALTER TABLE public.appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Tokens stay server-side; staff can see what was sent
+CREATE POLICY "Staff can view appointment reminders" ON public.appointment_reminders
+  FOR SELECT USING (
+    public.has_role(auth.uid(), 'doctor')
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- Start of an appointment as a local timestamp
+CREATE OR REPLACE FUNCTION public.appointment_starts_at(_appointment public.appointments)
+RETURNS TIMESTAMP
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT _appointment.scheduled_date + _appointment.scheduled_time::TIME
+$$;
+
+-- A rescheduled appointment gets fresh reminders for its new time; links in
+-- the earlier reminders stop working
+CREATE OR REPLACE FUNCTION public.reset_appointment_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+     OR NEW.scheduled_time IS DISTINCT FROM OLD.scheduled_time THEN
+    DELETE FROM public.appointment_reminders WHERE appointment_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_appointment_reminders
+  AFTER UPDATE OF scheduled_date, scheduled_time ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.reset_appointment_reminders();
+
+-- Queue the 24-hour and 2-hour reminders that are due for confirmed
+-- appointments. An appointment booked less than two hours ahead only gets the
+-- 2-hour one.
+CREATE OR REPLACE FUNCTION public.send_appointment_reminders()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reminder RECORD;
+BEGIN
+  FOR _reminder IN
+    WITH due AS (
+      SELECT a.id, a.patient_id, a.doctor_id, a.scheduled_date, a.scheduled_time, k.kind
+      FROM public.appointments a
+      CROSS JOIN (VALUES ('24h', INTERVAL '24 hours'), ('2h', INTERVAL '2 hours')) AS k(kind, lead)
+      WHERE a.status = 'confirmed'
+        AND a.scheduled_date BETWEEN CURRENT_DATE AND CURRENT_DATE + 2
+        AND public.appointment_starts_at(a) > LOCALTIMESTAMP
+        AND public.appointment_starts_at(a) - k.lead <= LOCALTIMESTAMP
+        AND (k.kind = '2h' OR public.appointment_starts_at(a) - INTERVAL '2 hours' > LOCALTIMESTAMP)
+    ),
+    queued AS (
+      INSERT INTO public.appointment_reminders (appointment_id, kind)
+      SELECT id, kind FROM due
+      ON CONFLICT DO NOTHING
+      RETURNING appointment_id, kind, action_token
+    )
+    SELECT d.*, q.action_token
+    FROM due d
+    JOIN queued q ON q.appointment_id = d.id AND q.kind = d.kind
+  LOOP
+    PERFORM public.invoke_edge_function(
+      'send-appointment-notification',
+      jsonb_build_object(
+        'patientId', _reminder.patient_id,
+        'doctorId', _reminder.doctor_id,
+        'date', _reminder.scheduled_date,
+        'time', _reminder.scheduled_time,
+        'type', 'reminder',
+        'reminderKind', _reminder.kind,
+        'actionToken', _reminder.action_token
+      )
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_appointment_reminders() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'send-appointment-reminders',
+  '*/5 * * * *',
+  $$SELECT public.send_appointment_reminders()$$
+);
+
+-- The appointment a reminder link points at, for the response page. The
+-- token is the only credential, so patients don't need to sign in.
+CREATE OR REPLACE FUNCTION public.get_reminder_appointment(_token UUID)
+RETURNS TABLE (
+  scheduled_date DATE,
+  scheduled_time TEXT,
+  status TEXT,
+  doctor_name TEXT,
+  doctor_specialty TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.scheduled_date, a.scheduled_time, a.status, d.name, d.specialty
+  FROM public.appointment_reminders r
+  JOIN public.appointments a ON a.id = r.appointment_id
+  LEFT JOIN public.doctors d ON d.id = a.doctor_id
+  WHERE r.action_token = _token
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_reminder_appointment(UUID) TO anon, authenticated;
+
+-- Confirm or cancel the appointment from a reminder link. Confirming an
+-- already confirmed appointment is a no-op.
+CREATE OR REPLACE FUNCTION public.respond_to_appointment_reminder(_token UUID, _action TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reminder public.appointment_reminders;
+  _appointment public.appointments;
+BEGIN
+  IF _action NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Unknown reminder action %', _action USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _reminder
+  FROM public.appointment_reminders
+  WHERE action_token = _token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is not valid' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _reminder.appointment_id
+  FOR UPDATE;
+
+  IF _appointment.status NOT IN ('pending', 'confirmed')
+     OR public.appointment_starts_at(_appointment) <= LOCALTIMESTAMP THEN
+    RAISE EXCEPTION 'This appointment can no longer be changed (it is %)', _appointment.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.appointments
+  SET status = CASE _action WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END
+  WHERE id = _appointment.id
+  RETURNING * INTO _appointment;
+
+  UPDATE public.appointment_reminders
+  SET response = _appointment.status, responded_at = now()
+  WHERE appointment_id = _reminder.appointment_id AND kind = _reminder.kind;
+
+  RETURN _appointment.status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_appointment_reminder(UUID, TEXT) TO anon, authenticated;
@@ -0,0 +1,145 @@
+-- Time zone the clinic's appointment dates and times are in, as an IANA name
+-- such as 'Europe/London'. Calendar exports convert appointments with it.
+ALTER TABLE public.appointment_settings
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata';
+
+-- A clinic wall-clock time as an absolute timestamp
+CREATE OR REPLACE FUNCTION public.clinic_timestamp(_local TIMESTAMP)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _local AT TIME ZONE (SELECT timezone FROM public.appointment_settings)
+$$;
+
+-- Length of the slot an appointment was booked in: the override or weekly
+-- hours covering its start, or 30 minutes when its hours have since changed
+CREATE OR REPLACE FUNCTION public.appointment_slot_minutes(_appointment public.appointments)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT o.slot_minutes
+      FROM public.doctor_schedule_overrides o
+      WHERE o.doctor_id = _appointment.doctor_id
+        AND o.override_date = _appointment.scheduled_date
+        AND _appointment.scheduled_time::TIME >= o.start_time
+        AND _appointment.scheduled_time::TIME < o.end_time
+      LIMIT 1
+    ),
+    (
+      SELECT s.slot_minutes
+      FROM public.doctor_schedules s
+      WHERE s.doctor_id = _appointment.doctor_id
+        AND s.weekday = EXTRACT(DOW FROM _appointment.scheduled_date)
+        AND _appointment.scheduled_time::TIME >= s.start_time
+        AND _appointment.scheduled_time::TIME < s.end_time
+        AND NOT EXISTS (
+          SELECT 1 FROM public.doctor_schedule_overrides o
+          WHERE o.doctor_id = _appointment.doctor_id
+            AND o.override_date = _appointment.scheduled_date
+        )
+      LIMIT 1
+    ),
+    30
+  )
+$$;
+
+-- Appointments as calendar events with absolute start and end times.
+-- sequence counts reschedules so calendar apps replace an imported copy.
+CREATE VIEW public.appointment_calendar_events
+WITH (security_invoker = true) AS
+SELECT
+  a.id,
+  a.patient_id,
+  a.doctor_id,
+  a.status,
+  a.symptoms,
+  public.clinic_timestamp(public.appointment_starts_at(a)) AS starts_at,
+  public.clinic_timestamp(public.appointment_starts_at(a))
+    + make_interval(mins => public.appointment_slot_minutes(a)) AS ends_at,
+  COALESCE(a.updated_at, a.created_at) AS updated_at,
+  (
+    SELECT count(*)::INTEGER
+    FROM public.appointment_reschedules r
+    WHERE r.appointment_id = a.id
+  ) AS sequence,
+  d.name AS doctor_name,
+  d.specialty AS doctor_specialty,
+  p.first_name || ' ' || p.last_name AS patient_name
+FROM public.appointments a
+LEFT JOIN public.doctors d ON d.id = a.doctor_id
+LEFT JOIN public.patients p ON p.id = a.patient_id;
+
+-- Secret calendar subscription URLs, one per user. The token is the only
+-- credential calendar apps send, so resetting it cuts off the old URL.
+CREATE TABLE public.calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed" ON public.calendar_feeds
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- The caller's feed token, created on first use or replaced when regenerating
+CREATE OR REPLACE FUNCTION public.get_calendar_feed_token(_regenerate BOOLEAN DEFAULT false)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to subscribe to your calendar' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.calendar_feeds (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = CASE WHEN _regenerate THEN gen_random_uuid() ELSE public.calendar_feeds.token END,
+      created_at = CASE WHEN _regenerate THEN now() ELSE public.calendar_feeds.created_at END
+  RETURNING token INTO _token;
+
+  RETURN _token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed_token(BOOLEAN) TO authenticated;
+
+-- Events in a feed: a doctor's schedule from the last 30 days on, and a
+-- patient's upcoming appointments. Someone who is both gets both. Only the
+-- calendar-feed edge function reads this.
+CREATE OR REPLACE FUNCTION public.get_calendar_feed(_token UUID)
+RETURNS SETOF public.appointment_calendar_events
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.*
+  FROM public.calendar_feeds f
+  JOIN public.appointment_calendar_events e
+    ON (
+      e.doctor_id IN (SELECT id FROM public.doctors WHERE user_id = f.user_id)
+      AND e.status <> 'cancelled'
+      AND e.starts_at >= now() - INTERVAL '30 days'
+    )
+    OR (
+      e.patient_id IN (SELECT id FROM public.patients WHERE user_id = f.user_id)
+      AND e.status IN ('pending', 'confirmed')
+      AND e.starts_at >= now()
+    )
+  WHERE f.token = _token
+  ORDER BY e.starts_at
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_calendar_feed(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,468 @@
+CREATE EXTENSION IF NOT EXISTS btree_gist WITH SCHEMA extensions;
+
+-- Kinds of visit a doctor offers and how long each takes. Slots are laid out
+-- by the duration of the type being booked.
+CREATE TABLE public.appointment_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('consultation', 'follow-up', 'procedure', 'teleconsult')),
+  name TEXT NOT NULL,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 5 AND 240),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (doctor_id, kind)
+);
+
+ALTER TABLE public.appointment_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view appointment types" ON public.appointment_types
+  FOR SELECT USING (true);
+
+CREATE POLICY "Doctors can manage own appointment types" ON public.appointment_types
+  FOR ALL USING (
+    doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- Every doctor starts with the four standard types
+CREATE OR REPLACE FUNCTION public.create_default_appointment_types()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.appointment_types (doctor_id, kind, name, duration_minutes)
+  VALUES
+    (NEW.id, 'consultation', 'Consultation', 30),
+    (NEW.id, 'follow-up', 'Follow-up', 10),
+    (NEW.id, 'procedure', 'Procedure', 60),
+    (NEW.id, 'teleconsult', 'Teleconsult', 20)
+  ON CONFLICT (doctor_id, kind) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_default_appointment_types
+  AFTER INSERT ON public.doctors
+  FOR EACH ROW EXECUTE FUNCTION public.create_default_appointment_types();
+
+INSERT INTO public.appointment_types (doctor_id, kind, name, duration_minutes)
+SELECT d.id, t.kind, t.name, t.duration_minutes
+FROM public.doctors d
+CROSS JOIN (
+  VALUES
+    ('consultation', 'Consultation', 30),
+    ('follow-up', 'Follow-up', 10),
+    ('procedure', 'Procedure', 60),
+    ('teleconsult', 'Teleconsult', 20)
+) AS t(kind, name, duration_minutes)
+ON CONFLICT (doctor_id, kind) DO NOTHING;
+
+-- The doctor's active type with the given id, or their default (the
+-- consultation, else the shortest active type) when no id is given
+CREATE OR REPLACE FUNCTION public.resolve_appointment_type(_doctor_id UUID, _appointment_type_id UUID)
+RETURNS public.appointment_types
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.appointment_types
+  WHERE doctor_id = _doctor_id
+    AND is_active
+    AND (_appointment_type_id IS NULL OR id = _appointment_type_id)
+  ORDER BY kind <> 'consultation', duration_minutes
+  LIMIT 1
+$$;
+
+-- Real start and end times. scheduled_date and scheduled_time stay the clinic
+-- wall-clock slot; starts_at and ends_at are derived from them and the type.
+ALTER TABLE public.appointments
+  ADD COLUMN appointment_type_id UUID REFERENCES public.appointment_types(id) ON DELETE SET NULL,
+  ADD COLUMN starts_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN ends_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.appointments a
+SET appointment_type_id = (public.resolve_appointment_type(a.doctor_id, NULL)).id,
+    starts_at = public.clinic_timestamp(public.appointment_starts_at(a)),
+    ends_at = public.clinic_timestamp(public.appointment_starts_at(a))
+      + make_interval(mins => public.appointment_slot_minutes(a));
+
+ALTER TABLE public.appointments
+  ALTER COLUMN starts_at SET NOT NULL,
+  ALTER COLUMN ends_at SET NOT NULL,
+  ADD CONSTRAINT appointments_period_check CHECK (ends_at > starts_at);
+
+-- Keeps starts_at and ends_at in step with the slot and type. Appointments
+-- without a type last as long as the slot they were booked in.
+CREATE OR REPLACE FUNCTION public.set_appointment_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.starts_at := public.clinic_timestamp(public.appointment_starts_at(NEW));
+  NEW.ends_at := NEW.starts_at + make_interval(mins => COALESCE(
+    (SELECT duration_minutes FROM public.appointment_types WHERE id = NEW.appointment_type_id),
+    public.appointment_slot_minutes(NEW)
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_appointment_period
+  BEFORE INSERT OR UPDATE OF scheduled_date, scheduled_time, appointment_type_id
+  ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.set_appointment_period();
+
+-- Active appointments with a doctor may not overlap. This replaces the one
+-- booking per start time index. Bookings that overlap since slot lengths
+-- changed are left for staff to move or cancel; the migration stops and lists
+-- them rather than cancelling anyone's appointment.
+DO $$
+DECLARE
+  _conflicts TEXT;
+BEGIN
+  SELECT string_agg(
+    format('%s (%s) overlaps %s (%s) with doctor %s', a.id, a.starts_at, b.id, b.starts_at, a.doctor_id),
+    E'\n' ORDER BY a.doctor_id, a.starts_at
+  )
+  INTO _conflicts
+  FROM public.appointments a
+  JOIN public.appointments b
+    ON b.doctor_id = a.doctor_id
+   AND b.status IN ('pending', 'confirmed')
+   AND b.starts_at < a.ends_at
+   AND b.ends_at > a.starts_at
+   AND (b.created_at, b.id) < (a.created_at, a.id)
+  WHERE a.status IN ('pending', 'confirmed');
+
+  IF _conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'Some active appointments overlap and must be moved or cancelled first'
+      USING ERRCODE = '23P01', DETAIL = _conflicts;
+  END IF;
+END;
+$$;
+
+DROP INDEX public.appointments_active_slot_idx;
+
+ALTER TABLE public.appointments
+  ADD CONSTRAINT appointments_no_overlap
+  EXCLUDE USING gist (doctor_id WITH =, tstzrange(starts_at, ends_at) WITH &&)
+  WHERE (status IN ('pending', 'confirmed'));
+
+-- Calendar events use the stored times and name the type
+CREATE OR REPLACE VIEW public.appointment_calendar_events
+WITH (security_invoker = true) AS
+SELECT
+  a.id,
+  a.patient_id,
+  a.doctor_id,
+  a.status,
+  a.symptoms,
+  a.starts_at,
+  a.ends_at,
+  COALESCE(a.updated_at, a.created_at) AS updated_at,
+  (
+    SELECT count(*)::INTEGER
+    FROM public.appointment_reschedules r
+    WHERE r.appointment_id = a.id
+  ) AS sequence,
+  d.name AS doctor_name,
+  d.specialty AS doctor_specialty,
+  p.first_name || ' ' || p.last_name AS patient_name,
+  t.name AS appointment_type
+FROM public.appointments a
+LEFT JOIN public.doctors d ON d.id = a.doctor_id
+LEFT JOIN public.patients p ON p.id = a.patient_id
+LEFT JOIN public.appointment_types t ON t.id = a.appointment_type_id;
+
+-- Slots are laid out back to back by the duration of the type being booked
+-- (the doctor's default type when none is given) and are free when no active
+-- appointment or pending waitlist offer overlaps them. _ignore_appointment_id
+-- leaves an appointment out, so it can be moved into a slot overlapping its
+-- current time. Waitlist offers hold the doctor's default type duration.
+DROP FUNCTION public.get_doctor_slots(UUID, DATE, DATE);
+
+CREATE FUNCTION public.get_doctor_slots(
+  _doctor_id UUID,
+  _from DATE,
+  _to DATE,
+  _appointment_type_id UUID DEFAULT NULL,
+  _ignore_appointment_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  slot_date DATE,
+  slot_time TEXT,
+  starts_at TIME,
+  ends_at TIME,
+  available BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH duration AS (
+    SELECT (public.resolve_appointment_type(_doctor_id, _appointment_type_id)).duration_minutes AS minutes
+  ),
+  hold AS (
+    SELECT COALESCE((public.resolve_appointment_type(_doctor_id, NULL)).duration_minutes, 30) AS minutes
+  ),
+  days AS (
+    SELECT d::DATE AS day
+    FROM generate_series(_from, _to, INTERVAL '1 day') AS d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.doctor_leave l
+      WHERE l.doctor_id = _doctor_id
+        AND d::DATE BETWEEN l.start_date AND l.end_date
+    )
+  ),
+  hours AS (
+    SELECT days.day, o.start_time, o.end_time, o.slot_minutes
+    FROM days
+    JOIN public.doctor_schedule_overrides o
+      ON o.doctor_id = _doctor_id AND o.override_date = days.day
+    UNION ALL
+    SELECT days.day, s.start_time, s.end_time, s.slot_minutes
+    FROM days
+    JOIN public.doctor_schedules s
+      ON s.doctor_id = _doctor_id AND s.weekday = EXTRACT(DOW FROM days.day)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.doctor_schedule_overrides o
+      WHERE o.doctor_id = _doctor_id AND o.override_date = days.day
+    )
+  ),
+  slots AS (
+    SELECT DISTINCT
+      h.day,
+      t::TIME AS starts_at,
+      (t + make_interval(mins => m.minutes))::TIME AS ends_at,
+      public.clinic_timestamp(t) AS starts_at_ts,
+      public.clinic_timestamp(t + make_interval(mins => m.minutes)) AS ends_at_ts
+    FROM hours h
+    CROSS JOIN LATERAL (
+      SELECT COALESCE((SELECT minutes FROM duration), h.slot_minutes) AS minutes
+    ) AS m
+    CROSS JOIN LATERAL generate_series(
+      h.day + h.start_time,
+      h.day + h.end_time - make_interval(mins => m.minutes),
+      make_interval(mins => m.minutes)
+    ) AS t
+  )
+  SELECT
+    s.day,
+    to_char(s.day + s.starts_at, 'HH12:MI AM'),
+    s.starts_at,
+    s.ends_at,
+    s.day + s.starts_at > LOCALTIMESTAMP
+      AND NOT EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.doctor_id = _doctor_id
+          AND a.status IN ('pending', 'confirmed')
+          AND a.id IS DISTINCT FROM _ignore_appointment_id
+          AND a.starts_at < s.ends_at_ts
+          AND a.ends_at > s.starts_at_ts
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.appointment_slot_offers o, hold
+        WHERE o.doctor_id = _doctor_id
+          AND o.status = 'pending'
+          AND o.slot_date BETWEEN s.day - 1 AND s.day + 1
+          AND public.clinic_timestamp(o.slot_date + o.slot_time::TIME) < s.ends_at_ts
+          AND public.clinic_timestamp(o.slot_date + o.slot_time::TIME)
+            + make_interval(mins => hold.minutes) > s.starts_at_ts
+      )
+  FROM slots s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.doctor_schedule_breaks b
+    WHERE b.doctor_id = _doctor_id
+      AND (b.weekday IS NULL OR b.weekday = EXTRACT(DOW FROM s.day))
+      AND s.starts_at < b.end_time
+      AND s.ends_at > b.start_time
+  )
+  ORDER BY s.day, s.starts_at
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_doctor_slots(UUID, DATE, DATE, UUID, UUID) TO anon, authenticated;
+
+DROP FUNCTION public.resolve_bookable_slot(UUID, DATE, TEXT);
+
+CREATE FUNCTION public.resolve_bookable_slot(
+  _doctor_id UUID,
+  _date DATE,
+  _time TEXT,
+  _appointment_type_id UUID DEFAULT NULL,
+  _ignore_appointment_id UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _slot RECORD;
+BEGIN
+  SELECT * INTO _slot
+  FROM public.get_doctor_slots(_doctor_id, _date, _date, _appointment_type_id, _ignore_appointment_id) s
+  WHERE s.slot_time = TRIM(_time);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The doctor is not available at % on %', TRIM(_time), _date
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _date + _slot.starts_at <= LOCALTIMESTAMP THEN
+    RAISE EXCEPTION 'This slot is in the past' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT _slot.available THEN
+    RAISE EXCEPTION 'This slot has already been booked. Please choose another time.'
+      USING ERRCODE = '23505';
+  END IF;
+
+  RETURN _slot.slot_time;
+END;
+$$;
+
+-- _appointment_type_id defaults to the doctor's default type. A slot taken
+-- concurrently fails on the overlap constraint and is reported as booked.
+DROP FUNCTION public.book_appointment(UUID, DATE, TEXT, TEXT, TEXT, UUID);
+
+CREATE FUNCTION public.book_appointment(
+  _doctor_id UUID,
+  _date DATE,
+  _time TEXT,
+  _symptoms TEXT DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _patient_id UUID DEFAULT NULL,
+  _appointment_type_id UUID DEFAULT NULL
+)
+RETURNS public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _patient UUID;
+  _type public.appointment_types;
+  _slot_time TEXT;
+  _appointment public.appointments;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required to book an appointment' USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient_id IS NULL THEN
+    SELECT id INTO _patient FROM public.patients WHERE user_id = auth.uid();
+  ELSIF auth.role() = 'service_role'
+     OR public.has_role(auth.uid(), 'doctor')
+     OR public.has_role(auth.uid(), 'admin')
+     OR EXISTS (SELECT 1 FROM public.patients WHERE id = _patient_id AND user_id = auth.uid()) THEN
+    _patient := _patient_id;
+  ELSE
+    RAISE EXCEPTION 'You can only book appointments for yourself' USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient IS NULL THEN
+    RAISE EXCEPTION 'Please register as a patient before booking' USING ERRCODE = '22023';
+  END IF;
+
+  _type := public.resolve_appointment_type(_doctor_id, _appointment_type_id);
+
+  IF _appointment_type_id IS NOT NULL AND _type.id IS NULL THEN
+    RAISE EXCEPTION 'The doctor does not offer this appointment type' USING ERRCODE = '22023';
+  END IF;
+
+  _slot_time := public.resolve_bookable_slot(_doctor_id, _date, _time, _type.id);
+
+  BEGIN
+    INSERT INTO public.appointments (
+      patient_id, doctor_id, appointment_type_id, scheduled_date, scheduled_time,
+      symptoms, notes, status
+    )
+    VALUES (
+      _patient, _doctor_id, _type.id, _date, _slot_time,
+      NULLIF(TRIM(_symptoms), ''), NULLIF(TRIM(_notes), ''), 'pending'
+    )
+    RETURNING * INTO _appointment;
+  EXCEPTION WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'This slot has already been booked. Please choose another time.'
+      USING ERRCODE = '23505';
+  END;
+
+  RETURN _appointment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.book_appointment(UUID, DATE, TEXT, TEXT, TEXT, UUID, UUID) TO authenticated;
+
+-- Rescheduling keeps the appointment's type and lays out slots by its duration
+CREATE OR REPLACE FUNCTION public.reschedule_appointment(
+  _appointment_id UUID,
+  _date DATE,
+  _time TEXT,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _slot_time TEXT;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR _appointment.patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+    OR _appointment.doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to reschedule this appointment' USING ERRCODE = '42501';
+  END IF;
+
+  IF _appointment.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Only pending or confirmed appointments can be rescheduled'
+      USING ERRCODE = '22023';
+  END IF;
+
+  _slot_time := public.resolve_bookable_slot(
+    _appointment.doctor_id, _date, _time, _appointment.appointment_type_id, _appointment.id
+  );
+
+  INSERT INTO public.appointment_reschedules (
+    appointment_id, from_date, from_time, to_date, to_time, reason, rescheduled_by
+  )
+  VALUES (
+    _appointment.id, _appointment.scheduled_date, _appointment.scheduled_time,
+    _date, _slot_time, NULLIF(TRIM(_reason), ''), auth.uid()
+  );
+
+  BEGIN
+    UPDATE public.appointments
+    SET scheduled_date = _date,
+        scheduled_time = _slot_time,
+        updated_at = now()
+    WHERE id = _appointment.id
+    RETURNING * INTO _appointment;
+  EXCEPTION WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'This slot has already been booked. Please choose another time.'
+      USING ERRCODE = '23505';
+  END;
+
+  RETURN _appointment;
+END;
+$$;
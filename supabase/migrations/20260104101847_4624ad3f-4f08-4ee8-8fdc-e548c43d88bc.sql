@@ -0,0 +1,129 @@
+-- Follow-up visits and recurring series scheduled from a visit. Every
+-- occurrence is an ordinary appointment linked back to its series; a single
+-- follow-up is a series of one.
+CREATE TABLE public.appointment_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  source_appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  appointment_type_id UUID REFERENCES public.appointment_types(id) ON DELETE SET NULL,
+  interval_weeks INTEGER NOT NULL DEFAULT 0 CHECK (interval_weeks BETWEEN 0 AND 52),
+  occurrences INTEGER NOT NULL CHECK (occurrences BETWEEN 1 AND 26),
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (occurrences = 1 OR interval_weeks > 0)
+);
+
+ALTER TABLE public.appointment_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Series parties can view series" ON public.appointment_series
+  FOR SELECT USING (
+    public.has_role(auth.uid(), 'admin')
+    OR patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+    OR doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+  );
+
+ALTER TABLE public.appointments
+  ADD COLUMN series_id UUID REFERENCES public.appointment_series(id) ON DELETE SET NULL,
+  ADD COLUMN series_position INTEGER;
+
+CREATE INDEX appointments_series_idx ON public.appointments (series_id, series_position);
+
+-- Books _occurrences visits for the patient of _appointment_id, the first on
+-- _first_date at _time and each following one _interval_weeks later. Every
+-- occurrence goes through book_appointment, so it is checked against the
+-- doctor's schedule and existing bookings; if any of them cannot be booked
+-- nothing is, and the error names the date that failed. The type defaults to
+-- the doctor's follow-up type.
+CREATE OR REPLACE FUNCTION public.schedule_appointment_series(
+  _appointment_id UUID,
+  _first_date DATE,
+  _time TEXT,
+  _interval_weeks INTEGER DEFAULT 0,
+  _occurrences INTEGER DEFAULT 1,
+  _appointment_type_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS SETOF public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source public.appointments;
+  _type_id UUID := _appointment_type_id;
+  _series_id UUID;
+  _date DATE;
+  _appointment public.appointments;
+BEGIN
+  SELECT * INTO _source
+  FROM public.appointments
+  WHERE id = _appointment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR _source.doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Only the treating doctor can schedule follow-ups' USING ERRCODE = '42501';
+  END IF;
+
+  IF _occurrences IS NULL OR _occurrences NOT BETWEEN 1 AND 26 THEN
+    RAISE EXCEPTION 'A series has between 1 and 26 visits' USING ERRCODE = '22023';
+  END IF;
+
+  IF _occurrences > 1 AND (_interval_weeks IS NULL OR _interval_weeks NOT BETWEEN 1 AND 52) THEN
+    RAISE EXCEPTION 'Visits in a series are 1 to 52 weeks apart' USING ERRCODE = '22023';
+  END IF;
+
+  IF _first_date <= _source.scheduled_date THEN
+    RAISE EXCEPTION 'A follow-up must come after the visit it follows' USING ERRCODE = '22023';
+  END IF;
+
+  IF _type_id IS NULL THEN
+    SELECT id INTO _type_id
+    FROM public.appointment_types
+    WHERE doctor_id = _source.doctor_id
+      AND kind = 'follow-up'
+      AND is_active;
+  END IF;
+
+  INSERT INTO public.appointment_series (
+    patient_id, doctor_id, source_appointment_id, appointment_type_id,
+    interval_weeks, occurrences, notes, created_by
+  )
+  VALUES (
+    _source.patient_id, _source.doctor_id, _source.id, _type_id,
+    CASE WHEN _occurrences > 1 THEN _interval_weeks ELSE 0 END, _occurrences,
+    NULLIF(TRIM(_notes), ''), auth.uid()
+  )
+  RETURNING id INTO _series_id;
+
+  FOR _position IN 1.._occurrences LOOP
+    _date := _first_date + (_position - 1) * COALESCE(_interval_weeks, 0) * 7;
+
+    BEGIN
+      _appointment := public.book_appointment(
+        _source.doctor_id, _date, _time, NULL, _notes, _source.patient_id, _type_id
+      );
+    EXCEPTION WHEN SQLSTATE '22023' OR SQLSTATE '23505' THEN
+      RAISE EXCEPTION 'Visit % on %: %', _position, to_char(_date, 'Mon DD, YYYY'), SQLERRM
+        USING ERRCODE = SQLSTATE;
+    END;
+
+    UPDATE public.appointments
+    SET series_id = _series_id,
+        series_position = _position
+    WHERE id = _appointment.id
+    RETURNING * INTO _appointment;
+
+    RETURN NEXT _appointment;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.schedule_appointment_series(UUID, DATE, TEXT, INTEGER, INTEGER, UUID, TEXT) TO authenticated;
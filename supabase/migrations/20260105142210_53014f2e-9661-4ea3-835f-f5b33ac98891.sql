@@ -0,0 +1,118 @@
+-- Appointments with the names the list page shows and searches by. Reads go
+-- through the caller's row level security, as with the tables themselves.
+CREATE OR REPLACE VIEW public.appointment_list
+WITH (security_invoker = true) AS
+SELECT
+  a.id,
+  a.patient_id,
+  a.doctor_id,
+  a.appointment_type_id,
+  a.scheduled_date,
+  a.scheduled_time,
+  a.starts_at,
+  a.ends_at,
+  a.status,
+  a.symptoms,
+  a.notes,
+  p.first_name AS patient_first_name,
+  p.last_name AS patient_last_name,
+  d.name AS doctor_name,
+  d.specialty AS doctor_specialty
+FROM public.appointments a
+LEFT JOIN public.patients p ON p.id = a.patient_id
+LEFT JOIN public.doctors d ON d.id = a.doctor_id;
+
+CREATE INDEX appointments_starts_at_idx ON public.appointments (starts_at, id);
+
+-- Appointments matching the list page's filters. _search matches part of the
+-- patient's or the doctor's name; any other filter left NULL is not applied.
+CREATE OR REPLACE FUNCTION public.filter_appointments(
+  _search TEXT DEFAULT NULL,
+  _status TEXT DEFAULT NULL,
+  _doctor_id UUID DEFAULT NULL,
+  _from DATE DEFAULT NULL,
+  _to DATE DEFAULT NULL
+)
+RETURNS SETOF public.appointment_list
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT l.*
+  FROM public.appointment_list l
+  WHERE (
+      NULLIF(TRIM(_search), '') IS NULL
+      OR strpos(lower(COALESCE(l.patient_first_name, '') || ' ' || COALESCE(l.patient_last_name, '')), lower(TRIM(_search))) > 0
+      OR strpos(lower(COALESCE(l.doctor_name, '')), lower(TRIM(_search))) > 0
+    )
+    AND (_status IS NULL OR l.status = _status)
+    AND (_doctor_id IS NULL OR l.doctor_id = _doctor_id)
+    AND (_from IS NULL OR l.scheduled_date >= _from)
+    AND (_to IS NULL OR l.scheduled_date <= _to);
+$$;
+
+-- One page of the filtered appointments ordered by start time. The next page
+-- starts after the last row of this one, given as _after_starts_at and
+-- _after_id.
+CREATE OR REPLACE FUNCTION public.search_appointments(
+  _search TEXT DEFAULT NULL,
+  _status TEXT DEFAULT NULL,
+  _doctor_id UUID DEFAULT NULL,
+  _from DATE DEFAULT NULL,
+  _to DATE DEFAULT NULL,
+  _descending BOOLEAN DEFAULT false,
+  _after_starts_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _after_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 25
+)
+RETURNS SETOF public.appointment_list
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  -- Each direction has its own query so both can walk appointments_starts_at_idx
+  IF _descending THEN
+    RETURN QUERY
+    SELECT f.*
+    FROM public.filter_appointments(_search, _status, _doctor_id, _from, _to) f
+    WHERE _after_id IS NULL OR (f.starts_at, f.id) < (_after_starts_at, _after_id)
+    ORDER BY f.starts_at DESC, f.id DESC
+    LIMIT LEAST(GREATEST(COALESCE(_limit, 25), 1), 100);
+  ELSE
+    RETURN QUERY
+    SELECT f.*
+    FROM public.filter_appointments(_search, _status, _doctor_id, _from, _to) f
+    WHERE _after_id IS NULL OR (f.starts_at, f.id) > (_after_starts_at, _after_id)
+    ORDER BY f.starts_at, f.id
+    LIMIT LEAST(GREATEST(COALESCE(_limit, 25), 1), 100);
+  END IF;
+END;
+$$;
+
+-- Totals for the list page's header. The status counts cover every status so
+-- they stay meaningful while the list is narrowed to one; total and today
+-- follow all the filters.
+CREATE OR REPLACE FUNCTION public.count_appointments(
+  _search TEXT DEFAULT NULL,
+  _status TEXT DEFAULT NULL,
+  _doctor_id UUID DEFAULT NULL,
+  _from DATE DEFAULT NULL,
+  _to DATE DEFAULT NULL
+)
+RETURNS TABLE (total BIGINT, today BIGINT, pending BIGINT, confirmed BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*) FILTER (WHERE _status IS NULL OR f.status = _status),
+    count(*) FILTER (WHERE (_status IS NULL OR f.status = _status) AND f.scheduled_date = CURRENT_DATE),
+    count(*) FILTER (WHERE f.status = 'pending'),
+    count(*) FILTER (WHERE f.status = 'confirmed')
+  FROM public.filter_appointments(_search, NULL, _doctor_id, _from, _to) f;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.filter_appointments(TEXT, TEXT, UUID, DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_appointments(TEXT, TEXT, UUID, DATE, DATE, BOOLEAN, TIMESTAMP WITH TIME ZONE, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.count_appointments(TEXT, TEXT, UUID, DATE, DATE) TO authenticated;
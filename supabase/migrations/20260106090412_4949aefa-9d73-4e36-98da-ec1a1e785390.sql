@@ -0,0 +1,789 @@
+-- Single-row settings for how the hospital keeps time and shows dates and
+-- money. Dates and times stored without a zone (appointment slots, queue
+-- days, prescription validity) are the hospital's wall clock in timezone.
+CREATE TABLE public.hospital_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  -- IANA name such as 'Asia/Kolkata'
+  timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+  -- BCP 47 tag such as 'en-IN', used for number and currency formatting
+  locale TEXT NOT NULL DEFAULT 'en-IN',
+  -- ISO 4217 code
+  currency TEXT NOT NULL DEFAULT 'INR' CHECK (currency ~ '^[A-Z]{3}$'),
+  -- date-fns patterns
+  date_format TEXT NOT NULL DEFAULT 'MMM d, yyyy',
+  time_format TEXT NOT NULL DEFAULT 'h:mm a',
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- A clinic that already set its time zone keeps it
+INSERT INTO public.hospital_settings (id, timezone)
+SELECT true, COALESCE(NULLIF(timezone, 'UTC'), 'Asia/Kolkata')
+FROM public.appointment_settings;
+
+ALTER TABLE public.hospital_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view hospital settings" ON public.hospital_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can update hospital settings" ON public.hospital_settings
+  FOR UPDATE USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_hospital_settings_updated_at
+  BEFORE UPDATE ON public.hospital_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE OR REPLACE FUNCTION public.hospital_timezone()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT timezone FROM public.hospital_settings), 'UTC')
+$$;
+
+-- The hospital's wall-clock time now
+CREATE OR REPLACE FUNCTION public.hospital_now()
+RETURNS TIMESTAMP
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (now() AT TIME ZONE public.hospital_timezone())::TIMESTAMP
+$$;
+
+-- Today's date at the hospital, whatever the database session's time zone
+CREATE OR REPLACE FUNCTION public.hospital_today()
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.hospital_now()::DATE
+$$;
+
+CREATE OR REPLACE FUNCTION public.clinic_timestamp(_local TIMESTAMP)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _local AT TIME ZONE public.hospital_timezone()
+$$;
+
+-- Checked at the end of each statement, so every appointment can move at
+-- once when the time zone changes
+ALTER TABLE public.appointments DROP CONSTRAINT appointments_no_overlap;
+
+ALTER TABLE public.appointments
+  ADD CONSTRAINT appointments_no_overlap
+  EXCLUDE USING gist (doctor_id WITH =, tstzrange(starts_at, ends_at) WITH &&)
+  WHERE (status IN ('pending', 'confirmed'))
+  DEFERRABLE INITIALLY IMMEDIATE;
+
+-- Appointments keep their wall-clock slot when the time zone changes, so
+-- their absolute start and end times move with it
+CREATE OR REPLACE FUNCTION public.shift_appointments_timezone(_from TEXT, _to TEXT)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.appointments
+  SET starts_at = (starts_at AT TIME ZONE _from) AT TIME ZONE _to,
+      ends_at = (ends_at AT TIME ZONE _from) AT TIME ZONE _to;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.shift_appointments_timezone(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+SELECT public.shift_appointments_timezone(
+  (SELECT timezone FROM public.appointment_settings),
+  public.hospital_timezone()
+);
+
+ALTER TABLE public.appointment_settings DROP COLUMN timezone;
+
+CREATE OR REPLACE FUNCTION public.apply_hospital_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone %', NEW.timezone USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.timezone IS DISTINCT FROM OLD.timezone THEN
+    PERFORM public.shift_appointments_timezone(OLD.timezone, NEW.timezone);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_hospital_timezone
+  AFTER UPDATE OF timezone ON public.hospital_settings
+  FOR EACH ROW EXECUTE FUNCTION public.apply_hospital_timezone();
+
+ALTER TABLE public.queue_tokens ALTER COLUMN token_date SET DEFAULT public.hospital_today();
+ALTER TABLE public.queue_token_counters ALTER COLUMN token_date SET DEFAULT public.hospital_today();
+ALTER TABLE public.doctor_room_sessions ALTER COLUMN session_date SET DEFAULT public.hospital_today();
+ALTER TABLE public.prescriptions ALTER COLUMN valid_until SET DEFAULT (public.hospital_today() + 30);
+
+-- Everything below worked out "today" and "now" in the database's time zone
+-- (UTC on the hosted database). Bodies are otherwise unchanged.
+
+-- Return the token with the estimate the trigger has just filled in
+CREATE OR REPLACE FUNCTION public.issue_queue_token(
+  _patient_id UUID,
+  _doctor_id UUID DEFAULT NULL,
+  _department TEXT DEFAULT NULL,
+  _priority TEXT DEFAULT 'routine',
+  _priority_reason TEXT DEFAULT NULL
+)
+RETURNS public.queue_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _dept TEXT;
+  _number INTEGER;
+  _position INTEGER;
+  _token public.queue_tokens;
+BEGIN
+  IF auth.uid() IS NULL AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required to issue a queue token'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient_id IS NULL THEN
+    RAISE EXCEPTION 'A patient is required to issue a queue token'
+      USING ERRCODE = '22023';
+  END IF;
+
+  _dept := NULLIF(TRIM(_department), '');
+
+  IF _dept IS NULL AND _doctor_id IS NOT NULL THEN
+    SELECT specialty INTO _dept FROM public.doctors WHERE id = _doctor_id;
+  END IF;
+
+  _dept := COALESCE(_dept, 'General');
+
+  INSERT INTO public.queue_token_counters AS c (department, token_date, last_number)
+  VALUES (_dept, public.hospital_today(), 1)
+  ON CONFLICT (department, token_date)
+  DO UPDATE SET last_number = c.last_number + 1
+  RETURNING c.last_number INTO _number;
+
+  SELECT COALESCE(MAX(position), 0) + 1 INTO _position
+  FROM public.queue_tokens
+  WHERE department = _dept
+    AND token_date = public.hospital_today()
+    AND status IN ('waiting', 'next');
+
+  INSERT INTO public.queue_tokens (
+    token_number, patient_id, doctor_id, department, status, position, token_date,
+    priority, priority_reason
+  )
+  VALUES (
+    public.department_token_prefix(_dept) || '-' || LPAD(_number::TEXT, 3, '0'),
+    _patient_id,
+    _doctor_id,
+    _dept,
+    'waiting',
+    _position,
+    public.hospital_today(),
+    COALESCE(_priority, 'routine'),
+    NULLIF(TRIM(_priority_reason), '')
+  )
+  RETURNING * INTO _token;
+
+  SELECT * INTO _token FROM public.queue_tokens WHERE id = _token.id;
+
+  RETURN _token;
+END;
+$$;
+
+-- Next token number for a department today, e.g. CAR-015
+CREATE OR REPLACE FUNCTION public.next_queue_token_number(_department TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _number INTEGER;
+BEGIN
+  INSERT INTO public.queue_token_counters AS c (department, token_date, last_number)
+  VALUES (_department, public.hospital_today(), 1)
+  ON CONFLICT (department, token_date)
+  DO UPDATE SET last_number = c.last_number + 1
+  RETURNING c.last_number INTO _number;
+
+  RETURN public.department_token_prefix(_department) || '-' || LPAD(_number::TEXT, 3, '0');
+END;
+$$;
+
+-- Recompute estimated_wait_minutes for every waiting token in a department.
+-- Each doctor's line is walked in call order: the first token waits for the
+-- rest of the current consultation, each later one for one more average
+-- consultation. Unassigned tokens share the department's available doctors.
+CREATE OR REPLACE FUNCTION public.recompute_queue_estimates(_department TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _line RECORD;
+  _token RECORD;
+  _avg NUMERIC;
+  _elapsed NUMERIC;
+  _remaining NUMERIC;
+  _doctors INTEGER;
+  _index INTEGER;
+BEGIN
+  FOR _line IN
+    SELECT DISTINCT doctor_id
+    FROM public.queue_tokens
+    WHERE department = _department
+      AND token_date = public.hospital_today()
+      AND status IN ('waiting', 'next')
+  LOOP
+    IF _line.doctor_id IS NOT NULL THEN
+      _avg := public.doctor_consult_minutes(_line.doctor_id);
+
+      SELECT EXTRACT(EPOCH FROM (now() - called_at)) / 60.0 INTO _elapsed
+      FROM public.queue_tokens
+      WHERE doctor_id = _line.doctor_id
+        AND status = 'in-progress'
+        AND called_at IS NOT NULL
+      ORDER BY called_at DESC
+      LIMIT 1;
+
+      _remaining := CASE WHEN _elapsed IS NULL THEN 0 ELSE GREATEST(_avg - _elapsed, 0) END;
+      _doctors := 1;
+    ELSE
+      SELECT COALESCE(AVG(public.doctor_consult_minutes(id)), 15), GREATEST(COUNT(*), 1)
+      INTO _avg, _doctors
+      FROM public.doctors
+      WHERE specialty = _department AND is_available = true;
+
+      _remaining := 0;
+    END IF;
+
+    _index := 0;
+    FOR _token IN
+      SELECT id
+      FROM public.queue_tokens
+      WHERE department = _department
+        AND token_date = public.hospital_today()
+        AND status IN ('waiting', 'next')
+        AND doctor_id IS NOT DISTINCT FROM _line.doctor_id
+      ORDER BY queue_sort_at, position
+    LOOP
+      UPDATE public.queue_tokens
+      SET estimated_wait_minutes = ROUND(_remaining + (_index / _doctors) * _avg)::INTEGER
+      WHERE id = _token.id;
+
+      _index := _index + 1;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Sort time that places a token after the first _offset tokens waiting in
+-- the same line (same doctor, or same department when unassigned)
+CREATE OR REPLACE FUNCTION public.queue_sort_at_offset(
+  _department TEXT,
+  _doctor_id UUID,
+  _offset INTEGER,
+  _exclude_id UUID DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _before TIMESTAMP WITH TIME ZONE;
+  _after TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT queue_sort_at INTO _before
+  FROM public.queue_tokens
+  WHERE department = _department
+    AND doctor_id IS NOT DISTINCT FROM _doctor_id
+    AND token_date = public.hospital_today()
+    AND status IN ('waiting', 'next')
+    AND id IS DISTINCT FROM _exclude_id
+  ORDER BY queue_sort_at, position
+  OFFSET GREATEST(_offset - 1, 0)
+  LIMIT 1;
+
+  IF _offset <= 0 THEN
+    -- Front of the line
+    RETURN COALESCE(_before, now()) - INTERVAL '1 second';
+  END IF;
+
+  IF _before IS NULL THEN
+    -- Fewer than _offset people waiting: go to the back
+    SELECT MAX(queue_sort_at) INTO _before
+    FROM public.queue_tokens
+    WHERE department = _department
+      AND doctor_id IS NOT DISTINCT FROM _doctor_id
+      AND token_date = public.hospital_today()
+      AND status IN ('waiting', 'next')
+      AND id IS DISTINCT FROM _exclude_id;
+
+    RETURN COALESCE(_before + INTERVAL '1 second', now());
+  END IF;
+
+  SELECT queue_sort_at INTO _after
+  FROM public.queue_tokens
+  WHERE department = _department
+    AND doctor_id IS NOT DISTINCT FROM _doctor_id
+    AND token_date = public.hospital_today()
+    AND status IN ('waiting', 'next')
+    AND id IS DISTINCT FROM _exclude_id
+    AND queue_sort_at > _before
+  ORDER BY queue_sort_at
+  LIMIT 1;
+
+  RETURN CASE
+    WHEN _after IS NULL THEN _before + INTERVAL '1 second'
+    ELSE _before + (_after - _before) / 2
+  END;
+END;
+$$;
+
+-- Close out tokens whose patient never turned up: anything still open from an
+-- earlier day, and today's skipped tokens once the session end time passes.
+CREATE OR REPLACE FUNCTION public.close_queue_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.queue_settings;
+  _closed INTEGER;
+BEGIN
+  SELECT * INTO _settings FROM public.queue_settings LIMIT 1;
+
+  UPDATE public.queue_tokens
+  SET status = 'no-show'
+  WHERE status IN ('skipped', 'waiting', 'next')
+    AND (
+      token_date < public.hospital_today()
+      OR (status = 'skipped' AND public.hospital_now()::TIME >= _settings.session_end_time)
+    );
+
+  GET DIAGNOSTICS _closed = ROW_COUNT;
+  RETURN _closed;
+END;
+$$;
+
+-- Queue an "upcoming" notification for waiting tokens that are within
+-- upcoming_position places of the front of their line or expected within
+-- upcoming_minutes
+CREATE OR REPLACE FUNCTION public.notify_upcoming_tokens(_department TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.queue_settings;
+  _token RECORD;
+BEGIN
+  SELECT * INTO _settings FROM public.queue_settings LIMIT 1;
+
+  FOR _token IN
+    WITH ranked AS (
+      SELECT
+        t.id,
+        t.token_number,
+        t.estimated_wait_minutes,
+        ROW_NUMBER() OVER (
+          PARTITION BY t.doctor_id ORDER BY t.queue_sort_at, t.position
+        ) AS place,
+        p.first_name,
+        p.last_name
+      FROM public.queue_tokens t
+      LEFT JOIN public.patients p ON p.id = t.patient_id
+      WHERE t.department = _department
+        AND t.token_date = public.hospital_today()
+        AND t.status IN ('waiting', 'next')
+    ),
+    queued AS (
+      INSERT INTO public.queue_notifications (token_id, token_number, type)
+      SELECT id, token_number, 'upcoming'
+      FROM ranked
+      WHERE place <= _settings.upcoming_position
+         OR estimated_wait_minutes <= _settings.upcoming_minutes
+      ON CONFLICT DO NOTHING
+      RETURNING token_id
+    )
+    SELECT r.* FROM ranked r JOIN queued q ON q.token_id = r.id
+  LOOP
+    PERFORM public.invoke_edge_function(
+      'send-queue-notification',
+      jsonb_build_object(
+        'tokenId', _token.id,
+        'tokenNumber', _token.token_number,
+        'patientName', TRIM(COALESCE(_token.first_name, '') || ' ' || COALESCE(_token.last_name, '')),
+        'type', 'upcoming'
+      )
+    );
+  END LOOP;
+END;
+$$;
+
+-- Room the doctor is in right now; sessions left open from an earlier day
+-- don't count
+CREATE OR REPLACE FUNCTION public.current_doctor_room(_doctor_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT room_id
+  FROM public.doctor_room_sessions
+  WHERE doctor_id = _doctor_id
+    AND ended_at IS NULL
+    AND session_date = public.hospital_today()
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_doctor_slots(
+  _doctor_id UUID,
+  _from DATE,
+  _to DATE,
+  _appointment_type_id UUID DEFAULT NULL,
+  _ignore_appointment_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  slot_date DATE,
+  slot_time TEXT,
+  starts_at TIME,
+  ends_at TIME,
+  available BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH duration AS (
+    SELECT (public.resolve_appointment_type(_doctor_id, _appointment_type_id)).duration_minutes AS minutes
+  ),
+  hold AS (
+    SELECT COALESCE((public.resolve_appointment_type(_doctor_id, NULL)).duration_minutes, 30) AS minutes
+  ),
+  days AS (
+    SELECT d::DATE AS day
+    FROM generate_series(_from, _to, INTERVAL '1 day') AS d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.doctor_leave l
+      WHERE l.doctor_id = _doctor_id
+        AND d::DATE BETWEEN l.start_date AND l.end_date
+    )
+  ),
+  hours AS (
+    SELECT days.day, o.start_time, o.end_time, o.slot_minutes
+    FROM days
+    JOIN public.doctor_schedule_overrides o
+      ON o.doctor_id = _doctor_id AND o.override_date = days.day
+    UNION ALL
+    SELECT days.day, s.start_time, s.end_time, s.slot_minutes
+    FROM days
+    JOIN public.doctor_schedules s
+      ON s.doctor_id = _doctor_id AND s.weekday = EXTRACT(DOW FROM days.day)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.doctor_schedule_overrides o
+      WHERE o.doctor_id = _doctor_id AND o.override_date = days.day
+    )
+  ),
+  slots AS (
+    SELECT DISTINCT
+      h.day,
+      t::TIME AS starts_at,
+      (t + make_interval(mins => m.minutes))::TIME AS ends_at,
+      public.clinic_timestamp(t) AS starts_at_ts,
+      public.clinic_timestamp(t + make_interval(mins => m.minutes)) AS ends_at_ts
+    FROM hours h
+    CROSS JOIN LATERAL (
+      SELECT COALESCE((SELECT minutes FROM duration), h.slot_minutes) AS minutes
+    ) AS m
+    CROSS JOIN LATERAL generate_series(
+      h.day + h.start_time,
+      h.day + h.end_time - make_interval(mins => m.minutes),
+      make_interval(mins => m.minutes)
+    ) AS t
+  )
+  SELECT
+    s.day,
+    to_char(s.day + s.starts_at, 'HH12:MI AM'),
+    s.starts_at,
+    s.ends_at,
+    s.day + s.starts_at > public.hospital_now()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.doctor_id = _doctor_id
+          AND a.status IN ('pending', 'confirmed')
+          AND a.id IS DISTINCT FROM _ignore_appointment_id
+          AND a.starts_at < s.ends_at_ts
+          AND a.ends_at > s.starts_at_ts
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.appointment_slot_offers o, hold
+        WHERE o.doctor_id = _doctor_id
+          AND o.status = 'pending'
+          AND o.slot_date BETWEEN s.day - 1 AND s.day + 1
+          AND public.clinic_timestamp(o.slot_date + o.slot_time::TIME) < s.ends_at_ts
+          AND public.clinic_timestamp(o.slot_date + o.slot_time::TIME)
+            + make_interval(mins => hold.minutes) > s.starts_at_ts
+      )
+  FROM slots s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.doctor_schedule_breaks b
+    WHERE b.doctor_id = _doctor_id
+      AND (b.weekday IS NULL OR b.weekday = EXTRACT(DOW FROM s.day))
+      AND s.starts_at < b.end_time
+      AND s.ends_at > b.start_time
+  )
+  ORDER BY s.day, s.starts_at
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_bookable_slot(
+  _doctor_id UUID,
+  _date DATE,
+  _time TEXT,
+  _appointment_type_id UUID DEFAULT NULL,
+  _ignore_appointment_id UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _slot RECORD;
+BEGIN
+  SELECT * INTO _slot
+  FROM public.get_doctor_slots(_doctor_id, _date, _date, _appointment_type_id, _ignore_appointment_id) s
+  WHERE s.slot_time = TRIM(_time);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The doctor is not available at % on %', TRIM(_time), _date
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _date + _slot.starts_at <= public.hospital_now() THEN
+    RAISE EXCEPTION 'This slot is in the past' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT _slot.available THEN
+    RAISE EXCEPTION 'This slot has already been booked. Please choose another time.'
+      USING ERRCODE = '23505';
+  END IF;
+
+  RETURN _slot.slot_time;
+END;
+$$;
+
+-- Join the waitlist for a doctor. Patients join for themselves; staff may add
+-- a patient by id.
+CREATE OR REPLACE FUNCTION public.join_appointment_waitlist(
+  _doctor_id UUID,
+  _from DATE,
+  _to DATE,
+  _notes TEXT DEFAULT NULL,
+  _patient_id UUID DEFAULT NULL
+)
+RETURNS public.appointment_waitlist
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _patient UUID;
+  _entry public.appointment_waitlist;
+BEGIN
+  IF _patient_id IS NULL THEN
+    SELECT id INTO _patient FROM public.patients WHERE user_id = auth.uid();
+  ELSIF public.has_role(auth.uid(), 'doctor')
+     OR public.has_role(auth.uid(), 'admin')
+     OR EXISTS (SELECT 1 FROM public.patients WHERE id = _patient_id AND user_id = auth.uid()) THEN
+    _patient := _patient_id;
+  ELSE
+    RAISE EXCEPTION 'You can only join the waitlist for yourself' USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient IS NULL THEN
+    RAISE EXCEPTION 'Please register as a patient before joining the waitlist' USING ERRCODE = '22023';
+  END IF;
+
+  IF _to < _from OR _to < public.hospital_today() THEN
+    RAISE EXCEPTION 'Choose a date range that ends today or later' USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.appointment_waitlist (patient_id, doctor_id, from_date, to_date, notes)
+    VALUES (_patient, _doctor_id, GREATEST(_from, public.hospital_today()), _to, NULLIF(TRIM(_notes), ''))
+    RETURNING * INTO _entry;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'You are already on the waitlist for this doctor' USING ERRCODE = '23505';
+  END;
+
+  RETURN _entry;
+END;
+$$;
+
+-- Expire unanswered offers and pass their slots on, and close waitlist
+-- entries whose date range has passed
+CREATE OR REPLACE FUNCTION public.expire_slot_offers()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.appointment_slot_offers;
+BEGIN
+  FOR _offer IN
+    UPDATE public.appointment_slot_offers
+    SET status = 'expired'
+    WHERE status = 'pending' AND expires_at <= now()
+    RETURNING *
+  LOOP
+    PERFORM public.offer_waitlist_slot(_offer.doctor_id, _offer.slot_date, _offer.slot_time);
+  END LOOP;
+
+  UPDATE public.appointment_waitlist
+  SET status = 'expired'
+  WHERE status = 'waiting' AND to_date < public.hospital_today();
+END;
+$$;
+
+-- Queue the 24-hour and 2-hour reminders that are due. An appointment booked
+-- less than two hours ahead only gets the 2-hour one.
+CREATE OR REPLACE FUNCTION public.send_appointment_reminders()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reminder RECORD;
+BEGIN
+  FOR _reminder IN
+    WITH due AS (
+      SELECT a.id, a.patient_id, a.doctor_id, a.scheduled_date, a.scheduled_time, k.kind
+      FROM public.appointments a
+      CROSS JOIN (VALUES ('24h', INTERVAL '24 hours'), ('2h', INTERVAL '2 hours')) AS k(kind, lead)
+      WHERE a.status IN ('pending', 'confirmed')
+        AND a.scheduled_date BETWEEN public.hospital_today() AND public.hospital_today() + 2
+        AND public.appointment_starts_at(a) > public.hospital_now()
+        AND public.appointment_starts_at(a) - k.lead <= public.hospital_now()
+        AND (k.kind = '2h' OR public.appointment_starts_at(a) - INTERVAL '2 hours' > public.hospital_now())
+    ),
+    queued AS (
+      INSERT INTO public.appointment_reminders (appointment_id, kind)
+      SELECT id, kind FROM due
+      ON CONFLICT DO NOTHING
+      RETURNING appointment_id, kind, action_token
+    )
+    SELECT d.*, q.action_token
+    FROM due d
+    JOIN queued q ON q.appointment_id = d.id AND q.kind = d.kind
+  LOOP
+    PERFORM public.invoke_edge_function(
+      'send-appointment-notification',
+      jsonb_build_object(
+        'patientId', _reminder.patient_id,
+        'doctorId', _reminder.doctor_id,
+        'date', _reminder.scheduled_date,
+        'time', _reminder.scheduled_time,
+        'type', 'reminder',
+        'reminderKind', _reminder.kind,
+        'actionToken', _reminder.action_token
+      )
+    );
+  END LOOP;
+END;
+$$;
+
+-- Confirm or cancel the appointment from a reminder link. Confirming an
+-- already confirmed appointment is a no-op.
+CREATE OR REPLACE FUNCTION public.respond_to_appointment_reminder(_token UUID, _action TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reminder public.appointment_reminders;
+  _appointment public.appointments;
+BEGIN
+  IF _action NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Unknown reminder action %', _action USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _reminder
+  FROM public.appointment_reminders
+  WHERE action_token = _token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is not valid' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _reminder.appointment_id
+  FOR UPDATE;
+
+  IF _appointment.status NOT IN ('pending', 'confirmed')
+     OR public.appointment_starts_at(_appointment) <= public.hospital_now() THEN
+    RAISE EXCEPTION 'This appointment can no longer be changed (it is %)', _appointment.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.appointments
+  SET status = CASE _action WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END
+  WHERE id = _appointment.id
+  RETURNING * INTO _appointment;
+
+  UPDATE public.appointment_reminders
+  SET response = _appointment.status, responded_at = now()
+  WHERE appointment_id = _reminder.appointment_id AND kind = _reminder.kind;
+
+  RETURN _appointment.status;
+END;
+$$;
+
+-- Totals for the list page's header. The status counts cover every status so
+-- they stay meaningful while the list is narrowed to one; total and today
+-- follow all the filters.
+CREATE OR REPLACE FUNCTION public.count_appointments(
+  _search TEXT DEFAULT NULL,
+  _status TEXT DEFAULT NULL,
+  _doctor_id UUID DEFAULT NULL,
+  _from DATE DEFAULT NULL,
+  _to DATE DEFAULT NULL
+)
+RETURNS TABLE (total BIGINT, today BIGINT, pending BIGINT, confirmed BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*) FILTER (WHERE _status IS NULL OR f.status = _status),
+    count(*) FILTER (WHERE (_status IS NULL OR f.status = _status) AND f.scheduled_date = public.hospital_today()),
+    count(*) FILTER (WHERE f.status = 'pending'),
+    count(*) FILTER (WHERE f.status = 'confirmed')
+  FROM public.filter_appointments(_search, NULL, _doctor_id, _from, _to) f;
+$$;
+
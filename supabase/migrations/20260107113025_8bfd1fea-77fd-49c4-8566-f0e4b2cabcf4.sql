@@ -0,0 +1,310 @@
+-- How close to the start patients may still cancel an appointment themselves.
+-- Later than this they have to call the hospital; staff may cancel any time.
+ALTER TABLE public.appointment_settings
+  ADD COLUMN patient_cancellation_cutoff_hours INTEGER NOT NULL DEFAULT 24
+    CHECK (patient_cancellation_cutoff_hours >= 0);
+
+-- Why and by whom an appointment was cancelled. Keep the reasons in step with
+-- supabase/functions/_shared/cancellationReasons.ts.
+ALTER TABLE public.appointments
+  ADD COLUMN cancellation_reason TEXT CHECK (cancellation_reason IN (
+    'patient_request', 'schedule_conflict', 'feeling_better',
+    'doctor_unavailable', 'duplicate_booking', 'other'
+  )),
+  ADD COLUMN cancellation_note TEXT,
+  ADD COLUMN cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+
+-- Whether the appointment's patient may still cancel it themselves
+CREATE OR REPLACE FUNCTION public.patient_can_cancel(_appointment public.appointments)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _appointment.starts_at - make_interval(hours => s.patient_cancellation_cutoff_hours) > now()
+  FROM public.appointment_settings s
+$$;
+
+-- Records when and by whom an appointment is cancelled, and holds patients to
+-- the cutoff however they cancel: the app, a reminder link or a direct update.
+-- The appointment's doctor, admins and the system itself are not held to it.
+CREATE OR REPLACE FUNCTION public.record_appointment_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'cancelled' OR OLD.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.role() IN ('anon', 'authenticated')
+     AND NOT public.has_role(auth.uid(), 'admin')
+     AND NOT EXISTS (
+       SELECT 1 FROM public.doctors WHERE id = OLD.doctor_id AND user_id = auth.uid()
+     )
+     AND NOT public.patient_can_cancel(OLD) THEN
+    RAISE EXCEPTION 'Appointments can only be cancelled online up to % hours before they start. Please call the hospital to cancel.',
+      (SELECT patient_cancellation_cutoff_hours FROM public.appointment_settings)
+      USING ERRCODE = '42501';
+  END IF;
+
+  NEW.cancelled_at := now();
+  NEW.cancelled_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_appointment_cancellation
+  BEFORE UPDATE OF status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.record_appointment_cancellation();
+
+-- Cancel an appointment with a reason. The patient, the appointment's doctor
+-- and admins may cancel; patients only until the cutoff.
+CREATE OR REPLACE FUNCTION public.cancel_appointment(
+  _appointment_id UUID,
+  _reason TEXT,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR _appointment.patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+    OR _appointment.doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'You can only cancel your own appointments' USING ERRCODE = '42501';
+  END IF;
+
+  IF _reason IS NULL THEN
+    RAISE EXCEPTION 'Choose a reason for cancelling' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.appointments
+  SET status = 'cancelled',
+      cancellation_reason = _reason,
+      cancellation_note = NULLIF(TRIM(_note), '')
+  WHERE id = _appointment.id
+  RETURNING * INTO _appointment;
+
+  RETURN _appointment;
+END;
+$$;
+
+-- A doctor's whole day off at short notice: the day is taken off so nothing
+-- new is booked into it, and every active appointment on it is cancelled with
+-- the reason given and the patient emailed. Patients whose appointments are
+-- listed in _rebook_appointment_ids go on the doctor's waitlist for the next
+-- two weeks and are offered the first free slots, held for them as any
+-- waitlist offer is. Returns the cancelled appointments.
+CREATE OR REPLACE FUNCTION public.cancel_doctor_day(
+  _doctor_id UUID,
+  _date DATE,
+  _reason TEXT DEFAULT 'doctor_unavailable',
+  _note TEXT DEFAULT NULL,
+  _rebook_appointment_ids UUID[] DEFAULT '{}'
+)
+RETURNS SETOF public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _rebook BOOLEAN;
+  _waitlist_ids UUID[] := '{}';
+  _entry_id UUID;
+  _slot RECORD;
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR _doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Only the doctor or an admin can cancel the doctor''s day' USING ERRCODE = '42501';
+  END IF;
+
+  IF _date < public.hospital_today() THEN
+    RAISE EXCEPTION 'Cannot cancel a day in the past' USING ERRCODE = '22023';
+  END IF;
+
+  IF _reason IS NULL THEN
+    RAISE EXCEPTION 'Choose a reason for cancelling' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.doctor_leave
+    WHERE doctor_id = _doctor_id AND _date BETWEEN start_date AND end_date
+  ) THEN
+    INSERT INTO public.doctor_leave (doctor_id, start_date, end_date, reason)
+    VALUES (_doctor_id, _date, _date, COALESCE(NULLIF(TRIM(_note), ''), 'Appointments cancelled'));
+  END IF;
+
+  FOR _appointment IN
+    SELECT * FROM public.appointments
+    WHERE doctor_id = _doctor_id
+      AND scheduled_date = _date
+      AND status IN ('pending', 'confirmed')
+    ORDER BY starts_at
+    FOR UPDATE
+  LOOP
+    UPDATE public.appointments
+    SET status = 'cancelled',
+        cancellation_reason = _reason,
+        cancellation_note = NULLIF(TRIM(_note), '')
+    WHERE id = _appointment.id
+    RETURNING * INTO _appointment;
+
+    _rebook := _appointment.id = ANY(_rebook_appointment_ids);
+
+    IF _rebook AND _appointment.patient_id IS NOT NULL THEN
+      INSERT INTO public.appointment_waitlist (patient_id, doctor_id, from_date, to_date, notes)
+      VALUES (
+        _appointment.patient_id, _doctor_id,
+        GREATEST(_date + 1, public.hospital_today()), _date + 14,
+        'Rebooking after the cancelled visit on ' || _date
+      )
+      ON CONFLICT (patient_id, doctor_id) WHERE status = 'waiting' DO NOTHING
+      RETURNING id INTO _entry_id;
+
+      -- Already waiting for this doctor: that entry gets the offer
+      IF _entry_id IS NULL THEN
+        SELECT id INTO _entry_id
+        FROM public.appointment_waitlist
+        WHERE patient_id = _appointment.patient_id AND doctor_id = _doctor_id AND status = 'waiting';
+      END IF;
+
+      _waitlist_ids := _waitlist_ids || _entry_id;
+    END IF;
+
+    PERFORM public.invoke_edge_function(
+      'send-appointment-notification',
+      jsonb_build_object(
+        'patientId', _appointment.patient_id,
+        'doctorId', _doctor_id,
+        'date', _appointment.scheduled_date,
+        'time', _appointment.scheduled_time,
+        'type', 'cancelled',
+        'cancellationReason', _reason,
+        'cancellationNote', _appointment.cancellation_note,
+        'rebooking', _rebook
+      )
+    );
+
+    RETURN NEXT _appointment;
+  END LOOP;
+
+  -- Free slots go to the waitlist first come, first served, so patients who
+  -- were already waiting may be offered one before those rebooked here
+  FOR _slot IN
+    SELECT s.slot_date, s.slot_time
+    FROM public.get_doctor_slots(_doctor_id, _date + 1, _date + 14) s
+    WHERE s.available
+    ORDER BY s.slot_date, s.starts_at
+  LOOP
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.appointment_waitlist w
+      WHERE w.id = ANY(_waitlist_ids)
+        AND w.status = 'waiting'
+        AND NOT EXISTS (
+          SELECT 1 FROM public.appointment_slot_offers o
+          WHERE o.waitlist_id = w.id AND o.status = 'pending'
+        )
+    );
+
+    PERFORM public.offer_waitlist_slot(_doctor_id, _slot.slot_date, _slot.slot_time);
+  END LOOP;
+END;
+$$;
+
+-- Reminder links cancel on the patient's behalf
+CREATE OR REPLACE FUNCTION public.respond_to_appointment_reminder(_token UUID, _action TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reminder public.appointment_reminders;
+  _appointment public.appointments;
+BEGIN
+  IF _action NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Unknown reminder action %', _action USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _reminder
+  FROM public.appointment_reminders
+  WHERE action_token = _token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is not valid' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _reminder.appointment_id
+  FOR UPDATE;
+
+  IF _appointment.status NOT IN ('pending', 'confirmed')
+     OR public.appointment_starts_at(_appointment) <= public.hospital_now() THEN
+    RAISE EXCEPTION 'This appointment can no longer be changed (it is %)', _appointment.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.appointments
+  SET status = CASE _action WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END,
+      cancellation_reason = CASE _action WHEN 'cancel' THEN 'patient_request' END
+  WHERE id = _appointment.id
+  RETURNING * INTO _appointment;
+
+  UPDATE public.appointment_reminders
+  SET response = _appointment.status, responded_at = now()
+  WHERE appointment_id = _reminder.appointment_id AND kind = _reminder.kind;
+
+  RETURN _appointment.status;
+END;
+$$;
+
+-- Cancelled appointments show why on the list page
+CREATE OR REPLACE VIEW public.appointment_list
+WITH (security_invoker = true) AS
+SELECT
+  a.id,
+  a.patient_id,
+  a.doctor_id,
+  a.appointment_type_id,
+  a.scheduled_date,
+  a.scheduled_time,
+  a.starts_at,
+  a.ends_at,
+  a.status,
+  a.symptoms,
+  a.notes,
+  p.first_name AS patient_first_name,
+  p.last_name AS patient_last_name,
+  d.name AS doctor_name,
+  d.specialty AS doctor_specialty,
+  a.cancellation_reason,
+  a.cancellation_note
+FROM public.appointments a
+LEFT JOIN public.patients p ON p.id = a.patient_id
+LEFT JOIN public.doctors d ON d.id = a.doctor_id;
+
+GRANT EXECUTE ON FUNCTION public.cancel_appointment(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_doctor_day(UUID, DATE, TEXT, TEXT, UUID[]) TO authenticated;
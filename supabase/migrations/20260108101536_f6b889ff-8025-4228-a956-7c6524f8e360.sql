@@ -0,0 +1,179 @@
+-- Teleconsults: appointments of the 'teleconsult' kind are held in the app's
+-- consult room, where the patient and the doctor chat, share medical records
+-- and talk over a peer-to-peer video call. The room opens shortly before the
+-- start and closes a while after the end; keep the window in step with
+-- supabase/functions/_shared/teleconsult.ts.
+
+-- Whether the appointment is a teleconsult
+CREATE OR REPLACE FUNCTION public.is_teleconsult(_appointment public.appointments)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.appointment_types
+    WHERE id = _appointment.appointment_type_id
+      AND kind = 'teleconsult'
+  )
+$$;
+
+-- Whether the current user is the patient or the doctor of the appointment
+CREATE OR REPLACE FUNCTION public.is_consult_participant(_appointment_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.appointments a
+    WHERE a.id = _appointment_id
+      AND (
+        a.patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+        OR a.doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+      )
+  )
+$$;
+
+-- Whether the teleconsult's room is open: the appointment is still active and
+-- it is between 15 minutes before the start and 30 minutes after the end
+CREATE OR REPLACE FUNCTION public.consult_room_open(_appointment_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.appointments a
+    WHERE a.id = _appointment_id
+      AND a.status IN ('pending', 'confirmed')
+      AND public.is_teleconsult(a)
+      AND now() BETWEEN a.starts_at - INTERVAL '15 minutes'
+                    AND a.ends_at + INTERVAL '30 minutes'
+  )
+$$;
+
+-- The room's chat. A message is text, a medical record of the patient shared
+-- into the room, or both.
+CREATE TABLE public.consult_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  sender_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  body TEXT CHECK (char_length(body) BETWEEN 1 AND 4000),
+  medical_record_id UUID REFERENCES public.medical_records(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (body IS NOT NULL OR medical_record_id IS NOT NULL)
+);
+
+CREATE INDEX consult_messages_appointment_idx
+  ON public.consult_messages (appointment_id, created_at);
+
+ALTER TABLE public.consult_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view consult messages" ON public.consult_messages
+  FOR SELECT USING (
+    public.is_consult_participant(appointment_id)
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- Only while the room is open, and only records of the appointment's patient
+CREATE POLICY "Participants can post in open consult rooms" ON public.consult_messages
+  FOR INSERT WITH CHECK (
+    sender_id = auth.uid()
+    AND public.is_consult_participant(appointment_id)
+    AND public.consult_room_open(appointment_id)
+    AND (
+      medical_record_id IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM public.medical_records r
+        JOIN public.appointments a ON a.patient_id = r.patient_id
+        WHERE r.id = medical_record_id
+          AND a.id = appointment_id
+      )
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.consult_messages;
+
+-- Record files are private to the patient who uploaded them; the doctor may
+-- open the ones shared in their consult rooms
+CREATE POLICY "Doctors can view medical records shared in consults"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'medical-records' AND
+  EXISTS (
+    SELECT 1
+    FROM public.consult_messages m
+    JOIN public.medical_records r ON r.id = m.medical_record_id
+    WHERE r.file_url = objects.name
+      AND public.is_consult_participant(m.appointment_id)
+  )
+);
+
+-- The video call is set up over the room's private Realtime channel,
+-- "consult:<appointment id>": presence tells each side who is in the room and
+-- broadcast carries the WebRTC offer, answer and ICE candidates. Only the
+-- appointment's patient and doctor may join it, and only send while the room
+-- is open.
+CREATE POLICY "Participants can join consult channels"
+ON realtime.messages
+FOR SELECT
+TO authenticated
+USING (
+  CASE
+    WHEN realtime.topic() ~ '^consult:[0-9a-f-]{36}$'
+      THEN public.is_consult_participant(substr(realtime.topic(), 9)::UUID)
+    ELSE false
+  END
+);
+
+CREATE POLICY "Participants can signal in open consult channels"
+ON realtime.messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension IN ('broadcast', 'presence')
+  AND CASE
+    WHEN realtime.topic() ~ '^consult:[0-9a-f-]{36}$'
+      THEN public.is_consult_participant(substr(realtime.topic(), 9)::UUID)
+        AND public.consult_room_open(substr(realtime.topic(), 9)::UUID)
+    ELSE false
+  END
+);
+
+-- The list shows which appointments are teleconsults
+CREATE OR REPLACE VIEW public.appointment_list
+WITH (security_invoker = true) AS
+SELECT
+  a.id,
+  a.patient_id,
+  a.doctor_id,
+  a.appointment_type_id,
+  a.scheduled_date,
+  a.scheduled_time,
+  a.starts_at,
+  a.ends_at,
+  a.status,
+  a.symptoms,
+  a.notes,
+  p.first_name AS patient_first_name,
+  p.last_name AS patient_last_name,
+  d.name AS doctor_name,
+  d.specialty AS doctor_specialty,
+  a.cancellation_reason,
+  a.cancellation_note,
+  t.kind AS appointment_kind
+FROM public.appointments a
+LEFT JOIN public.patients p ON p.id = a.patient_id
+LEFT JOIN public.doctors d ON d.id = a.doctor_id
+LEFT JOIN public.appointment_types t ON t.id = a.appointment_type_id;
+
+GRANT EXECUTE ON FUNCTION public.is_consult_participant(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.consult_room_open(UUID) TO authenticated;
@@ -0,0 +1,133 @@
+-- Check-in: a booked patient who arrives joins the doctor's queue through
+-- their appointment instead of registering as a walk-in. Check-in opens a
+-- while before the appointment; anyone checking in up to the late allowance
+-- after the start is placed in line as if they had arrived at their booked
+-- time, and later than that they go to the back like a walk-in.
+ALTER TABLE public.queue_settings
+  ADD COLUMN check_in_opens_minutes INTEGER NOT NULL DEFAULT 120
+    CHECK (check_in_opens_minutes >= 0),
+  ADD COLUMN check_in_late_minutes INTEGER NOT NULL DEFAULT 15
+    CHECK (check_in_late_minutes >= 0);
+
+ALTER TABLE public.appointments
+  ADD COLUMN checked_in_at TIMESTAMP WITH TIME ZONE;
+
+-- The appointment a token was issued for; one token per appointment
+ALTER TABLE public.queue_tokens
+  ADD COLUMN appointment_id UUID UNIQUE REFERENCES public.appointments(id) ON DELETE SET NULL;
+
+-- Check in a confirmed appointment of today and return its queue token. The
+-- patient (from the self-service page), the appointment's doctor and admins
+-- (at reception) may check in. Checking in again returns the same token.
+CREATE OR REPLACE FUNCTION public.check_in_appointment(_appointment_id UUID)
+RETURNS public.queue_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _settings public.queue_settings;
+  _token public.queue_tokens;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR _appointment.patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+    OR _appointment.doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'You can only check in your own appointments' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _token FROM public.queue_tokens WHERE appointment_id = _appointment.id;
+
+  IF FOUND THEN
+    RETURN _token;
+  END IF;
+
+  IF _appointment.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed appointments can be checked in; this one is %', _appointment.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF public.is_teleconsult(_appointment) THEN
+    RAISE EXCEPTION 'Teleconsults are held online. Join the consult room instead.'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _appointment.scheduled_date <> public.hospital_today() THEN
+    RAISE EXCEPTION 'Appointments can only be checked in on the day, this one is on %',
+      to_char(_appointment.scheduled_date, 'YYYY-MM-DD')
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _settings FROM public.queue_settings LIMIT 1;
+
+  IF now() < _appointment.starts_at - make_interval(mins => _settings.check_in_opens_minutes) THEN
+    RAISE EXCEPTION 'Check-in opens at %',
+      to_char(
+        (_appointment.starts_at - make_interval(mins => _settings.check_in_opens_minutes))
+          AT TIME ZONE public.hospital_timezone(),
+        'HH24:MI'
+      )
+      USING ERRCODE = '22023';
+  END IF;
+
+  _token := public.issue_queue_token(_appointment.patient_id, _appointment.doctor_id);
+
+  UPDATE public.queue_tokens
+  SET appointment_id = _appointment.id,
+      queue_sort_override = CASE
+        WHEN now() <= _appointment.starts_at + make_interval(mins => _settings.check_in_late_minutes)
+          THEN _appointment.starts_at
+      END
+  WHERE id = _token.id;
+
+  UPDATE public.appointments
+  SET checked_in_at = now()
+  WHERE id = _appointment.id;
+
+  -- With the estimate refreshed for the new place in line
+  SELECT * INTO _token FROM public.queue_tokens WHERE id = _token.id;
+
+  RETURN _token;
+END;
+$$;
+
+-- A checked-in appointment ends with its token: completed when the visit is,
+-- a no-show when the patient never answered the call
+CREATE OR REPLACE FUNCTION public.close_checked_in_appointment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.appointments
+  SET status = CASE NEW.status WHEN 'completed' THEN 'completed' ELSE 'no-show' END
+  WHERE id = NEW.appointment_id
+    AND status IN ('pending', 'confirmed');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER close_checked_in_appointment
+  AFTER UPDATE OF status ON public.queue_tokens
+  FOR EACH ROW
+  WHEN (
+    NEW.appointment_id IS NOT NULL
+    AND NEW.status IN ('completed', 'no-show')
+    AND OLD.status IS DISTINCT FROM NEW.status
+  )
+  EXECUTE FUNCTION public.close_checked_in_appointment();
+
+GRANT EXECUTE ON FUNCTION public.check_in_appointment(UUID) TO authenticated;
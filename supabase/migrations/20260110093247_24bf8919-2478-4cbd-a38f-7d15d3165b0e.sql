@@ -0,0 +1,93 @@
+-- Triage levels are set by staff. Patients joining the queue themselves could
+-- pass any level and take its head start over everyone waiting.
+CREATE OR REPLACE FUNCTION public.issue_queue_token(
+  _patient_id UUID,
+  _doctor_id UUID DEFAULT NULL,
+  _department TEXT DEFAULT NULL,
+  _priority TEXT DEFAULT 'routine',
+  _priority_reason TEXT DEFAULT NULL
+)
+RETURNS public.queue_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _dept TEXT;
+  _number INTEGER;
+  _position INTEGER;
+  _token public.queue_tokens;
+BEGIN
+  IF auth.uid() IS NULL AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Authentication required to issue a queue token'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _patient_id IS NULL THEN
+    RAISE EXCEPTION 'A patient is required to issue a queue token'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Staff issue tokens for anyone; patients only for themselves
+  IF NOT (
+    COALESCE(auth.role(), '') = 'service_role'
+    OR public.has_role(auth.uid(), 'doctor')
+    OR public.has_role(auth.uid(), 'admin')
+    OR EXISTS (SELECT 1 FROM public.patients WHERE id = _patient_id AND user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'You can only join the queue for yourself'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(_priority, 'routine') <> 'routine'
+     AND NOT (
+       COALESCE(auth.role(), '') = 'service_role'
+       OR public.has_role(auth.uid(), 'doctor')
+       OR public.has_role(auth.uid(), 'admin')
+     ) THEN
+    RAISE EXCEPTION 'Only hospital staff can set a triage level'
+      USING ERRCODE = '42501';
+  END IF;
+
+  _dept := NULLIF(TRIM(_department), '');
+
+  IF _dept IS NULL AND _doctor_id IS NOT NULL THEN
+    SELECT specialty INTO _dept FROM public.doctors WHERE id = _doctor_id;
+  END IF;
+
+  _dept := COALESCE(_dept, 'General');
+
+  INSERT INTO public.queue_token_counters AS c (department, token_date, last_number)
+  VALUES (_dept, public.hospital_today(), 1)
+  ON CONFLICT (department, token_date)
+  DO UPDATE SET last_number = c.last_number + 1
+  RETURNING c.last_number INTO _number;
+
+  SELECT COALESCE(MAX(position), 0) + 1 INTO _position
+  FROM public.queue_tokens
+  WHERE department = _dept
+    AND token_date = public.hospital_today()
+    AND status IN ('waiting', 'next');
+
+  INSERT INTO public.queue_tokens (
+    token_number, patient_id, doctor_id, department, status, position, token_date,
+    priority, priority_reason
+  )
+  VALUES (
+    public.department_token_prefix(_dept) || '-' || LPAD(_number::TEXT, GREATEST(3, length(_number::TEXT)), '0'),
+    _patient_id,
+    _doctor_id,
+    _dept,
+    'waiting',
+    _position,
+    public.hospital_today(),
+    COALESCE(_priority, 'routine'),
+    NULLIF(TRIM(_priority_reason), '')
+  )
+  RETURNING * INTO _token;
+
+  SELECT * INTO _token FROM public.queue_tokens WHERE id = _token.id;
+
+  RETURN _token;
+END;
+$$;
@@ -0,0 +1,60 @@
+-- Arrivals by hour of day on the hospital's clock, for spotting peak hours.
+-- Tokens were grouped by the hour they were issued in UTC.
+CREATE OR REPLACE FUNCTION public.queue_hourly_load(
+  _from DATE,
+  _to DATE,
+  _department TEXT DEFAULT NULL,
+  _doctor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  hour INTEGER,
+  tokens_issued INTEGER,
+  appointments_booked INTEGER,
+  avg_tokens_per_day NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only staff can view queue analytics' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH hours AS (
+    SELECT generate_series(0, 23) AS hour
+  ),
+  token_hours AS (
+    SELECT
+      EXTRACT(HOUR FROM t.created_at AT TIME ZONE public.hospital_timezone())::INTEGER AS hour,
+      COUNT(*)::INTEGER AS issued
+    FROM public.queue_tokens t
+    WHERE t.token_date BETWEEN _from AND _to
+      AND (_department IS NULL OR t.department = _department)
+      AND (_doctor_id IS NULL OR t.doctor_id = _doctor_id)
+    GROUP BY 1
+  ),
+  appt_hours AS (
+    -- scheduled_time is stored as text such as '09:30 AM'
+    SELECT EXTRACT(HOUR FROM a.scheduled_time::TIME)::INTEGER AS hour, COUNT(*)::INTEGER AS booked
+    FROM public.appointments a
+    LEFT JOIN public.doctors d ON d.id = a.doctor_id
+    WHERE a.scheduled_date BETWEEN _from AND _to
+      AND a.status <> 'cancelled'
+      AND (_department IS NULL OR d.specialty = _department)
+      AND (_doctor_id IS NULL OR a.doctor_id = _doctor_id)
+    GROUP BY 1
+  )
+  SELECT
+    h.hour,
+    COALESCE(th.issued, 0),
+    COALESCE(ah.booked, 0),
+    ROUND(COALESCE(th.issued, 0)::NUMERIC / GREATEST(_to - _from + 1, 1), 2)
+  FROM hours h
+  LEFT JOIN token_hours th ON th.hour = h.hour
+  LEFT JOIN appt_hours ah ON ah.hour = h.hour
+  ORDER BY h.hour;
+END;
+$$;
@@ -0,0 +1,28 @@
+-- Patients cancelling their own appointment may give the reason with it.
+-- The cancellation columns came after restrict_patient_appointment_update,
+-- which refused any change to them.
+CREATE OR REPLACE FUNCTION public.restrict_patient_appointment_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _editable TEXT[] := ARRAY[
+    'status', 'updated_at',
+    'cancellation_reason', 'cancellation_note', 'cancelled_by', 'cancelled_at'
+  ];
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated')
+     OR public.has_role(auth.uid(), 'admin')
+     OR EXISTS (SELECT 1 FROM public.doctors WHERE id = OLD.doctor_id AND user_id = auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - _editable IS DISTINCT FROM to_jsonb(OLD) - _editable THEN
+    RAISE EXCEPTION 'Only the status of an appointment can be changed directly; reschedule it to move it'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,48 @@
+-- Only confirmed appointments get reminders. The 24-hour and 2-hour ones are
+-- queued as before; an appointment booked less than two hours ahead only gets
+-- the 2-hour one.
+CREATE OR REPLACE FUNCTION public.send_appointment_reminders()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reminder RECORD;
+BEGIN
+  FOR _reminder IN
+    WITH due AS (
+      SELECT a.id, a.patient_id, a.doctor_id, a.scheduled_date, a.scheduled_time, k.kind
+      FROM public.appointments a
+      CROSS JOIN (VALUES ('24h', INTERVAL '24 hours'), ('2h', INTERVAL '2 hours')) AS k(kind, lead)
+      WHERE a.status = 'confirmed'
+        AND a.scheduled_date BETWEEN public.hospital_today() AND public.hospital_today() + 2
+        AND public.appointment_starts_at(a) > public.hospital_now()
+        AND public.appointment_starts_at(a) - k.lead <= public.hospital_now()
+        AND (k.kind = '2h' OR public.appointment_starts_at(a) - INTERVAL '2 hours' > public.hospital_now())
+    ),
+    queued AS (
+      INSERT INTO public.appointment_reminders (appointment_id, kind)
+      SELECT id, kind FROM due
+      ON CONFLICT DO NOTHING
+      RETURNING appointment_id, kind, action_token
+    )
+    SELECT d.*, q.action_token
+    FROM due d
+    JOIN queued q ON q.appointment_id = d.id AND q.kind = d.kind
+  LOOP
+    PERFORM public.invoke_edge_function(
+      'send-appointment-notification',
+      jsonb_build_object(
+        'patientId', _reminder.patient_id,
+        'doctorId', _reminder.doctor_id,
+        'date', _reminder.scheduled_date,
+        'time', _reminder.scheduled_time,
+        'type', 'reminder',
+        'reminderKind', _reminder.kind,
+        'actionToken', _reminder.action_token
+      )
+    );
+  END LOOP;
+END;
+$$;
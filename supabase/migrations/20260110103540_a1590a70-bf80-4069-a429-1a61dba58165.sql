@@ -0,0 +1,171 @@
+-- Patients checking themselves in must be at the hospital: the QR code in the
+-- lobby carries a code that changes every few minutes, and self check-in
+-- opens closer to the appointment than check-in at reception.
+ALTER TABLE public.queue_settings
+  ADD COLUMN check_in_self_opens_minutes INTEGER NOT NULL DEFAULT 30
+    CHECK (check_in_self_opens_minutes >= 0),
+  ADD COLUMN check_in_code_minutes INTEGER NOT NULL DEFAULT 5
+    CHECK (check_in_code_minutes > 0);
+
+-- The secret the lobby codes are derived from. Nobody reads it directly.
+CREATE TABLE public.check_in_secret (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  secret TEXT NOT NULL DEFAULT md5(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT)
+);
+
+INSERT INTO public.check_in_secret DEFAULT VALUES;
+
+ALTER TABLE public.check_in_secret ENABLE ROW LEVEL SECURITY;
+
+-- The lobby code for the period containing _at
+CREATE OR REPLACE FUNCTION public.check_in_code(_at TIMESTAMP WITH TIME ZONE)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT left(md5(c.secret || ':' || floor(extract(epoch FROM _at) / (s.check_in_code_minutes * 60))::BIGINT), 12)
+  FROM public.check_in_secret c
+  CROSS JOIN public.queue_settings s
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in_code(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- The code for the lobby's QR and when it changes. Only staff may fetch it,
+-- so the lobby screen is signed in with a staff account.
+CREATE OR REPLACE FUNCTION public.current_check_in_code()
+RETURNS TABLE (code TEXT, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _period INTERVAL;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'doctor')) THEN
+    RAISE EXCEPTION 'Only hospital staff can show the check-in code' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT make_interval(mins => check_in_code_minutes) INTO _period FROM public.queue_settings;
+
+  RETURN QUERY
+  SELECT
+    public.check_in_code(now()),
+    to_timestamp(
+      (floor(extract(epoch FROM now()) / extract(epoch FROM _period)) + 1) * extract(epoch FROM _period)
+    );
+END;
+$$;
+
+-- As before, with _code for patients checking themselves in. It must be the
+-- lobby's current or previous code, so a code scanned just before it changes
+-- still works. The appointment's doctor and admins check in at reception
+-- without one.
+DROP FUNCTION public.check_in_appointment(UUID);
+
+CREATE OR REPLACE FUNCTION public.check_in_appointment(_appointment_id UUID, _code TEXT DEFAULT NULL)
+RETURNS public.queue_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _settings public.queue_settings;
+  _token public.queue_tokens;
+  _at_reception BOOLEAN;
+  _opens_minutes INTEGER;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found' USING ERRCODE = '22023';
+  END IF;
+
+  _at_reception := public.has_role(auth.uid(), 'admin')
+    OR _appointment.doctor_id IN (SELECT id FROM public.doctors WHERE user_id = auth.uid());
+
+  IF NOT (
+    _at_reception
+    OR _appointment.patient_id IN (SELECT id FROM public.patients WHERE user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'You can only check in your own appointments' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _settings FROM public.queue_settings LIMIT 1;
+
+  IF NOT _at_reception AND (
+    _code IS NULL
+    OR _code NOT IN (
+      public.check_in_code(now()),
+      public.check_in_code(now() - make_interval(mins => _settings.check_in_code_minutes))
+    )
+  ) THEN
+    RAISE EXCEPTION 'Scan the QR code in the hospital lobby to check in' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _token FROM public.queue_tokens WHERE appointment_id = _appointment.id;
+
+  IF FOUND THEN
+    RETURN _token;
+  END IF;
+
+  IF _appointment.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed appointments can be checked in; this one is %', _appointment.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF public.is_teleconsult(_appointment) THEN
+    RAISE EXCEPTION 'Teleconsults are held online. Join the consult room instead.'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _appointment.scheduled_date <> public.hospital_today() THEN
+    RAISE EXCEPTION 'Appointments can only be checked in on the day, this one is on %',
+      to_char(_appointment.scheduled_date, 'YYYY-MM-DD')
+      USING ERRCODE = '22023';
+  END IF;
+
+  _opens_minutes := CASE
+    WHEN _at_reception THEN _settings.check_in_opens_minutes
+    ELSE _settings.check_in_self_opens_minutes
+  END;
+
+  IF now() < _appointment.starts_at - make_interval(mins => _opens_minutes) THEN
+    RAISE EXCEPTION 'Check-in opens at %',
+      to_char(
+        (_appointment.starts_at - make_interval(mins => _opens_minutes))
+          AT TIME ZONE public.hospital_timezone(),
+        'HH24:MI'
+      )
+      USING ERRCODE = '22023';
+  END IF;
+
+  _token := public.issue_queue_token(_appointment.patient_id, _appointment.doctor_id);
+
+  UPDATE public.queue_tokens
+  SET appointment_id = _appointment.id,
+      queue_sort_override = CASE
+        WHEN now() <= _appointment.starts_at + make_interval(mins => _settings.check_in_late_minutes)
+          THEN _appointment.starts_at
+      END
+  WHERE id = _token.id;
+
+  UPDATE public.appointments
+  SET checked_in_at = now()
+  WHERE id = _appointment.id;
+
+  -- With the estimate refreshed for the new place in line
+  SELECT * INTO _token FROM public.queue_tokens WHERE id = _token.id;
+
+  RETURN _token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_check_in_code() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.check_in_appointment(UUID, TEXT) TO authenticated;